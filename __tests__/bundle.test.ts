@@ -0,0 +1,84 @@
+import path from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import { BUNDLE_FORMAT, BUNDLE_VERSION, parseBundle, resolveBundlePath } from '../bundle.js';
+
+function bundleJson(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    format: BUNDLE_FORMAT,
+    bundleVersion: BUNDLE_VERSION,
+    exportedAt: '2026-03-01T00:00:00.000Z',
+    sessionId: 'dp-bundle01',
+    index: null,
+    log: '{"timestamp":"t","phase":"init","session":{}}\n',
+    markdown: '# Plan\n',
+    ...overrides,
+  });
+}
+
+describe('parseBundle', () => {
+  it('should read a bundle written by export_plan', () => {
+    expect(parseBundle(bundleJson())).toEqual(JSON.parse(bundleJson()));
+  });
+
+  it('should default missing Markdown and index to null', () => {
+    const bundle = parseBundle(bundleJson({ index: undefined, markdown: undefined }));
+
+    expect(bundle.index).toBeNull();
+    expect(bundle.markdown).toBeNull();
+  });
+
+  it('should say what is wrong with a document that is not a bundle', () => {
+    expect(() => parseBundle('{"format":')).toThrow('The bundle is not valid JSON');
+    expect(() => parseBundle('[]')).toThrow('The bundle must be a JSON object');
+    expect(() => parseBundle(bundleJson({ format: 'other' }))).toThrow(
+      `Not a plan bundle: "format" must be "${BUNDLE_FORMAT}"`
+    );
+    expect(() => parseBundle(bundleJson({ log: ['line'] }))).toThrow('"log" must be the JSONL');
+    expect(() => parseBundle(bundleJson({ markdown: 3 }))).toThrow('"markdown" must be a string');
+    expect(() => parseBundle(bundleJson({ index: [] }))).toThrow('"index" must be an object');
+  });
+
+  it('should refuse session IDs that are paths', () => {
+    expect(() => parseBundle(bundleJson({ sessionId: '../dp-bundle01' }))).toThrow(
+      '"sessionId" must be a session ID'
+    );
+    expect(() => parseBundle(bundleJson({ sessionId: '' }))).toThrow(
+      '"sessionId" must be a session ID'
+    );
+  });
+
+  it('should refuse bundles from a newer version', () => {
+    expect(() => parseBundle(bundleJson({ bundleVersion: BUNDLE_VERSION + 1 }))).toThrow(
+      'is newer than this server reads'
+    );
+    expect(() => parseBundle(bundleJson({ bundleVersion: '1' }))).toThrow(
+      '"bundleVersion" must be a whole number'
+    );
+  });
+});
+
+describe('resolveBundlePath', () => {
+  const plansDir = path.resolve('/plans');
+  const bundles = path.join(plansDir, 'bundles');
+
+  it('should resolve file names inside the bundles directory', () => {
+    expect(resolveBundlePath(plansDir, 'cache.json')).toBe(path.join(bundles, 'cache.json'));
+    expect(resolveBundlePath(plansDir, 'team/cache.json')).toBe(
+      path.join(bundles, 'team', 'cache.json')
+    );
+    expect(resolveBundlePath(plansDir, path.join(bundles, 'cache.json'))).toBe(
+      path.join(bundles, 'cache.json')
+    );
+  });
+
+  it('should refuse paths that leave the bundles directory', () => {
+    for (const file of ['../dp-x.jsonl', '/etc/passwd', 'a/../../x.json', '.', '']) {
+      expect(() => resolveBundlePath(plansDir, file)).toThrow(
+        `Bundle files must be inside ${bundles}`
+      );
+    }
+    expect(resolveBundlePath(plansDir, '..cache.json')).toBe(path.join(bundles, '..cache.json'));
+  });
+});
@@ -6,6 +6,7 @@ import {
   coerceNumber,
   numberSchema,
   optionalBooleanSchema,
+  optionalIndexSchema,
   optionalNumberSchema,
   optionalScoreSchema,
 } from '../coercion.js';
@@ -185,3 +186,20 @@ describe('optionalScoreSchema', () => {
     expect(() => optionalScoreSchema.parse('abc')).toThrow();
   });
 });
+
+describe('optionalIndexSchema', () => {
+  it('should return undefined for undefined/null', () => {
+    expect(optionalIndexSchema.parse()).toBeUndefined();
+    expect(optionalIndexSchema.parse(null)).toBeUndefined();
+  });
+
+  it('should parse zero and positive integers, including strings', () => {
+    expect(optionalIndexSchema.parse(0)).toBe(0);
+    expect(optionalIndexSchema.parse('3')).toBe(3);
+  });
+
+  it('should reject negative and fractional values', () => {
+    expect(() => optionalIndexSchema.parse(-1)).toThrow();
+    expect(() => optionalIndexSchema.parse(1.5)).toThrow();
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  analyzeDependencies,
+  type DependencyNode,
+  type StepComplexity,
+  validateDependencies,
+} from '../dependency-graph.js';
+
+// ─── validateDependencies ────────────────────────────────────────────────────
+
+describe('validateDependencies', () => {
+  it('should accept steps without dependencies', () => {
+    expect(validateDependencies([])).toBeNull();
+    expect(validateDependencies([{}, {}])).toBeNull();
+  });
+
+  it('should accept a valid DAG', () => {
+    expect(validateDependencies([{}, { dependencies: [1] }, { dependencies: [1, 2] }])).toBeNull();
+  });
+
+  it('should reject a step that depends on itself', () => {
+    expect(validateDependencies([{}, { dependencies: [2] }])).toBe('Step 2 depends on itself.');
+  });
+
+  it('should reject dependencies on missing steps and list the valid ones', () => {
+    expect(validateDependencies([{ dependencies: [3] }, {}])).toBe(
+      'Step 1 depends on Step 3, which does not exist. Valid steps: 1-2'
+    );
+    expect(validateDependencies([{ dependencies: [0] }])).toContain('Step 0');
+    expect(validateDependencies([{ dependencies: [1.5] }])).toContain('does not exist');
+  });
+
+  it('should report the steps that form a cycle', () => {
+    const steps: DependencyNode[] = [
+      {},
+      { dependencies: [1, 4] },
+      { dependencies: [2] },
+      { dependencies: [3] },
+    ];
+    expect(validateDependencies(steps)).toBe(
+      'Step dependencies form a cycle: Step 2 → Step 3 → Step 4 → Step 2'
+    );
+  });
+});
+
+// ─── analyzeDependencies ─────────────────────────────────────────────────────
+
+describe('analyzeDependencies', () => {
+  it('should handle an empty plan', () => {
+    expect(analyzeDependencies([])).toEqual({
+      order: [],
+      parallelGroups: [],
+      criticalPath: [],
+      criticalPathWeight: 0,
+    });
+  });
+
+  it('should put independent steps in a single group', () => {
+    const analysis = analyzeDependencies([{}, {}, { complexity: 'high' }]);
+
+    expect(analysis.parallelGroups).toEqual([[1, 2, 3]]);
+    expect(analysis.criticalPath).toEqual([3]);
+    expect(analysis.criticalPathWeight).toBe(3);
+  });
+
+  it('should order steps after their dependencies even when listed first', () => {
+    const analysis = analyzeDependencies([{ dependencies: [3] }, { dependencies: [1] }, {}]);
+
+    expect(analysis.order).toEqual([3, 1, 2]);
+    expect(analysis.parallelGroups).toEqual([[3], [1], [2]]);
+  });
+
+  it('should weight the critical path by complexity', () => {
+    const analysis = analyzeDependencies([
+      { complexity: 'low' },
+      { dependencies: [1], complexity: 'low' },
+      { dependencies: [1], complexity: 'high' },
+      { dependencies: [2, 3] },
+    ]);
+
+    expect(analysis.parallelGroups).toEqual([[1], [2, 3], [4]]);
+    expect(analysis.criticalPath).toEqual([1, 3, 4]);
+    expect(analysis.criticalPathWeight).toBe(6);
+  });
+
+  it('should prefer the earlier step when paths weigh the same', () => {
+    const analysis = analyzeDependencies([{}, {}, { dependencies: [2, 1] }]);
+    expect(analysis.criticalPath).toEqual([1, 3]);
+  });
+
+  it('should count unknown complexity values as medium', () => {
+    const analysis = analyzeDependencies([{ complexity: 'huge' as StepComplexity }]);
+    expect(analysis.criticalPathWeight).toBe(2);
+  });
+
+  it('should ignore duplicate dependencies', () => {
+    const analysis = analyzeDependencies([{}, { dependencies: [1, 1] }]);
+    expect(analysis.criticalPathWeight).toBe(4);
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest';
+
+import { layoutThoughtGraph, renderDiagram, renderDot, renderMermaid } from '../diagram.js';
+import { buildThoughtTree, type ThinkingSession, type ThoughtData } from '../lib.js';
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+function makeTree(thoughts: Partial<ThoughtData>[]): ReturnType<typeof buildThoughtTree> {
+  const thoughtHistory = thoughts.map((t, i) => ({
+    thought: `Thought ${String(i + 1)}`,
+    thoughtNumber: i + 1,
+    totalThoughts: thoughts.length,
+    nextThoughtNeeded: true,
+    ...t,
+  }));
+  const branches: ThinkingSession['branches'] = {};
+  for (const t of thoughtHistory) {
+    if (t.branchFromThought && t.branchId) (branches[t.branchId] ??= []).push(t);
+  }
+  return buildThoughtTree({
+    sessionId: 'st-diagram',
+    thoughtHistory,
+    branches,
+    createdAt: '2026-02-06T10:00:00.000Z',
+    updatedAt: '2026-02-06T10:05:00.000Z',
+  });
+}
+
+const chainWithEverything = (): ReturnType<typeof buildThoughtTree> =>
+  makeTree([
+    { thought: 'Define the problem' },
+    { thought: 'Pick a cache' },
+    { thought: 'Reconsider the problem', isRevision: true, revisesThought: 1 },
+    { thought: 'Try Redis', thoughtNumber: 3, branchFromThought: 2, branchId: 'redis' },
+    { thought: 'Redis cluster', thoughtNumber: 4, branchFromThought: 2, branchId: 'redis' },
+  ]);
+
+// ─── layoutThoughtGraph ──────────────────────────────────────────────────────
+
+describe('layoutThoughtGraph', () => {
+  it('should connect main-line thoughts into a spine', () => {
+    const graph = layoutThoughtGraph(makeTree([{}, {}, {}]));
+
+    expect(graph.nodes.map((n) => n.id)).toEqual(['t0', 't1', 't2']);
+    expect(graph.edges).toEqual([
+      { from: 't0', to: 't1', kind: 'next' },
+      { from: 't1', to: 't2', kind: 'next' },
+    ]);
+    expect(graph.clusters).toEqual([]);
+  });
+
+  it('should add a revision back-edge to the revised thought', () => {
+    const graph = layoutThoughtGraph(chainWithEverything());
+
+    expect(graph.edges).toContainEqual({
+      from: 't2',
+      to: 't0',
+      kind: 'revision',
+      label: 'revises',
+    });
+    expect(graph.nodes[2].isRevision).toBe(true);
+  });
+
+  it('should fork branches from their branchFromThought into a cluster', () => {
+    const graph = layoutThoughtGraph(chainWithEverything());
+
+    expect(graph.clusters).toEqual([{ branchId: 'redis', nodeIds: ['t3', 't4'] }]);
+    expect(graph.edges).toContainEqual({ from: 't1', to: 't3', kind: 'branch', label: 'redis' });
+    expect(graph.edges).toContainEqual({ from: 't3', to: 't4', kind: 'next' });
+  });
+
+  it('should link revisions inside a branch to the branch thought', () => {
+    const graph = layoutThoughtGraph(
+      makeTree([
+        {},
+        { thoughtNumber: 2, branchFromThought: 1, branchId: 'alt' },
+        { thoughtNumber: 3, branchId: 'alt', isRevision: true, revisesThought: 2 },
+      ])
+    );
+
+    expect(graph.edges).toContainEqual({
+      from: 't2',
+      to: 't1',
+      kind: 'revision',
+      label: 'revises',
+    });
+  });
+
+  it('should nest a branch of a branch under the branch thought', () => {
+    const graph = layoutThoughtGraph(
+      makeTree([
+        {},
+        { thoughtNumber: 2, branchFromThought: 1, branchId: 'alt' },
+        { thoughtNumber: 3, branchFromThought: 2, branchId: 'deeper' },
+      ])
+    );
+
+    expect(graph.edges).toContainEqual({ from: 't1', to: 't2', kind: 'branch', label: 'deeper' });
+  });
+
+  it('should keep unanchored branches as their own cluster', () => {
+    const graph = layoutThoughtGraph(
+      makeTree([{}, { thoughtNumber: 2, branchFromThought: 9, branchId: 'lost' }])
+    );
+
+    expect(graph.clusters).toEqual([{ branchId: 'lost', nodeIds: ['t1'] }]);
+    expect(graph.edges.filter((e) => e.kind === 'branch')).toEqual([]);
+  });
+
+  it('should skip revision edges whose target was never recorded', () => {
+    const graph = layoutThoughtGraph(makeTree([{ isRevision: true, revisesThought: 5 }]));
+    expect(graph.edges).toEqual([]);
+  });
+
+  it('should collapse whitespace and truncate long labels', () => {
+    const graph = layoutThoughtGraph(
+      makeTree([{ thought: `Line one\nline two ${'x'.repeat(100)}` }])
+    );
+
+    expect(graph.nodes[0].label).not.toContain('\n');
+    expect(graph.nodes[0].label.startsWith('1. Line one line two')).toBe(true);
+    expect(graph.nodes[0].label.endsWith('…')).toBe(true);
+  });
+});
+
+// ─── renderMermaid ───────────────────────────────────────────────────────────
+
+describe('renderMermaid', () => {
+  it('should render a flowchart with spine, revision and branch edges', () => {
+    const mermaid = renderMermaid(chainWithEverything());
+
+    expect(mermaid.startsWith('flowchart TD')).toBe(true);
+    expect(mermaid).toContain('t0["1. Define the problem"]');
+    expect(mermaid).toContain('t0 --> t1');
+    expect(mermaid).toContain('t2 -.->|revises| t0');
+    expect(mermaid).toContain('t1 -->|"redis"| t3');
+    expect(mermaid).toContain('subgraph b0 ["Branch: redis"]');
+    expect(mermaid).toContain('class t2 revision');
+  });
+
+  it('should escape double quotes in labels', () => {
+    const mermaid = renderMermaid(makeTree([{ thought: 'Say "hello"' }]));
+    expect(mermaid).toContain('t0["1. Say #quot;hello#quot;"]');
+  });
+
+  it('should omit the revision class when there are no revisions', () => {
+    expect(renderMermaid(makeTree([{}, {}]))).not.toContain('classDef');
+  });
+});
+
+// ─── renderDot ───────────────────────────────────────────────────────────────
+
+describe('renderDot', () => {
+  it('should render a digraph with clusters and dashed revision edges', () => {
+    const dot = renderDot(chainWithEverything());
+
+    expect(dot.startsWith('digraph "st-diagram" {')).toBe(true);
+    expect(dot).toContain('t0 [label="1. Define the problem"];');
+    expect(dot).toContain('t2 [label="3. Reconsider the problem", style=dashed];');
+    expect(dot).toContain('t0 -> t1;');
+    expect(dot).toContain('t2 -> t0 [style=dashed, label="revises", constraint=false];');
+    expect(dot).toContain('t1 -> t3 [label="redis"];');
+    expect(dot).toContain('subgraph cluster_b0 {');
+    expect(dot.trim().endsWith('}')).toBe(true);
+  });
+
+  it('should escape quotes and backslashes in labels', () => {
+    const dot = renderDot(makeTree([{ thought: String.raw`Path "C:\tmp"` }]));
+    expect(dot).toContain(String.raw`label="1. Path \"C:\\tmp\""`);
+  });
+});
+
+// ─── renderDiagram ───────────────────────────────────────────────────────────
+
+describe('renderDiagram', () => {
+  it('should dispatch on format', () => {
+    const tree = makeTree([{}]);
+    expect(renderDiagram(tree, 'mermaid')).toBe(renderMermaid(tree));
+    expect(renderDiagram(tree, 'dot')).toBe(renderDot(tree));
+  });
+});
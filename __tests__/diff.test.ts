@@ -0,0 +1,249 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  type DiffSide,
+  diffSessions,
+  renderDiffMarkdown,
+  summarizeChanges,
+  summarizeMetadataChanges,
+} from '../diff.js';
+import type { Evaluation, PlanningSession } from '../planning.js';
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+function makeSession(overrides: Partial<PlanningSession> = {}): PlanningSession {
+  return {
+    sessionId: 'dp-diff0001',
+    problem: 'Cache layer',
+    constraints: ['Low latency'],
+    phase: 'explore',
+    clarifications: [],
+    approaches: [
+      { branchId: 'redis', name: 'Redis', description: 'In-memory store', pros: [], cons: [] },
+    ],
+    evaluations: [],
+    steps: [],
+    risks: [],
+    assumptions: [],
+    successCriteria: [],
+    createdAt: '2026-02-06T10:00:00.000Z',
+    updatedAt: '2026-02-06T10:05:00.000Z',
+    ...overrides,
+  };
+}
+
+function makeEvaluation(overrides: Partial<Evaluation> = {}): Evaluation {
+  return {
+    branchId: 'redis',
+    scores: { feasibility: 8, completeness: 7, coherence: 9, risk: 3 },
+    weightedScore: 7.6,
+    rationale: 'Solid',
+    recommendation: 'pursue',
+    ...overrides,
+  };
+}
+
+const from: DiffSide = { sessionId: 'dp-diff0001', eventIndex: 1, phase: 'explore' };
+const to: DiffSide = { sessionId: 'dp-diff0001', eventIndex: 4, phase: 'done' };
+
+// ─── diffSessions ────────────────────────────────────────────────────────────
+
+describe('diffSessions', () => {
+  it('should report identical snapshots', () => {
+    const diff = diffSessions(makeSession(), makeSession(), from, to);
+
+    expect(diff.identical).toBe(true);
+    expect(diff.problem).toBeUndefined();
+    expect(diff.selectedApproach).toBeUndefined();
+    expect(diff.approaches).toEqual({ added: [], removed: [], changed: [] });
+  });
+
+  it('should report added and removed constraints and success criteria', () => {
+    const diff = diffSessions(
+      makeSession({ successCriteria: ['p99 < 5ms'] }),
+      makeSession({
+        constraints: ['Low latency', 'No new infra'],
+        successCriteria: ['Hit rate > 90%'],
+      }),
+      from,
+      to
+    );
+
+    expect(diff.identical).toBe(false);
+    expect(diff.constraints).toEqual({ added: ['No new infra'], removed: [] });
+    expect(diff.successCriteria).toEqual({ added: ['Hit rate > 90%'], removed: ['p99 < 5ms'] });
+  });
+
+  it('should match approaches by branch and report changes', () => {
+    const before = makeSession();
+    const after = makeSession({
+      approaches: [
+        { branchId: 'redis', name: 'Redis Cluster', description: 'Sharded', pros: [], cons: [] },
+        { branchId: 'memcached', name: 'Memcached', description: 'Simple', pros: [], cons: [] },
+      ],
+    });
+
+    const diff = diffSessions(before, after, from, to);
+
+    expect(diff.approaches.added.map((a) => a.branchId)).toEqual(['memcached']);
+    expect(diff.approaches.removed).toEqual([]);
+    expect(diff.approaches.changed).toEqual([
+      { before: before.approaches[0], after: after.approaches[0] },
+    ]);
+  });
+
+  it('should key evaluations by branch and evaluator', () => {
+    const diff = diffSessions(
+      makeSession({
+        evaluations: [
+          makeEvaluation({ evaluatorId: 'alice' }),
+          makeEvaluation({ evaluatorId: 'bob' }),
+        ],
+      }),
+      makeSession({
+        evaluations: [
+          makeEvaluation({ evaluatorId: 'alice', weightedScore: 5.2, recommendation: 'abandon' }),
+          makeEvaluation(),
+        ],
+      }),
+      from,
+      to
+    );
+
+    expect(diff.evaluations.added).toEqual([makeEvaluation()]);
+    expect(diff.evaluations.removed.map((e) => e.evaluatorId)).toEqual(['bob']);
+    expect(diff.evaluations.changed[0].after.weightedScore).toBe(5.2);
+  });
+
+  it('should report steps, risks, problem and selected approach', () => {
+    const diff = diffSessions(
+      makeSession({
+        steps: [{ title: 'Provision', description: 'Set up Redis' }],
+        risks: [{ description: 'Cache stampede', mitigation: 'TTL' }],
+      }),
+      makeSession({
+        problem: 'Distributed cache layer',
+        selectedApproach: 'redis',
+        steps: [{ title: 'Provision', description: 'Set up Redis Cluster' }],
+        risks: [],
+      }),
+      from,
+      to
+    );
+
+    expect(diff.problem).toEqual({ before: 'Cache layer', after: 'Distributed cache layer' });
+    expect(diff.selectedApproach).toEqual({ before: null, after: 'redis' });
+    expect(diff.steps.changed).toHaveLength(1);
+    expect(diff.risks.removed.map((r) => r.description)).toEqual(['Cache stampede']);
+  });
+});
+
+// ─── renderDiffMarkdown ──────────────────────────────────────────────────────
+
+describe('renderDiffMarkdown', () => {
+  it('should label both sides and say when nothing changed', () => {
+    const markdown = renderDiffMarkdown(diffSessions(makeSession(), makeSession(), from, to));
+
+    expect(markdown).toContain('**From:** dp-diff0001 @ event 1 (explore)');
+    expect(markdown).toContain('**To:** dp-diff0001 @ event 4 (done)');
+    expect(markdown.endsWith('No differences.')).toBe(true);
+  });
+
+  it('should list changes per section and skip unchanged sections', () => {
+    const markdown = renderDiffMarkdown(
+      diffSessions(
+        makeSession({
+          evaluations: [makeEvaluation()],
+          risks: [{ description: 'Stampede', mitigation: 'TTL' }],
+        }),
+        makeSession({
+          problem: 'Distributed cache',
+          selectedApproach: 'redis',
+          approaches: [],
+          evaluations: [makeEvaluation({ weightedScore: 6, recommendation: 'refine' })],
+          steps: [{ title: 'Provision', description: 'Set up Redis' }],
+          risks: [{ description: 'Stampede', mitigation: 'Jitter' }],
+          successCriteria: ['p99 < 5ms'],
+        }),
+        from,
+        to
+      )
+    );
+
+    expect(markdown).toContain('## Problem\n- Before: Cache layer\n- After: Distributed cache');
+    expect(markdown).toContain('## Selected Approach\n- (none) → redis');
+    expect(markdown).toContain('## Approaches\n- Removed: Redis (redis)');
+    expect(markdown).toContain('- Changed: redis: 6.00/10 (refine), was 7.60/10 (pursue)');
+    expect(markdown).toContain('## Steps\n- Added: Provision');
+    expect(markdown).toContain('- Changed: Stampede (mitigation: Jitter)');
+    expect(markdown).toContain('## Success Criteria\n- Added: p99 < 5ms');
+    expect(markdown).not.toContain('## Constraints');
+  });
+
+  it('should name the evaluator of an added evaluation', () => {
+    const markdown = renderDiffMarkdown(
+      diffSessions(
+        makeSession(),
+        makeSession({ evaluations: [makeEvaluation({ evaluatorId: 'alice' })] }),
+        from,
+        to
+      )
+    );
+
+    expect(markdown).toContain('- Added: redis by alice: 7.60/10 (pursue)');
+  });
+});
+
+// ─── summarizeChanges ────────────────────────────────────────────────────────
+
+describe('summarizeChanges', () => {
+  it('should return no lines for identical snapshots', () => {
+    expect(summarizeChanges(diffSessions(makeSession(), makeSession(), from, to))).toEqual([]);
+  });
+
+  it('should describe each change on one line', () => {
+    const changes = summarizeChanges(
+      diffSessions(
+        makeSession({ clarifications: [{ question: 'Scale?' }] }),
+        makeSession({
+          problem: 'Distributed cache',
+          selectedApproach: 'redis',
+          constraints: [],
+          clarifications: [{ question: 'Scale?', answer: '10k rps' }],
+          evaluations: [makeEvaluation()],
+          successCriteria: ['p99 < 5ms'],
+        }),
+        from,
+        to
+      )
+    );
+
+    expect(changes).toEqual([
+      'Changed problem: Distributed cache',
+      'Selected approach: redis',
+      'Removed constraint: Low latency',
+      'Changed clarification: Scale? → 10k rps',
+      'Added evaluation: redis: 7.60/10 (pursue)',
+      'Added success criterion: p99 < 5ms',
+    ]);
+  });
+});
+
+// ─── summarizeMetadataChanges ────────────────────────────────────────────────
+
+describe('summarizeMetadataChanges', () => {
+  it('should describe owner, project and tag changes', () => {
+    const changes = summarizeMetadataChanges(
+      makeSession({ owner: 'alice', tags: ['backend', 'cache'] }),
+      makeSession({ project: 'api', tags: ['backend', 'perf'] })
+    );
+
+    expect(changes).toEqual([
+      'Cleared owner',
+      'Set project: api',
+      'Added tag: perf',
+      'Removed tag: cache',
+    ]);
+    expect(summarizeMetadataChanges(makeSession(), makeSession())).toEqual([]);
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  applyDelta,
+  diffState,
+  encodeLog,
+  parseLog,
+  parseLogLine,
+  type PlanLogRecord,
+  replayRecords,
+  replayTail,
+  SNAPSHOT_EVERY,
+} from '../event-log.js';
+import type { PlanEvent } from '../persistence.js';
+import type { PlanningSession } from '../planning.js';
+import { SCHEMA_VERSION } from '../schema.js';
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+function makeSession(overrides: Partial<PlanningSession> = {}): PlanningSession {
+  return {
+    sessionId: 'dp-log00001',
+    problem: 'Cache layer',
+    constraints: [],
+    phase: 'explore',
+    clarifications: [],
+    approaches: [],
+    evaluations: [],
+    steps: [],
+    risks: [],
+    assumptions: [],
+    successCriteria: [],
+    createdAt: '2026-02-06T10:00:00.000Z',
+    updatedAt: '2026-02-06T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function approach(branchId: string) {
+  return { branchId, name: branchId, description: `Approach ${branchId}`, pros: [], cons: [] };
+}
+
+function event(session: PlanningSession, phase = session.phase): PlanEvent {
+  return { timestamp: session.updatedAt, phase, session };
+}
+
+// ─── Deltas ──────────────────────────────────────────────────────────────────
+
+describe('diffState', () => {
+  it('should push items added to the end of a list', () => {
+    const before = makeSession({ approaches: [approach('a')] });
+    const after = makeSession({ approaches: [approach('a'), approach('b')] });
+
+    expect(diffState(before, after)).toEqual({ push: { approaches: [approach('b')] } });
+  });
+
+  it('should set changed fields and unset removed ones', () => {
+    const before = makeSession({ approaches: [approach('a'), approach('b')], context: 'old' });
+    const after = makeSession({
+      phase: 'evaluate',
+      approaches: [approach('b')],
+      selectedApproach: 'b',
+    });
+
+    expect(diffState(before, after)).toEqual({
+      set: { phase: 'evaluate', approaches: [approach('b')], selectedApproach: 'b' },
+      unset: ['context'],
+    });
+  });
+
+  it('should be empty when nothing changed', () => {
+    expect(diffState(makeSession(), makeSession())).toEqual({});
+  });
+});
+
+describe('applyDelta', () => {
+  it('should turn the earlier state into the later one without touching it', () => {
+    const before = makeSession({ approaches: [approach('a')], context: 'old' });
+    const after = makeSession({ approaches: [approach('a'), approach('b')], phase: 'evaluate' });
+
+    const applied = applyDelta(before, diffState(before, after));
+
+    expect(applied).toEqual(after);
+    expect(before.approaches).toHaveLength(1);
+    expect(before.context).toBe('old');
+  });
+
+  it('should reject a push onto a field that is not a list', () => {
+    expect(() => applyDelta(makeSession(), { push: { problem: ['x'] } })).toThrow(
+      'Cannot append to "problem": it is not a list'
+    );
+  });
+});
+
+// ─── Reading ─────────────────────────────────────────────────────────────────
+
+describe('parseLogLine', () => {
+  it('should accept snapshot and delta lines', () => {
+    expect(parseLogLine(JSON.stringify(event(makeSession())))?.session).toBeDefined();
+    expect(parseLogLine('{"timestamp":"t","phase":"p","delta":{}}')?.delta).toEqual({});
+  });
+
+  it('should reject invalid JSON and records without state', () => {
+    expect(parseLogLine('{"timestamp":')).toBeNull();
+    expect(parseLogLine('null')).toBeNull();
+    expect(parseLogLine('{"timestamp":"t","phase":"p"}')).toBeNull();
+  });
+});
+
+describe('replayRecords', () => {
+  it('should rebuild the full state after every event', () => {
+    const first = makeSession();
+    const second = makeSession({ approaches: [approach('a')] });
+    const records = parseLog(encodeLog([event(first), event(second)]));
+
+    expect(records[1]).not.toHaveProperty('session');
+    expect(replayRecords(records).map((e) => e.session)).toEqual([first, second]);
+  });
+
+  it('should keep the event phase and restored index', () => {
+    const records: PlanLogRecord[] = [
+      { timestamp: 't1', phase: 'explore', session: makeSession() },
+      { timestamp: 't2', phase: 'undo', delta: {}, restoredFrom: 0 },
+    ];
+
+    expect(replayRecords(records)[1]).toEqual({
+      timestamp: 't2',
+      phase: 'undo',
+      restoredFrom: 0,
+      session: makeSession(),
+    });
+  });
+
+  it('should upgrade lines written before schema versions and validate every state', () => {
+    const records: PlanLogRecord[] = [
+      { timestamp: 't1', phase: 'explore', session: makeSession() },
+      {
+        timestamp: 't2',
+        phase: 'explore',
+        schemaVersion: 2,
+        delta: { push: { approaches: [approach('a')] } },
+      },
+      { timestamp: 't3', phase: 'explore', schemaVersion: 2, delta: { set: { problem: 7 } } },
+    ];
+
+    expect(replayRecords(records.slice(0, 2))[1]).toEqual({
+      timestamp: 't2',
+      phase: 'explore',
+      session: makeSession({ approaches: [approach('a')] }),
+    });
+    expect(() => replayRecords(records)).toThrow(
+      'Event 2: session.problem must be a string, got number'
+    );
+  });
+
+  it('should reject a log that does not start with a snapshot', () => {
+    expect(() => replayRecords([{ timestamp: 't', phase: 'explore', delta: {} }])).toThrow(
+      'Event 0 has no earlier snapshot'
+    );
+  });
+});
+
+describe('replayTail', () => {
+  it('should replay from the last snapshot and ignore lines before it', () => {
+    const latest = makeSession({ approaches: [approach('a')] });
+    const content = [
+      '{"broken":',
+      JSON.stringify(event(makeSession())),
+      JSON.stringify({ timestamp: 't', phase: 'explore', delta: diffState(makeSession(), latest) }),
+    ].join('\n');
+
+    expect(replayTail(content)).toEqual({ session: latest, sinceSnapshot: 2 });
+  });
+
+  it('should read snapshot-only logs from older versions', () => {
+    const content = [makeSession(), makeSession({ phase: 'evaluate' })]
+      .map((s) => JSON.stringify(event(s)))
+      .join('\n');
+
+    expect(replayTail(content)).toEqual({
+      session: makeSession({ phase: 'evaluate' }),
+      sinceSnapshot: 1,
+    });
+  });
+
+  it('should fail without a snapshot', () => {
+    expect(() => replayTail('{"timestamp":"t","phase":"p","delta":{}}\n')).toThrow(
+      'The log has no snapshot'
+    );
+  });
+});
+
+// ─── Writing ─────────────────────────────────────────────────────────────────
+
+describe('encodeLog', () => {
+  it('should stamp every line with the schema version', () => {
+    const records = parseLog(encodeLog([event(makeSession()), event(makeSession())]));
+    expect(records.map((r) => r.schemaVersion)).toEqual([SCHEMA_VERSION, SCHEMA_VERSION]);
+  });
+
+  it('should write a snapshot first and then every SNAPSHOT_EVERY lines', () => {
+    const events: PlanEvent[] = [];
+    const approaches = [];
+    for (let i = 0; i < SNAPSHOT_EVERY * 2 + 1; i++) {
+      approaches.push(approach(`b${String(i)}`));
+      events.push(event(makeSession({ approaches: [...approaches] })));
+    }
+
+    const records = parseLog(encodeLog(events));
+    const snapshots = records.flatMap((r, i) => (r.session ? [i] : []));
+
+    expect(snapshots).toEqual([0, SNAPSHOT_EVERY, SNAPSHOT_EVERY * 2]);
+    expect(replayRecords(records)).toEqual(events);
+  });
+});
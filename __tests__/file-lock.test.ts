@@ -0,0 +1,140 @@
+import { mkdtemp, readdir, readFile, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { withFileLock } from '../file-lock.js';
+
+/** Pauses before the next lock stat results are returned, to hold a waiter on what it saw. */
+const statDelays: number[] = [];
+
+vi.mock('node:fs/promises', async (importOriginal) => {
+  const fs = await importOriginal<typeof import('node:fs/promises')>();
+  return {
+    ...fs,
+    stat: async (...args: Parameters<typeof fs.stat>) => {
+      const result = await fs.stat(...args);
+      await sleep(statDelays.shift() ?? 0);
+      return result;
+    },
+  };
+});
+
+describe('withFileLock', () => {
+  let dir: string;
+  let lockPath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'ygg-lock-'));
+    lockPath = path.join(dir, 'index.json.lock');
+  });
+
+  afterEach(async () => {
+    statDelays.length = 0;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should return the task result and remove the lock', async () => {
+    expect(await withFileLock(lockPath, async () => 42)).toBe(42);
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it('should run holders of the same lock one at a time', async () => {
+    const trace: string[] = [];
+    const hold = (name: string) =>
+      withFileLock(lockPath, async () => {
+        trace.push(`${name} start`);
+        await sleep(20);
+        trace.push(`${name} end`);
+      });
+
+    await Promise.all([hold('a'), hold('b')]);
+
+    expect(trace).toEqual(['a start', 'a end', 'b start', 'b end']);
+  });
+
+  it('should release the lock when the task throws', async () => {
+    await expect(withFileLock(lockPath, () => Promise.reject(new Error('boom')))).rejects.toThrow(
+      'boom'
+    );
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it('should break a stale lock left by a crashed process', async () => {
+    await writeFile(lockPath, '99999\n');
+    const old = new Date(Date.now() - 60_000);
+    await utimes(lockPath, old, old);
+
+    expect(await withFileLock(lockPath, async () => 'ok', { staleMs: 1000 })).toBe('ok');
+  });
+
+  it('should keep the lock fresh while a long task runs', async () => {
+    const trace: string[] = [];
+    const hold = (name: string, ms: number) =>
+      withFileLock(
+        lockPath,
+        async () => {
+          trace.push(`${name} start`);
+          await sleep(ms);
+          trace.push(`${name} end`);
+        },
+        { staleMs: 40 }
+      );
+
+    await Promise.all([hold('a', 150), sleep(10).then(() => hold('b', 0))]);
+
+    expect(trace).toEqual(['a start', 'a end', 'b start', 'b end']);
+  });
+
+  it('should let only one of two waiters break the same stale lock', async () => {
+    await writeFile(lockPath, '99999\n');
+    const old = new Date(Date.now() - 60_000);
+    await utimes(lockPath, old, old);
+    let active = 0;
+    let maxActive = 0;
+    const hold = () =>
+      withFileLock(
+        lockPath,
+        async () => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await sleep(100);
+          active--;
+        },
+        { staleMs: 1000 }
+      );
+
+    // Both see the stale lock; the second acts on it only after the first has taken a new one
+    statDelays.push(0, 50);
+    await Promise.all([hold(), hold()]);
+
+    expect(maxActive).toBe(1);
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it('should not remove a lock another process took over', async () => {
+    await withFileLock(lockPath, async () => {
+      // Another process broke this lock and now holds its own
+      await writeFile(lockPath, '99999 other\n');
+    });
+
+    expect(await readFile(lockPath, 'utf8')).toBe('99999 other\n');
+    expect(await readdir(dir)).toEqual(['index.json.lock']);
+  });
+
+  it('should time out while another process holds a fresh lock', async () => {
+    await writeFile(lockPath, '99999\n');
+
+    await expect(
+      withFileLock(lockPath, async () => 'never', { timeoutMs: 30, staleMs: 60_000 })
+    ).rejects.toThrow(/Timed out after 30 ms waiting for lock/);
+  });
+
+  it('should fail when the lock file cannot be created', async () => {
+    await expect(
+      withFileLock(path.join(dir, 'missing', 'x.lock'), async () => 'never')
+    ).rejects.toThrow(/ENOENT/);
+  });
+});
@@ -1,6 +1,10 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 
-import { SequentialThinkingServer } from '../lib.js';
+import { buildThoughtTree, SequentialThinkingServer, type ThinkingSession } from '../lib.js';
 
 // Mock chalk to avoid ESM issues
 vi.mock('chalk', () => {
@@ -14,20 +18,128 @@ vi.mock('chalk', () => {
   };
 });
 
+function makeChain(
+  thoughts: Partial<ThinkingSession['thoughtHistory'][number]>[]
+): ThinkingSession {
+  const thoughtHistory = thoughts.map((t, i) => ({
+    thought: `Thought ${String(i + 1)}`,
+    thoughtNumber: i + 1,
+    totalThoughts: thoughts.length,
+    nextThoughtNeeded: true,
+    ...t,
+  }));
+  const branches: ThinkingSession['branches'] = {};
+  for (const t of thoughtHistory) {
+    if (t.branchFromThought && t.branchId) (branches[t.branchId] ??= []).push(t);
+  }
+  return {
+    sessionId: 'st-tree',
+    thoughtHistory,
+    branches,
+    createdAt: '2026-02-06T10:00:00.000Z',
+    updatedAt: '2026-02-06T10:05:00.000Z',
+  };
+}
+
+describe('buildThoughtTree', () => {
+  it('should list main-line thoughts in order', () => {
+    const tree = buildThoughtTree(makeChain([{}, {}, {}]));
+    expect(tree.sessionId).toBe('st-tree');
+    expect(tree.thoughtCount).toBe(3);
+    expect(tree.thoughts.map((t) => t.thoughtNumber)).toEqual([1, 2, 3]);
+    expect(tree.unanchoredBranches).toEqual([]);
+  });
+
+  it('should link revisions to the thoughts they revise', () => {
+    const tree = buildThoughtTree(
+      makeChain([
+        {},
+        {},
+        { isRevision: true, revisesThought: 1 },
+        { isRevision: true, revisesThought: 1 },
+      ])
+    );
+    expect(tree.thoughts[0].revisedBy).toEqual([3, 4]);
+    expect(tree.thoughts[1].revisedBy).toEqual([]);
+    expect(tree.thoughts[2].revisesThought).toBe(1);
+  });
+
+  it('should nest branches under their branchFromThought', () => {
+    const tree = buildThoughtTree(
+      makeChain([
+        {},
+        {},
+        { thoughtNumber: 3, branchFromThought: 2, branchId: 'alt' },
+        { thoughtNumber: 4, branchFromThought: 2, branchId: 'alt' },
+        { thoughtNumber: 3, branchFromThought: 1, branchId: 'other' },
+      ])
+    );
+    expect(tree.thoughts).toHaveLength(2);
+    expect(tree.thoughts[0].branches.map((b) => b.branchId)).toEqual(['other']);
+    const alt = tree.thoughts[1].branches[0];
+    expect(alt.branchId).toBe('alt');
+    expect(alt.branchFromThought).toBe(2);
+    expect(alt.thoughts.map((t) => t.thoughtNumber)).toEqual([3, 4]);
+  });
+
+  it('should nest a branch of a branch under the branch thought', () => {
+    const tree = buildThoughtTree(
+      makeChain([
+        {},
+        { thoughtNumber: 2, branchFromThought: 1, branchId: 'alt' },
+        { thoughtNumber: 3, branchFromThought: 1, branchId: 'alt' },
+        { thoughtNumber: 4, branchFromThought: 3, branchId: 'deeper' },
+      ])
+    );
+    const alt = tree.thoughts[0].branches[0];
+    expect(alt.thoughts[1].branches.map((b) => b.branchId)).toEqual(['deeper']);
+  });
+
+  it('should link revisions inside a branch to the branch thought', () => {
+    const tree = buildThoughtTree(
+      makeChain([
+        {},
+        { thoughtNumber: 2, branchFromThought: 1, branchId: 'alt' },
+        {},
+        { thoughtNumber: 3, branchId: 'alt', isRevision: true, revisesThought: 2 },
+      ])
+    );
+    const alt = tree.thoughts[0].branches[0];
+    expect(alt.thoughts[0].revisedBy).toEqual([3]);
+    expect(tree.thoughts[1].revisedBy).toEqual([]);
+  });
+
+  it('should report branches whose origin was never recorded', () => {
+    const tree = buildThoughtTree(
+      makeChain([{}, { thoughtNumber: 2, branchFromThought: 9, branchId: 'lost' }])
+    );
+    expect(tree.unanchoredBranches.map((b) => b.branchId)).toEqual(['lost']);
+  });
+});
+
 describe('SequentialThinkingServer', () => {
   let server: SequentialThinkingServer;
+  let tempDir: string;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     // Disable thought logging for tests
     process.env.DISABLE_THOUGHT_LOGGING = 'true';
+    tempDir = await mkdtemp(path.join(tmpdir(), 'ygg-thinking-'));
+    vi.stubEnv('YGGDRASIL_PLANS_DIR', tempDir);
     server = new SequentialThinkingServer();
   });
 
+  afterEach(async () => {
+    await server.getPersistence().flush();
+    vi.unstubAllEnvs();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
   // Note: Input validation tests removed - validation now happens at the tool
   // registration layer via Zod schemas before processThought is called
 
   describe('processThought - valid inputs', () => {
-    it('should accept valid basic thought', () => {
+    it('should accept valid basic thought', async () => {
       const input = {
         thought: 'This is my first thought',
         thoughtNumber: 1,
@@ -35,7 +147,7 @@ describe('SequentialThinkingServer', () => {
         nextThoughtNeeded: true,
       };
 
-      const result = server.processThought(input);
+      const result = await server.processThought(input);
       expect(result.isError).toBeUndefined();
 
       const data = JSON.parse(result.content[0].text);
@@ -45,7 +157,7 @@ describe('SequentialThinkingServer', () => {
       expect(data.thoughtHistoryLength).toBe(1);
     });
 
-    it('should accept thought with optional fields', () => {
+    it('should accept thought with optional fields', async () => {
       const input = {
         thought: 'Revising my earlier idea',
         thoughtNumber: 2,
@@ -56,15 +168,21 @@ describe('SequentialThinkingServer', () => {
         needsMoreThoughts: false,
       };
 
-      const result = server.processThought(input);
+      await server.processThought({
+        thought: 'Earlier idea',
+        thoughtNumber: 1,
+        totalThoughts: 3,
+        nextThoughtNeeded: true,
+      });
+      const result = await server.processThought(input);
       expect(result.isError).toBeUndefined();
 
       const data = JSON.parse(result.content[0].text);
       expect(data.thoughtNumber).toBe(2);
-      expect(data.thoughtHistoryLength).toBe(1);
+      expect(data.thoughtHistoryLength).toBe(2);
     });
 
-    it('should track multiple thoughts in history', () => {
+    it('should track multiple thoughts in history', async () => {
       const input1 = {
         thought: 'First thought',
         thoughtNumber: 1,
@@ -86,16 +204,16 @@ describe('SequentialThinkingServer', () => {
         nextThoughtNeeded: false,
       };
 
-      server.processThought(input1);
-      server.processThought(input2);
-      const result = server.processThought(input3);
+      await server.processThought(input1);
+      await server.processThought(input2);
+      const result = await server.processThought(input3);
 
       const data = JSON.parse(result.content[0].text);
       expect(data.thoughtHistoryLength).toBe(3);
       expect(data.nextThoughtNeeded).toBe(false);
     });
 
-    it('should auto-adjust totalThoughts if thoughtNumber exceeds it', () => {
+    it('should auto-adjust totalThoughts if thoughtNumber exceeds it', async () => {
       const input = {
         thought: 'Thought 5',
         thoughtNumber: 5,
@@ -103,7 +221,7 @@ describe('SequentialThinkingServer', () => {
         nextThoughtNeeded: true,
       };
 
-      const result = server.processThought(input);
+      const result = await server.processThought(input);
       const data = JSON.parse(result.content[0].text);
 
       expect(data.totalThoughts).toBe(5);
@@ -111,7 +229,7 @@ describe('SequentialThinkingServer', () => {
   });
 
   describe('processThought - branching', () => {
-    it('should track branches correctly', () => {
+    it('should track branches correctly', async () => {
       const input1 = {
         thought: 'Main thought',
         thoughtNumber: 1,
@@ -137,9 +255,9 @@ describe('SequentialThinkingServer', () => {
         branchId: 'branch-b',
       };
 
-      server.processThought(input1);
-      server.processThought(input2);
-      const result = server.processThought(input3);
+      await server.processThought(input1);
+      await server.processThought(input2);
+      const result = await server.processThought(input3);
 
       const data = JSON.parse(result.content[0].text);
       expect(data.branches).toContain('branch-a');
@@ -148,11 +266,11 @@ describe('SequentialThinkingServer', () => {
       expect(data.thoughtHistoryLength).toBe(3);
     });
 
-    it('should allow multiple thoughts in same branch', () => {
+    it('should allow multiple thoughts in same branch', async () => {
       const input1 = {
         thought: 'Branch thought 1',
-        thoughtNumber: 1,
-        totalThoughts: 2,
+        thoughtNumber: 2,
+        totalThoughts: 3,
         nextThoughtNeeded: true,
         branchFromThought: 1,
         branchId: 'branch-a',
@@ -160,15 +278,21 @@ describe('SequentialThinkingServer', () => {
 
       const input2 = {
         thought: 'Branch thought 2',
-        thoughtNumber: 2,
-        totalThoughts: 2,
+        thoughtNumber: 3,
+        totalThoughts: 3,
         nextThoughtNeeded: false,
         branchFromThought: 1,
         branchId: 'branch-a',
       };
 
-      server.processThought(input1);
-      const result = server.processThought(input2);
+      await server.processThought({
+        thought: 'Main thought',
+        thoughtNumber: 1,
+        totalThoughts: 3,
+        nextThoughtNeeded: true,
+      });
+      await server.processThought(input1);
+      const result = await server.processThought(input2);
 
       const data = JSON.parse(result.content[0].text);
       expect(data.branches).toContain('branch-a');
@@ -177,7 +301,7 @@ describe('SequentialThinkingServer', () => {
   });
 
   describe('processThought - edge cases', () => {
-    it('should handle very long thought strings', () => {
+    it('should handle very long thought strings', async () => {
       const input = {
         thought: 'a'.repeat(10_000),
         thoughtNumber: 1,
@@ -185,11 +309,11 @@ describe('SequentialThinkingServer', () => {
         nextThoughtNeeded: false,
       };
 
-      const result = server.processThought(input);
+      const result = await server.processThought(input);
       expect(result.isError).toBeUndefined();
     });
 
-    it('should handle thoughtNumber = 1, totalThoughts = 1', () => {
+    it('should handle thoughtNumber = 1, totalThoughts = 1', async () => {
       const input = {
         thought: 'Only thought',
         thoughtNumber: 1,
@@ -197,7 +321,7 @@ describe('SequentialThinkingServer', () => {
         nextThoughtNeeded: false,
       };
 
-      const result = server.processThought(input);
+      const result = await server.processThought(input);
       expect(result.isError).toBeUndefined();
 
       const data = JSON.parse(result.content[0].text);
@@ -205,7 +329,7 @@ describe('SequentialThinkingServer', () => {
       expect(data.totalThoughts).toBe(1);
     });
 
-    it('should handle nextThoughtNeeded = false', () => {
+    it('should handle nextThoughtNeeded = false', async () => {
       const input = {
         thought: 'Final thought',
         thoughtNumber: 3,
@@ -213,7 +337,7 @@ describe('SequentialThinkingServer', () => {
         nextThoughtNeeded: false,
       };
 
-      const result = server.processThought(input);
+      const result = await server.processThought(input);
       const data = JSON.parse(result.content[0].text);
 
       expect(data.nextThoughtNeeded).toBe(false);
@@ -221,7 +345,7 @@ describe('SequentialThinkingServer', () => {
   });
 
   describe('processThought - response format', () => {
-    it('should return correct response structure on success', () => {
+    it('should return correct response structure on success', async () => {
       const input = {
         thought: 'Test thought',
         thoughtNumber: 1,
@@ -229,7 +353,7 @@ describe('SequentialThinkingServer', () => {
         nextThoughtNeeded: false,
       };
 
-      const result = server.processThought(input);
+      const result = await server.processThought(input);
 
       expect(result).toHaveProperty('content');
       expect(Array.isArray(result.content)).toBe(true);
@@ -238,7 +362,7 @@ describe('SequentialThinkingServer', () => {
       expect(result.content[0]).toHaveProperty('text');
     });
 
-    it('should return valid JSON in response', () => {
+    it('should return valid JSON in response', async () => {
       const input = {
         thought: 'Test thought',
         thoughtNumber: 1,
@@ -246,27 +370,605 @@ describe('SequentialThinkingServer', () => {
         nextThoughtNeeded: false,
       };
 
-      const result = server.processThought(input);
+      const result = await server.processThought(input);
 
       expect(() => JSON.parse(result.content[0].text)).not.toThrow();
     });
   });
 
+  describe('processThought - persistence', () => {
+    it('should return a chain sessionId', async () => {
+      const result = await server.processThought({
+        thought: 'First thought',
+        thoughtNumber: 1,
+        totalThoughts: 2,
+        nextThoughtNeeded: true,
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.sessionId).toMatch(/^st-[A-Za-z0-9]{8}$/);
+    });
+
+    it('should write one JSONL event per thought', async () => {
+      const first = await server.processThought({
+        thought: 'First thought',
+        thoughtNumber: 1,
+        totalThoughts: 2,
+        nextThoughtNeeded: true,
+      });
+      await server.processThought({
+        thought: 'Second thought',
+        thoughtNumber: 2,
+        totalThoughts: 2,
+        nextThoughtNeeded: false,
+      });
+      await server.getPersistence().flush();
+
+      const { sessionId } = JSON.parse(first.content[0].text) as { sessionId: string };
+      const content = await readFile(path.join(tempDir, 'thinking', `${sessionId}.jsonl`), 'utf8');
+      const lines = content.trim().split('\n');
+      expect(lines).toHaveLength(2);
+
+      const event = JSON.parse(lines[1]) as { thought: { thought: string } };
+      expect(event.thought.thought).toBe('Second thought');
+    });
+
+    it('should keep the thinking index entry current', async () => {
+      const first = await server.processThought({
+        thought: 'Main thought',
+        thoughtNumber: 1,
+        totalThoughts: 2,
+        nextThoughtNeeded: true,
+      });
+      await server.processThought({
+        thought: 'Branch thought',
+        thoughtNumber: 2,
+        totalThoughts: 2,
+        nextThoughtNeeded: false,
+        branchFromThought: 1,
+        branchId: 'branch-a',
+      });
+      await server.getPersistence().flush();
+
+      const { sessionId } = JSON.parse(first.content[0].text) as { sessionId: string };
+      const index = await server.getPersistence().readThinkingIndex();
+      expect(index[sessionId]?.thoughtCount).toBe(2);
+      expect(index[sessionId]?.branches).toEqual(['branch-a']);
+      expect(index[sessionId]?.firstThought).toBe('Main thought');
+      expect(index[sessionId]?.filePath).toBe(`thinking/${sessionId}.jsonl`);
+    });
+
+    it('should start a new chain when a plain thought 1 arrives', async () => {
+      const chainA = await server.processThought({
+        thought: 'Chain A',
+        thoughtNumber: 1,
+        totalThoughts: 2,
+        nextThoughtNeeded: true,
+      });
+      const chainB = await server.processThought({
+        thought: 'Chain B',
+        thoughtNumber: 1,
+        totalThoughts: 2,
+        nextThoughtNeeded: true,
+      });
+
+      const dataA = JSON.parse(chainA.content[0].text);
+      const dataB = JSON.parse(chainB.content[0].text);
+      expect(dataB.sessionId).not.toBe(dataA.sessionId);
+      expect(dataB.thoughtHistoryLength).toBe(1);
+    });
+
+    it('should keep a revision of thought 1 in the current chain', async () => {
+      const first = await server.processThought({
+        thought: 'Original',
+        thoughtNumber: 1,
+        totalThoughts: 2,
+        nextThoughtNeeded: true,
+      });
+      const revision = await server.processThought({
+        thought: 'Revised',
+        thoughtNumber: 2,
+        totalThoughts: 2,
+        nextThoughtNeeded: true,
+        isRevision: true,
+        revisesThought: 1,
+      });
+
+      const firstData = JSON.parse(first.content[0].text);
+      const revisionData = JSON.parse(revision.content[0].text);
+      expect(revisionData.sessionId).toBe(firstData.sessionId);
+      expect(revisionData.thoughtHistoryLength).toBe(2);
+    });
+
+    it('should reject a thought 1 that revises itself without starting a new chain', async () => {
+      const first = await server.processThought({
+        thought: 'Original',
+        thoughtNumber: 1,
+        totalThoughts: 2,
+        nextThoughtNeeded: true,
+      });
+      const revision = await server.processThought({
+        thought: 'Revised',
+        thoughtNumber: 1,
+        totalThoughts: 2,
+        nextThoughtNeeded: true,
+        isRevision: true,
+        revisesThought: 1,
+      });
+
+      const next = await server.processThought({
+        thought: 'Next',
+        thoughtNumber: 2,
+        totalThoughts: 2,
+        nextThoughtNeeded: false,
+      });
+
+      expect(revision.isError).toBe(true);
+      const nextData = JSON.parse(next.content[0].text);
+      expect(nextData.sessionId).toBe(JSON.parse(first.content[0].text).sessionId);
+      expect(nextData.thoughtHistoryLength).toBe(2);
+    });
+  });
+
+  describe('processThought - sessions', () => {
+    async function startChain(
+      target: SequentialThinkingServer,
+      thought: string
+    ): Promise<{ sessionId: string }> {
+      const result = await target.processThought({
+        thought,
+        thoughtNumber: 1,
+        totalThoughts: 3,
+        nextThoughtNeeded: true,
+      });
+      return JSON.parse(result.content[0].text) as { sessionId: string };
+    }
+
+    it('should keep interleaved chains isolated by sessionId', async () => {
+      const chainA = await startChain(server, 'Task A');
+      const chainB = await startChain(server, 'Task B');
+
+      await server.processThought({
+        thought: 'Task A branch',
+        thoughtNumber: 2,
+        totalThoughts: 3,
+        nextThoughtNeeded: true,
+        branchFromThought: 1,
+        branchId: 'a-alt',
+        sessionId: chainA.sessionId,
+      });
+      const resultB = await server.processThought({
+        thought: 'Task B continued',
+        thoughtNumber: 2,
+        totalThoughts: 3,
+        nextThoughtNeeded: true,
+        sessionId: chainB.sessionId,
+      });
+      const resultA = await server.processThought({
+        thought: 'Task A continued',
+        thoughtNumber: 3,
+        totalThoughts: 3,
+        nextThoughtNeeded: false,
+        sessionId: chainA.sessionId,
+      });
+
+      const dataA = JSON.parse(resultA.content[0].text);
+      const dataB = JSON.parse(resultB.content[0].text);
+      expect(dataA.sessionId).toBe(chainA.sessionId);
+      expect(dataA.thoughtHistoryLength).toBe(3);
+      expect(dataA.branches).toEqual(['a-alt']);
+      expect(dataB.sessionId).toBe(chainB.sessionId);
+      expect(dataB.thoughtHistoryLength).toBe(2);
+      expect(dataB.branches).toEqual([]);
+    });
+
+    it('should continue the most recently used chain when sessionId is omitted', async () => {
+      const chainA = await startChain(server, 'Task A');
+      await startChain(server, 'Task B');
+      await server.processThought({
+        thought: 'Back to A',
+        thoughtNumber: 2,
+        totalThoughts: 3,
+        nextThoughtNeeded: true,
+        sessionId: chainA.sessionId,
+      });
+
+      const result = await server.processThought({
+        thought: 'Still A',
+        thoughtNumber: 3,
+        totalThoughts: 3,
+        nextThoughtNeeded: false,
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.sessionId).toBe(chainA.sessionId);
+      expect(data.thoughtHistoryLength).toBe(3);
+    });
+
+    it('should continue an explicit chain even at thoughtNumber 1', async () => {
+      const chain = await startChain(server, 'Task A');
+      const result = await server.processThought({
+        thought: 'Restart numbering',
+        thoughtNumber: 1,
+        totalThoughts: 3,
+        nextThoughtNeeded: true,
+        sessionId: chain.sessionId,
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.sessionId).toBe(chain.sessionId);
+      expect(data.thoughtHistoryLength).toBe(2);
+    });
+
+    it('should resume a chain from disk in a new server instance', async () => {
+      const chain = await startChain(server, 'Before restart');
+      await server.processThought({
+        thought: 'Branch before restart',
+        thoughtNumber: 2,
+        totalThoughts: 3,
+        nextThoughtNeeded: true,
+        branchFromThought: 1,
+        branchId: 'alt',
+      });
+      await server.getPersistence().flush();
+
+      const restarted = new SequentialThinkingServer();
+      const result = await restarted.processThought({
+        thought: 'After restart',
+        thoughtNumber: 3,
+        totalThoughts: 3,
+        nextThoughtNeeded: false,
+        sessionId: chain.sessionId,
+      });
+      await restarted.getPersistence().flush();
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.sessionId).toBe(chain.sessionId);
+      expect(data.thoughtHistoryLength).toBe(3);
+      expect(data.branches).toEqual(['alt']);
+    });
+
+    it('should not store sessionId on recorded thoughts', async () => {
+      const chain = await startChain(server, 'Task A');
+      await server.processThought({
+        thought: 'Second',
+        thoughtNumber: 2,
+        totalThoughts: 3,
+        nextThoughtNeeded: true,
+        sessionId: chain.sessionId,
+      });
+
+      const loaded = await server.getPersistence().loadThinkingSession(chain.sessionId);
+      expect(loaded?.thoughtHistory[1]).not.toHaveProperty('sessionId');
+    });
+
+    it('should return an error for an unknown sessionId', async () => {
+      const result = await server.processThought({
+        thought: 'Lost',
+        thoughtNumber: 2,
+        totalThoughts: 3,
+        nextThoughtNeeded: true,
+        sessionId: 'st-missing1',
+      });
+
+      expect(result.isError).toBe(true);
+      const data = JSON.parse(result.content[0].text);
+      expect(data.status).toBe('failed');
+      expect(data.error).toContain('st-missing1');
+      expect(data.error).toContain('not found');
+    });
+  });
+
+  describe('processThought - reference validation', () => {
+    beforeEach(async () => {
+      for (const thoughtNumber of [1, 2, 3]) {
+        await server.processThought({
+          thought: `Thought ${String(thoughtNumber)}`,
+          thoughtNumber,
+          totalThoughts: 5,
+          nextThoughtNeeded: true,
+        });
+      }
+    });
+
+    function errorOf(result: { content: { text: string }[] }): string {
+      return (JSON.parse(result.content[0].text) as { error: string }).error;
+    }
+
+    it('should reject isRevision without revisesThought', async () => {
+      const result = await server.processThought({
+        thought: 'Vague revision',
+        thoughtNumber: 4,
+        totalThoughts: 5,
+        nextThoughtNeeded: true,
+        isRevision: true,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(errorOf(result)).toContain('requires "revisesThought"');
+    });
+
+    it('should reject a revision of a thought that was never recorded', async () => {
+      const result = await server.processThought({
+        thought: 'Revise the void',
+        thoughtNumber: 100,
+        totalThoughts: 100,
+        nextThoughtNeeded: true,
+        isRevision: true,
+        revisesThought: 99,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(errorOf(result)).toContain('99');
+      expect(errorOf(result)).toContain('Available: 1, 2, 3');
+    });
+
+    it('should reject a revision that targets a future thought', async () => {
+      const result = await server.processThought({
+        thought: 'Revise ahead',
+        thoughtNumber: 2,
+        totalThoughts: 5,
+        nextThoughtNeeded: true,
+        isRevision: true,
+        revisesThought: 3,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(errorOf(result)).toContain('future thought 3');
+    });
+
+    it('should reject a revision of the thought itself', async () => {
+      const result = await server.processThought({
+        thought: 'Revise myself',
+        thoughtNumber: 3,
+        totalThoughts: 5,
+        nextThoughtNeeded: true,
+        isRevision: true,
+        revisesThought: 3,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(errorOf(result)).toBe('Thought 3 cannot revise itself. Available: 1, 2, 3');
+    });
+
+    it('should reject branchId without branchFromThought', async () => {
+      const result = await server.processThought({
+        thought: 'Rootless branch',
+        thoughtNumber: 4,
+        totalThoughts: 5,
+        nextThoughtNeeded: true,
+        branchId: 'alt',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(errorOf(result)).toBe('A branch (branchId: "alt") requires "branchFromThought".');
+    });
+
+    it('should reject a branch from a thought that was never recorded', async () => {
+      const result = await server.processThought({
+        thought: 'Dangling branch',
+        thoughtNumber: 4,
+        totalThoughts: 5,
+        nextThoughtNeeded: true,
+        branchFromThought: 7,
+        branchId: 'dangling',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(errorOf(result)).toContain('branch from');
+      expect(errorOf(result)).toContain('Available: 1, 2, 3');
+    });
+
+    it('should reject a branchId reused with a different origin', async () => {
+      await server.processThought({
+        thought: 'Alt from 1',
+        thoughtNumber: 4,
+        totalThoughts: 5,
+        nextThoughtNeeded: true,
+        branchFromThought: 1,
+        branchId: 'alt',
+      });
+      const result = await server.processThought({
+        thought: 'Alt from 2',
+        thoughtNumber: 5,
+        totalThoughts: 5,
+        nextThoughtNeeded: true,
+        branchFromThought: 2,
+        branchId: 'alt',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(errorOf(result)).toContain('"alt" already branches from thought 1');
+    });
+
+    it('should not record rejected thoughts', async () => {
+      await server.processThought({
+        thought: 'Rejected',
+        thoughtNumber: 4,
+        totalThoughts: 5,
+        nextThoughtNeeded: true,
+        isRevision: true,
+        revisesThought: 42,
+      });
+      const result = await server.processThought({
+        thought: 'Accepted',
+        thoughtNumber: 4,
+        totalThoughts: 5,
+        nextThoughtNeeded: true,
+      });
+
+      expect(JSON.parse(result.content[0].text).thoughtHistoryLength).toBe(4);
+    });
+
+    it('should list no valid thoughts for a reference in an empty chain', async () => {
+      const fresh = new SequentialThinkingServer();
+      const result = await fresh.processThought({
+        thought: 'Orphan revision',
+        thoughtNumber: 2,
+        totalThoughts: 2,
+        nextThoughtNeeded: true,
+        isRevision: true,
+        revisesThought: 1,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(errorOf(result)).toContain('Available: (none)');
+      expect((await fresh.getThoughts()).isError).toBe(true);
+    });
+  });
+
+  describe('processThought - planning link', () => {
+    it('should attach the thought to the planning session', async () => {
+      const attachThought = vi.fn().mockResolvedValue(null);
+      const linked = new SequentialThinkingServer(undefined, { attachThought });
+
+      const result = await linked.processThought({
+        thought: 'Weigh the options',
+        thoughtNumber: 1,
+        totalThoughts: 2,
+        nextThoughtNeeded: true,
+        planSessionId: 'dp-plan1234',
+      });
+      await linked.getPersistence().flush();
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.planSessionId).toBe('dp-plan1234');
+      expect(attachThought).toHaveBeenCalledWith(
+        'dp-plan1234',
+        data.sessionId,
+        expect.objectContaining({ thought: 'Weigh the options', thoughtNumber: 1 })
+      );
+      expect(attachThought.mock.calls[0][2]).not.toHaveProperty('planSessionId');
+    });
+
+    it('should reject the thought when the link fails', async () => {
+      const attachThought = vi.fn().mockResolvedValue('Planning session "dp-x" not found.');
+      const linked = new SequentialThinkingServer(undefined, { attachThought });
+
+      const result = await linked.processThought({
+        thought: 'Orphan',
+        thoughtNumber: 1,
+        totalThoughts: 2,
+        nextThoughtNeeded: true,
+        planSessionId: 'dp-x',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error).toContain('not found');
+      expect((await linked.getThoughts()).isError).toBe(true);
+    });
+
+    it('should reject planSessionId when no linker is configured', async () => {
+      const result = await server.processThought({
+        thought: 'Unlinked',
+        thoughtNumber: 1,
+        totalThoughts: 1,
+        nextThoughtNeeded: false,
+        planSessionId: 'dp-plan1234',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error).toContain('not available');
+    });
+  });
+
+  describe('getThoughts', () => {
+    it('should return the active chain as a tree', async () => {
+      await server.processThought({
+        thought: 'Main',
+        thoughtNumber: 1,
+        totalThoughts: 2,
+        nextThoughtNeeded: true,
+      });
+      await server.processThought({
+        thought: 'Alt',
+        thoughtNumber: 2,
+        totalThoughts: 2,
+        nextThoughtNeeded: false,
+        branchFromThought: 1,
+        branchId: 'alt',
+      });
+
+      const result = await server.getThoughts();
+      expect(result.isError).toBeUndefined();
+
+      const tree = JSON.parse(result.content[0].text);
+      expect(tree.thoughtCount).toBe(2);
+      expect(tree.thoughts[0].thought).toBe('Main');
+      expect(tree.thoughts[0].branches[0].thoughts[0].thought).toBe('Alt');
+    });
+
+    it('should read a chain from disk by sessionId', async () => {
+      const first = await server.processThought({
+        thought: 'Persisted',
+        thoughtNumber: 1,
+        totalThoughts: 1,
+        nextThoughtNeeded: false,
+      });
+      await server.getPersistence().flush();
+      const { sessionId } = JSON.parse(first.content[0].text) as { sessionId: string };
+
+      const restarted = new SequentialThinkingServer();
+      const result = await restarted.getThoughts(sessionId);
+
+      const tree = JSON.parse(result.content[0].text);
+      expect(tree.sessionId).toBe(sessionId);
+      expect(tree.thoughts[0].thought).toBe('Persisted');
+    });
+
+    it('should render the chain as a diagram when a format is given', async () => {
+      await server.processThought({
+        thought: 'Main',
+        thoughtNumber: 1,
+        totalThoughts: 1,
+        nextThoughtNeeded: false,
+      });
+
+      const mermaid = await server.getThoughts(undefined, 'mermaid');
+      expect(mermaid.content[0].text).toContain('flowchart TD');
+
+      const dot = await server.getThoughts(undefined, 'dot');
+      expect(dot.content[0].text).toContain('digraph');
+    });
+
+    it('should return an error when no chain is active', async () => {
+      const result = await server.getThoughts();
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error).toContain('No active thinking session');
+    });
+
+    it('should return an error for an unknown sessionId', async () => {
+      const result = await server.getThoughts('st-missing1');
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error).toContain('not found');
+    });
+  });
+
   describe('processThought - with logging enabled', () => {
     let serverWithLogging: SequentialThinkingServer;
 
-    beforeEach(() => {
+    beforeEach(async () => {
       // Enable thought logging for these tests
       delete process.env.DISABLE_THOUGHT_LOGGING;
       serverWithLogging = new SequentialThinkingServer();
+      // Seed thought 1 so revisions and branches have a valid target
+      vi.spyOn(console, 'error').mockImplementation(vi.fn());
+      await serverWithLogging.processThought({
+        thought: 'Seed thought',
+        thoughtNumber: 1,
+        totalThoughts: 3,
+        nextThoughtNeeded: true,
+      });
+      vi.restoreAllMocks();
     });
 
-    afterEach(() => {
+    afterEach(async () => {
+      await serverWithLogging.getPersistence().flush();
       // Reset to disabled for other tests
       process.env.DISABLE_THOUGHT_LOGGING = 'true';
     });
 
-    it('should format and log regular thoughts', () => {
+    it('should format and log regular thoughts', async () => {
       const input = {
         thought: 'Test thought with logging',
         thoughtNumber: 1,
@@ -274,11 +976,11 @@ describe('SequentialThinkingServer', () => {
         nextThoughtNeeded: true,
       };
 
-      const result = serverWithLogging.processThought(input);
+      const result = await serverWithLogging.processThought(input);
       expect(result.isError).toBeUndefined();
     });
 
-    it('should format and log revision thoughts', () => {
+    it('should format and log revision thoughts', async () => {
       const input = {
         thought: 'Revised thought',
         thoughtNumber: 2,
@@ -288,11 +990,11 @@ describe('SequentialThinkingServer', () => {
         revisesThought: 1,
       };
 
-      const result = serverWithLogging.processThought(input);
+      const result = await serverWithLogging.processThought(input);
       expect(result.isError).toBeUndefined();
     });
 
-    it('should format and log branch thoughts', () => {
+    it('should format and log branch thoughts', async () => {
       const input = {
         thought: 'Branch thought',
         thoughtNumber: 2,
@@ -302,7 +1004,7 @@ describe('SequentialThinkingServer', () => {
         branchId: 'branch-a',
       };
 
-      const result = serverWithLogging.processThought(input);
+      const result = await serverWithLogging.processThought(input);
       expect(result.isError).toBeUndefined();
     });
   });
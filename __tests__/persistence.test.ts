@@ -1,17 +1,29 @@
-import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { mkdir, mkdtemp, readFile, readdir, rm, utimes, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import path from 'node:path';
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 import {
+  buildIndexEntry,
+  DEFAULT_LIST_LIMIT,
   generateId,
   PersistenceManager,
   type PlanIndexEntry,
+  type PlanListQuery,
   type PlansIndex,
+  parseRetention,
+  parseStartupCheck,
   resolvePlansDirectory,
+  resolveStorageKind,
+  toPlanSummary,
 } from '../persistence.js';
-import type { PlanningSession } from '../planning.js';
+import type { ThinkingSession } from '../lib.js';
+import { BUNDLE_FORMAT, BUNDLE_VERSION, type PlanBundle } from '../bundle.js';
+import { parseLog, replayRecords } from '../event-log.js';
+import type { Evaluation, PlanningSession } from '../planning.js';
+import { SCHEMA_VERSION } from '../schema.js';
+import { createStorageBackend, MemoryBackend } from '../storage.js';
 
 // ─── Fixtures ────────────────────────────────────────────────────────────────
 
@@ -34,6 +46,19 @@ function makeSession(overrides: Partial<PlanningSession> = {}): PlanningSession
   };
 }
 
+function makeThinkingSession(overrides: Partial<ThinkingSession> = {}): ThinkingSession {
+  return {
+    sessionId: 'st-testABCD',
+    thoughtHistory: [
+      { thought: 'First thought', thoughtNumber: 1, totalThoughts: 2, nextThoughtNeeded: true },
+    ],
+    branches: {},
+    createdAt: '2026-02-06T10:00:00.000Z',
+    updatedAt: '2026-02-06T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
 function makeIndexEntry(overrides: Partial<PlanIndexEntry> = {}): PlanIndexEntry {
   return {
     problem: 'Test problem',
@@ -100,6 +125,171 @@ describe('resolvePlansDirectory', () => {
   });
 });
 
+// ─── buildIndexEntry ─────────────────────────────────────────────────────────
+
+describe('buildIndexEntry', () => {
+  const evaluation = (branchId: string, weightedScore: number): Evaluation => ({
+    branchId,
+    scores: {},
+    weightedScore,
+    rationale: '',
+    recommendation: 'pursue',
+  });
+
+  it('should summarize the session for the index', () => {
+    const entry = buildIndexEntry(
+      makeSession({
+        phase: 'evaluate',
+        updatedAt: '2026-02-06T11:00:00.000Z',
+        approaches: [
+          { branchId: 'a', name: 'A', description: '', pros: [], cons: [] },
+          { branchId: 'b', name: 'B', description: '', pros: [], cons: [] },
+        ],
+        evaluations: [evaluation('a', 6), evaluation('a', 8.5), evaluation('b', 7)],
+      }),
+      null
+    );
+
+    expect(entry).toMatchObject({
+      updatedAt: '2026-02-06T11:00:00.000Z',
+      finalizedAt: null,
+      approachCount: 2,
+      // Mean of a's evaluations (7.25) beats b's single 7
+      topScore: 7.25,
+      filePaths: { jsonl: 'dp-testABCD.jsonl', markdown: null },
+    });
+  });
+
+  it('should mark finalized plans and leave topScore null before evaluation', () => {
+    const entry = buildIndexEntry(makeSession({ phase: 'done' }), '20260206-dp-testABCD.md');
+
+    expect(entry.finalizedAt).toBe('2026-02-06T10:00:00.000Z');
+    expect(entry.topScore).toBeNull();
+    expect(entry.filePaths.markdown).toBe('20260206-dp-testABCD.md');
+  });
+
+  it('should include metadata only when set', () => {
+    const entry = buildIndexEntry(
+      makeSession({ tags: ['backend'], owner: 'alice', project: 'api' }),
+      null
+    );
+
+    expect(entry).toMatchObject({ tags: ['backend'], owner: 'alice', project: 'api' });
+    expect(buildIndexEntry(makeSession({ tags: [] }), null)).not.toHaveProperty('tags');
+  });
+});
+
+// ─── toPlanSummary ───────────────────────────────────────────────────────────
+
+describe('toPlanSummary', () => {
+  it('should keep only the compact fields', () => {
+    const summary = toPlanSummary({
+      sessionId: 'dp-testABCD',
+      forks: [],
+      ...makeIndexEntry({ approachCount: 3, topScore: 8.1, selectedBranch: 'a' }),
+    });
+
+    expect(summary).toEqual({
+      sessionId: 'dp-testABCD',
+      problem: 'Test problem',
+      phase: 'init',
+      updatedAt: '2026-02-06T10:00:00.000Z',
+      selectedBranch: 'a',
+      approachCount: 3,
+      topScore: 8.1,
+    });
+  });
+
+  it('should keep where the plan lives when listing across roots', () => {
+    const summary = toPlanSummary({
+      sessionId: 'dp-testABCD',
+      forks: [],
+      plansDir: '/work/api/plans',
+      ...makeIndexEntry(),
+    });
+    expect(summary.plansDir).toBe('/work/api/plans');
+  });
+
+  it('should default counts for entries indexed before they were tracked', () => {
+    const summary = toPlanSummary({ sessionId: 'dp-old', forks: [], ...makeIndexEntry() });
+    expect(summary.approachCount).toBe(0);
+    expect(summary.topScore).toBeNull();
+  });
+});
+
+// ─── parseRetention ──────────────────────────────────────────────────────────
+
+describe('parseRetention', () => {
+  it('should accept an absent or partial policy', () => {
+    expect(parseRetention(undefined)).toEqual({});
+    expect(parseRetention({ archiveAfterDays: 14 })).toEqual({ archiveAfterDays: 14 });
+    expect(parseRetention({ archiveAfterDays: 14, deleteArchivedAfterDays: 90 })).toEqual({
+      archiveAfterDays: 14,
+      deleteArchivedAfterDays: 90,
+    });
+  });
+
+  it('should reject non-objects and non-positive days', () => {
+    expect(() => parseRetention([])).toThrow('retention must be an object');
+    expect(() => parseRetention({ archiveAfterDays: 0 })).toThrow('positive number of days');
+    expect(() => parseRetention({ deleteArchivedAfterDays: '30' })).toThrow(
+      'retention.deleteArchivedAfterDays'
+    );
+  });
+});
+
+// ─── parseStartupCheck ───────────────────────────────────────────────────────
+
+describe('parseStartupCheck', () => {
+  it('should default to report and accept the known modes', () => {
+    expect(parseStartupCheck(undefined)).toBe('report');
+    expect(parseStartupCheck('repair')).toBe('repair');
+    expect(parseStartupCheck('off')).toBe('off');
+  });
+
+  it('should reject anything else', () => {
+    expect(() => parseStartupCheck(true)).toThrow('startupCheck must be');
+  });
+});
+
+describe('resolveStorageKind', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(path.join(tmpdir(), 'ygg-test-'));
+    vi.stubEnv('YGGDRASIL_STORAGE', '');
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should default to fs', () => {
+    expect(resolveStorageKind(tempDir)).toBe('fs');
+  });
+
+  it('should read the storage key from the config file', async () => {
+    await writeFile(path.join(tempDir, 'yggdrasil-config.json'), '{"storage":"sqlite"}');
+    expect(resolveStorageKind(tempDir)).toBe('sqlite');
+  });
+
+  it('should prioritise YGGDRASIL_STORAGE over the config file', async () => {
+    await writeFile(path.join(tempDir, 'yggdrasil-config.json'), '{"storage":"sqlite"}');
+    vi.stubEnv('YGGDRASIL_STORAGE', 'memory');
+    expect(resolveStorageKind(tempDir)).toBe('memory');
+  });
+
+  it('should reject unknown backends', async () => {
+    await writeFile(path.join(tempDir, 'yggdrasil-config.json'), '{"storage":"s3"}');
+    expect(() => resolveStorageKind(tempDir)).toThrow(
+      'yggdrasil-config.json storage must be one of'
+    );
+    vi.stubEnv('YGGDRASIL_STORAGE', 'S3');
+    expect(() => new PersistenceManager()).toThrow('YGGDRASIL_STORAGE must be one of');
+  });
+});
+
 // ─── PersistenceManager ──────────────────────────────────────────────────────
 
 describe('PersistenceManager', () => {
@@ -125,6 +315,44 @@ describe('PersistenceManager', () => {
     });
   });
 
+  // ─── Storage backends ───────────────────────────────────────────────────
+
+  describe('storage backends', () => {
+    it('should use the filesystem unless configured otherwise', () => {
+      expect(pm.getStorage().kind).toBe('fs');
+      expect(pm.getStorage().location).toBe(tempDir);
+    });
+
+    it('should keep plans and chains in the backend it was given', async () => {
+      const storage = new MemoryBackend();
+      const memoryPm = new PersistenceManager(undefined, storage);
+      const session = makeSession({ phase: 'done' });
+
+      await memoryPm.appendEvent(session);
+      await memoryPm.writeMarkdownPlan(session, '# Plan');
+      await memoryPm.updateIndex(
+        session.sessionId,
+        makeIndexEntry({
+          phase: 'done',
+          filePaths: { jsonl: 'dp-testABCD.jsonl', markdown: '20260206-dp-testABCD.md' },
+        })
+      );
+      await memoryPm.appendThoughtEvent('st-testABCD', makeThinkingSession().thoughtHistory[0]);
+
+      expect(await readdir(tempDir)).toEqual([]);
+      expect((await memoryPm.loadSession(session.sessionId))?.phase).toBe('done');
+      expect((await memoryPm.getPlan(session.sessionId)).content).toBe('# Plan');
+      expect(await memoryPm.loadThinkingSession('st-testABCD')).not.toBeNull();
+      expect(await memoryPm.verifyPlans()).toEqual({ checked: 1, issues: [], repaired: 0 });
+
+      // Another manager on the same backend sees the same plans
+      const other = new PersistenceManager(undefined, storage);
+      expect(Object.keys(await other.rebuildIndex())).toEqual(['dp-testABCD']);
+      expect(await other.deletePlan(session.sessionId)).toBe(true);
+      expect(await storage.list()).toEqual(['yggdrasil-plans-index.json']);
+    });
+  });
+
   // ─── appendEvent ────────────────────────────────────────────────────────
 
   describe('appendEvent', () => {
@@ -159,6 +387,91 @@ describe('PersistenceManager', () => {
       expect(lines).toHaveLength(3);
     });
 
+    it('should record the event phase and restored event index when given', async () => {
+      await pm.appendEvent(makeSession());
+      await pm.appendEvent(makeSession(), { phase: 'undo', restoredFrom: 0 });
+
+      const events = await pm.loadEvents('dp-testABCD');
+      expect(events?.[0]).not.toHaveProperty('restoredFrom');
+      expect(events?.[1].phase).toBe('undo');
+      expect(events?.[1].session.phase).toBe('init');
+      expect(events?.[1].restoredFrom).toBe(0);
+    });
+
+    it('should refuse to append after another process wrote to the log', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(vi.fn());
+      const other = new PersistenceManager();
+      await pm.appendEvent(makeSession({ phase: 'init' }));
+      await other.appendEvent(makeSession({ phase: 'clarify' }));
+
+      expect(await pm.hasLogConflict('dp-testABCD')).toBe(true);
+      await pm.appendEvent(makeSession({ phase: 'explore' }));
+      expect(consoleSpy).toHaveBeenCalledWith(
+        expect.stringContaining('changed by another process; "explore" event not written')
+      );
+      expect((await pm.loadEvents('dp-testABCD'))?.map((e) => e.phase)).toEqual([
+        'init',
+        'clarify',
+      ]);
+
+      // Reading the session leaves the check alone; resuming it catches up with the log
+      await pm.loadSession('dp-testABCD');
+      expect(await pm.hasLogConflict('dp-testABCD')).toBe(true);
+      await pm.resumeSession('dp-testABCD');
+      expect(await pm.hasLogConflict('dp-testABCD')).toBe(false);
+      await pm.appendEvent(makeSession({ phase: 'explore' }));
+      expect(await pm.loadEvents('dp-testABCD')).toHaveLength(3);
+      consoleSpy.mockRestore();
+    });
+
+    it('should always append restores, which are rebuilt from the log', async () => {
+      const other = new PersistenceManager();
+      await pm.appendEvent(makeSession({ phase: 'init' }));
+      await other.appendEvent(makeSession({ phase: 'clarify' }));
+
+      await pm.appendEvent(makeSession({ phase: 'init' }), { restoredFrom: 0 });
+
+      expect(await pm.loadEvents('dp-testABCD')).toHaveLength(3);
+      expect(await pm.hasLogConflict('dp-testABCD')).toBe(false);
+      expect(await pm.hasLogConflict('dp-unknown')).toBe(false);
+    });
+
+    it('should store later events as changes since the previous one', async () => {
+      const session = makeSession({ phase: 'explore' });
+      await pm.appendEvent(session);
+      session.approaches.push({ branchId: 'a', name: 'A', description: 'd', pros: [], cons: [] });
+      await pm.appendEvent(session);
+      // Changes after the call do not leak into the queued event
+      session.phase = 'evaluate';
+
+      const content = await readFile(path.join(tempDir, 'dp-testABCD.jsonl'), 'utf8');
+      const lines = content
+        .trim()
+        .split('\n')
+        .map((l) => JSON.parse(l) as Record<string, unknown>);
+      expect(lines[0]).toHaveProperty('session');
+      expect(lines[1]).not.toHaveProperty('session');
+      expect(lines[1].delta).toEqual({ push: { approaches: [session.approaches[0]] } });
+
+      const events = await pm.loadEvents('dp-testABCD');
+      expect(events?.[1].session).toEqual({ ...session, phase: 'explore' });
+    });
+
+    it('should write a full snapshot when the log does not end where this process left it', async () => {
+      const other = new PersistenceManager();
+      await pm.appendEvent(makeSession({ phase: 'init' }));
+      await other.appendEvent(makeSession({ phase: 'clarify' }));
+      await pm.appendEvent(makeSession({ phase: 'init' }), { restoredFrom: 0 });
+
+      const content = await readFile(path.join(tempDir, 'dp-testABCD.jsonl'), 'utf8');
+      expect(
+        content
+          .trim()
+          .split('\n')
+          .map((l) => 'session' in (JSON.parse(l) as object))
+      ).toEqual([true, true, true]);
+    });
+
     it('should handle write errors gracefully (log, not throw)', async () => {
       const consoleSpy = vi.spyOn(console, 'error').mockImplementation(vi.fn());
       // Use a path that cannot be written to
@@ -172,6 +485,60 @@ describe('PersistenceManager', () => {
     });
   });
 
+  // ─── appendThoughtEvent ─────────────────────────────────────────────────
+
+  describe('appendThoughtEvent', () => {
+    it('should append thought events under the thinking directory', async () => {
+      const thought = { thought: 'A', thoughtNumber: 1, totalThoughts: 2, nextThoughtNeeded: true };
+      await pm.appendThoughtEvent('st-testABCD', thought);
+      await pm.appendThoughtEvent('st-testABCD', { ...thought, thought: 'B', thoughtNumber: 2 });
+
+      const content = await readFile(path.join(tempDir, 'thinking', 'st-testABCD.jsonl'), 'utf8');
+      const lines = content.trim().split('\n');
+      expect(lines).toHaveLength(2);
+
+      const event = JSON.parse(lines[0]) as Record<string, unknown>;
+      expect(event).toHaveProperty('timestamp');
+      expect(event).toHaveProperty('thought', thought);
+    });
+
+    it('should keep event order for unawaited appends', async () => {
+      const writes = Array.from({ length: 20 }, (_, i) =>
+        pm.appendThoughtEvent('st-order', {
+          thought: `Thought ${String(i + 1)}`,
+          thoughtNumber: i + 1,
+          totalThoughts: 20,
+          nextThoughtNeeded: true,
+        })
+      );
+      await Promise.all(writes);
+
+      const content = await readFile(path.join(tempDir, 'thinking', 'st-order.jsonl'), 'utf8');
+      const numbers = content
+        .trim()
+        .split('\n')
+        .map((line) => (JSON.parse(line) as { thought: { thoughtNumber: number } }).thought);
+      expect(numbers.map((t) => t.thoughtNumber)).toEqual(
+        Array.from({ length: 20 }, (_, i) => i + 1)
+      );
+    });
+
+    it('should handle write errors gracefully (log, not throw)', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(vi.fn());
+      vi.stubEnv('YGGDRASIL_PLANS_DIR', '/dev/null/impossible');
+      const badPm = new PersistenceManager();
+
+      await badPm.appendThoughtEvent('st-bad', {
+        thought: 'x',
+        thoughtNumber: 1,
+        totalThoughts: 1,
+        nextThoughtNeeded: false,
+      });
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('[yggdrasil]'));
+      consoleSpy.mockRestore();
+    });
+  });
+
   // ─── writeMarkdownPlan ──────────────────────────────────────────────────
 
   describe('writeMarkdownPlan', () => {
@@ -237,6 +604,38 @@ describe('PersistenceManager', () => {
       expect(Object.keys(index)).toHaveLength(3);
     });
 
+    it('should keep every entry when several processes update the index at once', async () => {
+      // Each manager has its own write queue, like a separate server process
+      const others = [new PersistenceManager(), new PersistenceManager()];
+
+      await Promise.all(
+        [pm, ...others].flatMap((manager, m) =>
+          Array.from({ length: 5 }, (_, i) =>
+            manager.updateIndex(`dp-p${String(m)}s${String(i)}`, makeIndexEntry())
+          )
+        )
+      );
+
+      expect(Object.keys(await pm.readIndex())).toHaveLength(15);
+      // No lock or tmp files left behind
+      expect(await readdir(tempDir)).toEqual(['yggdrasil-plans-index.json']);
+    });
+
+    it('should log instead of throwing when the index lock cannot be taken', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(vi.fn());
+      // A stale lock that cannot be removed
+      const lockPath = path.join(tempDir, 'yggdrasil-plans-index.json.lock');
+      await mkdir(lockPath);
+      await utimes(lockPath, new Date(0), new Date(0));
+
+      await pm.updateIndex('dp-testABCD', makeIndexEntry());
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        expect.stringContaining('[yggdrasil] Failed to update plans index')
+      );
+      consoleSpy.mockRestore();
+    });
+
     it('should handle corrupted index file', async () => {
       await writeFile(path.join(tempDir, 'yggdrasil-plans-index.json'), 'not json', 'utf8');
       const index = await pm.readIndex();
@@ -244,6 +643,171 @@ describe('PersistenceManager', () => {
     });
   });
 
+  // ─── loadThinkingSession ────────────────────────────────────────────────
+
+  describe('loadEvents', () => {
+    it('should return every event in order', async () => {
+      await pm.appendEvent(makeSession());
+      await pm.appendEvent(makeSession({ phase: 'clarify' }));
+
+      const events = await pm.loadEvents('dp-testABCD');
+      expect(events?.map((e) => e.phase)).toEqual(['init', 'clarify']);
+      expect(events?.[1].session.phase).toBe('clarify');
+    });
+
+    it('should return null for missing or empty logs', async () => {
+      expect(await pm.loadEvents('dp-missing')).toBeNull();
+
+      await writeFile(path.join(tempDir, 'dp-empty.jsonl'), '', 'utf8');
+      expect(await pm.loadEvents('dp-empty')).toBeNull();
+    });
+
+    it('should say why a corrupted log cannot be loaded', async () => {
+      await writeFile(
+        path.join(tempDir, 'dp-broken.jsonl'),
+        '{"phase":"init"}\nnot json\n',
+        'utf8'
+      );
+
+      await expect(pm.loadEvents('dp-broken')).rejects.toThrow(
+        'Session "dp-broken" cannot be loaded: Line 1 is not a valid event'
+      );
+    });
+
+    it('should stamp new lines with the schema version', async () => {
+      await pm.appendEvent(makeSession());
+      await pm.appendEvent(makeSession({ phase: 'clarify' }));
+
+      const content = await readFile(path.join(tempDir, 'dp-testABCD.jsonl'), 'utf8');
+      const versions = content
+        .trim()
+        .split('\n')
+        .map((line) => (JSON.parse(line) as { schemaVersion?: number }).schemaVersion);
+      expect(versions).toEqual([SCHEMA_VERSION, SCHEMA_VERSION]);
+    });
+
+    it('should load logs written before schema versions', async () => {
+      const lines = [makeSession(), makeSession({ phase: 'clarify' })].map((session) =>
+        JSON.stringify({ timestamp: session.updatedAt, phase: session.phase, session })
+      );
+      await writeFile(path.join(tempDir, 'dp-testABCD.jsonl'), lines.join('\n') + '\n', 'utf8');
+
+      expect((await pm.loadEvents('dp-testABCD'))?.map((e) => e.session.phase)).toEqual([
+        'init',
+        'clarify',
+      ]);
+      expect((await pm.loadSession('dp-testABCD'))?.phase).toBe('clarify');
+    });
+
+    it('should reject sessions that fail validation or come from a newer server', async () => {
+      const invalid = { ...makeSession(), approaches: [{ branchId: 'a', name: 42 }] };
+      await writeFile(
+        path.join(tempDir, 'dp-invalid.jsonl'),
+        JSON.stringify({ timestamp: 't', phase: 'explore', session: invalid }) + '\n',
+        'utf8'
+      );
+      const newer = { timestamp: 't', phase: 'init', schemaVersion: 99, session: makeSession() };
+      await writeFile(path.join(tempDir, 'dp-newer.jsonl'), JSON.stringify(newer) + '\n', 'utf8');
+
+      await expect(pm.loadSession('dp-invalid')).rejects.toThrow(
+        'Session "dp-invalid" cannot be loaded: Event 0: session.approaches[0].name must be a string, got number'
+      );
+      await expect(pm.loadSession('dp-newer')).rejects.toThrow(
+        'reads up to version 2; update yggdrasil'
+      );
+    });
+  });
+
+  describe('loadThinkingSession', () => {
+    it('should replay thoughts and branches from the JSONL log', async () => {
+      const base = { totalThoughts: 3, nextThoughtNeeded: true };
+      await pm.appendThoughtEvent('st-replay', { ...base, thought: 'One', thoughtNumber: 1 });
+      await pm.appendThoughtEvent('st-replay', {
+        ...base,
+        thought: 'Alt',
+        thoughtNumber: 2,
+        branchFromThought: 1,
+        branchId: 'alt',
+      });
+      await pm.appendThoughtEvent('st-replay', { ...base, thought: 'Two', thoughtNumber: 2 });
+
+      const session = await pm.loadThinkingSession('st-replay');
+      expect(session?.sessionId).toBe('st-replay');
+      expect(session?.thoughtHistory.map((t) => t.thought)).toEqual(['One', 'Alt', 'Two']);
+      expect(Object.keys(session?.branches ?? {})).toEqual(['alt']);
+      expect(session?.createdAt).toBeTruthy();
+    });
+
+    it('should return null for a missing chain', async () => {
+      expect(await pm.loadThinkingSession('st-missing')).toBeNull();
+    });
+
+    it('should return null for an empty chain file', async () => {
+      await mkdir(path.join(tempDir, 'thinking'), { recursive: true });
+      await writeFile(path.join(tempDir, 'thinking', 'st-empty.jsonl'), '', 'utf8');
+      expect(await pm.loadThinkingSession('st-empty')).toBeNull();
+    });
+  });
+
+  // ─── Thinking index ─────────────────────────────────────────────────────
+
+  describe('readConfig', () => {
+    it('should return empty object when config does not exist', async () => {
+      expect(await pm.readConfig()).toEqual({});
+    });
+
+    it('should read yggdrasil-config.json from the plans directory', async () => {
+      await writeFile(
+        path.join(tempDir, 'yggdrasil-config.json'),
+        JSON.stringify({ criteria: [{ name: 'cost', weight: 1 }] })
+      );
+      expect(await pm.readConfig()).toEqual({ criteria: [{ name: 'cost', weight: 1 }] });
+    });
+
+    it('should ignore configs that are not JSON objects', async () => {
+      await writeFile(path.join(tempDir, 'yggdrasil-config.json'), '[1, 2]');
+      expect(await pm.readConfig()).toEqual({});
+    });
+  });
+
+  describe('thinking index operations', () => {
+    it('should return empty object when thinking index does not exist', async () => {
+      expect(await pm.readThinkingIndex()).toEqual({});
+    });
+
+    it('should write an entry derived from the chain state', async () => {
+      await pm.updateThinkingIndex(
+        makeThinkingSession({ branches: { 'branch-a': [] }, updatedAt: '2026-02-06T10:05:00.000Z' })
+      );
+
+      const index = await pm.readThinkingIndex();
+      expect(index['st-testABCD']).toEqual({
+        firstThought: 'First thought',
+        createdAt: '2026-02-06T10:00:00.000Z',
+        updatedAt: '2026-02-06T10:05:00.000Z',
+        thoughtCount: 1,
+        branches: ['branch-a'],
+        filePath: 'thinking/st-testABCD.jsonl',
+      });
+    });
+
+    it('should not drop entries on concurrent updates', async () => {
+      await Promise.all(
+        Array.from({ length: 10 }, (_, i) =>
+          pm.updateThinkingIndex(makeThinkingSession({ sessionId: `st-chain${String(i)}` }))
+        )
+      );
+
+      const index = await pm.readThinkingIndex();
+      expect(Object.keys(index)).toHaveLength(10);
+    });
+
+    it('should keep the thinking index separate from the plans index', async () => {
+      await pm.updateThinkingIndex(makeThinkingSession());
+      expect(await pm.readIndex()).toEqual({});
+    });
+  });
+
   // ─── listPlans ──────────────────────────────────────────────────────────
 
   describe('listPlans', () => {
@@ -318,6 +882,244 @@ describe('PersistenceManager', () => {
       const plans = await pm.listPlans({ keyword: 'nonexistent' });
       expect(plans).toHaveLength(0);
     });
+
+    it('should hide archived plans unless status is archived', async () => {
+      await pm.archivePlan('dp-session2');
+
+      const active = await pm.listPlans();
+      expect(active.map((p) => p.sessionId)).toEqual(['dp-session3', 'dp-session1']);
+      expect(await pm.listPlans({ status: 'in-progress' })).toEqual([]);
+
+      const archived = await pm.listPlans({ status: 'archived' });
+      expect(archived.map((p) => p.sessionId)).toEqual(['dp-session2']);
+      expect(archived[0].archivedAt).toEqual(expect.any(String));
+    });
+
+    it('should filter by phase and selected branch', async () => {
+      await pm.updateIndex(
+        'dp-session4',
+        makeIndexEntry({
+          phase: 'done',
+          selectedBranch: 'redis',
+          createdAt: '2026-02-05T00:00:00.000Z',
+        })
+      );
+
+      expect((await pm.listPlans({ phase: 'explore' })).map((p) => p.sessionId)).toEqual([
+        'dp-session2',
+      ]);
+      expect((await pm.listPlans({ selectedBranch: 'redis' })).map((p) => p.sessionId)).toEqual([
+        'dp-session4',
+      ]);
+    });
+
+    it('should filter by tags, owner and project ignoring case', async () => {
+      await pm.updateIndex(
+        'dp-session4',
+        makeIndexEntry({ tags: ['Backend', 'cache'], owner: 'alice', project: 'api' })
+      );
+      await pm.updateIndex(
+        'dp-session5',
+        makeIndexEntry({ tags: ['backend'], owner: 'bob', project: 'web' })
+      );
+
+      const ids = async (query: PlanListQuery): Promise<string[]> =>
+        (await pm.listPlans(query)).map((p) => p.sessionId).toSorted();
+      expect(await ids({ tags: ['backend'] })).toEqual(['dp-session4', 'dp-session5']);
+      expect(await ids({ tags: ['backend', 'CACHE'] })).toEqual(['dp-session4']);
+      expect(await ids({ owner: 'Bob' })).toEqual(['dp-session5']);
+      expect(await ids({ project: 'api', owner: 'bob' })).toEqual([]);
+      expect(await ids({ tags: [] })).toHaveLength(5);
+    });
+
+    it('should filter by inclusive date ranges', async () => {
+      const created = await pm.listPlans({
+        createdAfter: '2026-02-06T10:00:00.000Z',
+        createdBefore: '2026-02-06T12:00:00Z',
+      });
+      expect(created.map((p) => p.sessionId)).toEqual(['dp-session3', 'dp-session2']);
+
+      // updatedAt falls back to finalizedAt, then createdAt, for older entries
+      const updated = await pm.listPlans({
+        updatedAfter: '2026-02-06T09:00:00Z',
+        updatedBefore: '2026-02-06T11:00:00Z',
+      });
+      expect(updated.map((p) => p.sessionId)).toEqual(['dp-session2', 'dp-session1']);
+    });
+
+    it('should reject unparseable dates', async () => {
+      await expect(pm.listPlans({ createdAfter: 'last tuesday' })).rejects.toThrow(
+        'createdAfter must be an ISO 8601 date or timestamp'
+      );
+    });
+
+    it('should sort by updated or finalized time in either order', async () => {
+      await pm.updateIndex(
+        'dp-session2',
+        makeIndexEntry({
+          problem: 'Cache layer',
+          createdAt: '2026-02-06T10:00:00.000Z',
+          updatedAt: '2026-02-08T00:00:00.000Z',
+          phase: 'explore',
+        })
+      );
+
+      const byUpdated = await pm.listPlans({ sortBy: 'updated' });
+      expect(byUpdated.map((p) => p.sessionId)).toEqual([
+        'dp-session2',
+        'dp-session3',
+        'dp-session1',
+      ]);
+
+      const byFinalized = await pm.listPlans({ sortBy: 'finalized', order: 'asc' });
+      expect(byFinalized.map((p) => p.sessionId)).toEqual([
+        'dp-session2',
+        'dp-session1',
+        'dp-session3',
+      ]);
+    });
+
+    it('should show fork lineage in both directions', async () => {
+      await pm.updateIndex(
+        'dp-fork1',
+        makeIndexEntry({
+          problem: 'Cache layer (fork)',
+          forkedFrom: { sessionId: 'dp-session2', eventIndex: 3 },
+        })
+      );
+
+      const plans = await pm.listPlans();
+      const parent = plans.find((p) => p.sessionId === 'dp-session2');
+      const fork = plans.find((p) => p.sessionId === 'dp-fork1');
+      expect(parent?.forks).toEqual(['dp-fork1']);
+      expect(fork?.forkedFrom).toEqual({ sessionId: 'dp-session2', eventIndex: 3 });
+      expect(fork?.forks).toEqual([]);
+    });
+  });
+
+  describe('searchPlans', () => {
+    async function savePlan(sessionId: string, overrides: Partial<PlanningSession>): Promise<void> {
+      const session = makeSession({ sessionId, ...overrides });
+      await pm.appendEvent(session);
+      await pm.updateIndex(
+        sessionId,
+        makeIndexEntry({
+          problem: session.problem,
+          createdAt: session.createdAt,
+          filePaths: { jsonl: `${sessionId}.jsonl`, markdown: null },
+        })
+      );
+    }
+
+    beforeEach(async () => {
+      await savePlan('dp-search01', { problem: 'Redis cache for sessions' });
+      await savePlan('dp-search02', {
+        problem: 'Product cache',
+        context: 'We ruled out Redis',
+        createdAt: '2026-02-07T10:00:00.000Z',
+      });
+      await savePlan('dp-search03', { problem: 'Search indexing' });
+    });
+
+    it('should rank matching plans by score', async () => {
+      const results = await pm.searchPlans('redis');
+
+      expect(results.map((r) => r.sessionId)).toEqual(['dp-search01', 'dp-search02']);
+      expect(results[1].matches).toEqual([{ field: 'context', snippet: 'We ruled out Redis' }]);
+    });
+
+    it('should break ties by newest plan and apply the limit', async () => {
+      const results = await pm.searchPlans('cache', { limit: 1 });
+      expect(results.map((r) => r.sessionId)).toEqual(['dp-search02']);
+    });
+
+    it('should skip archived plans unless asked', async () => {
+      await pm.archivePlan('dp-search01');
+
+      expect((await pm.searchPlans('redis')).map((r) => r.sessionId)).toEqual(['dp-search02']);
+      expect(await pm.searchPlans('redis', { includeArchived: true })).toHaveLength(2);
+    });
+
+    it('should skip index entries whose log is missing', async () => {
+      await pm.updateIndex('dp-nolog001', makeIndexEntry({ problem: 'Redis orphan' }));
+      expect(await pm.searchPlans('orphan')).toEqual([]);
+    });
+
+    it('should skip plans whose log cannot be loaded', async () => {
+      await pm.updateIndex('dp-broken01', makeIndexEntry({ problem: 'Redis broken' }));
+      await writeFile(path.join(tempDir, 'dp-broken01.jsonl'), 'not json\n', 'utf8');
+
+      expect((await pm.searchPlans('redis')).map((r) => r.sessionId)).toEqual([
+        'dp-search01',
+        'dp-search02',
+      ]);
+    });
+  });
+
+  describe('listPlansPage', () => {
+    beforeEach(async () => {
+      for (let i = 1; i <= 5; i++) {
+        await pm.updateIndex(
+          `dp-page000${String(i)}`,
+          makeIndexEntry({ createdAt: `2026-02-0${String(i)}T10:00:00.000Z` })
+        );
+      }
+    });
+
+    it('should page through plans with a cursor', async () => {
+      const first = await pm.listPlansPage({ limit: 2 });
+      expect(first.total).toBe(5);
+      expect(first.plans.map((p) => p.sessionId)).toEqual(['dp-page0005', 'dp-page0004']);
+      expect(first.nextCursor).toEqual(expect.any(String));
+
+      const second = await pm.listPlansPage({ limit: 2, cursor: first.nextCursor ?? '' });
+      expect(second.plans.map((p) => p.sessionId)).toEqual(['dp-page0003', 'dp-page0002']);
+
+      const last = await pm.listPlansPage({ limit: 2, cursor: second.nextCursor ?? '' });
+      expect(last.plans.map((p) => p.sessionId)).toEqual(['dp-page0001']);
+      expect(last.nextCursor).toBeNull();
+    });
+
+    it('should not shift pages when a plan is added between calls', async () => {
+      const first = await pm.listPlansPage({ limit: 2, order: 'asc' });
+      await pm.updateIndex(
+        'dp-early001',
+        makeIndexEntry({ createdAt: '2026-01-01T00:00:00.000Z' })
+      );
+
+      const second = await pm.listPlansPage({
+        limit: 2,
+        order: 'asc',
+        cursor: first.nextCursor ?? '',
+      });
+      expect(second.plans.map((p) => p.sessionId)).toEqual(['dp-page0003', 'dp-page0004']);
+    });
+
+    it('should default to DEFAULT_LIST_LIMIT plans per page', async () => {
+      const page = await pm.listPlansPage();
+      expect(page.plans).toHaveLength(Math.min(5, DEFAULT_LIST_LIMIT));
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it('should return an empty page after the last plan', async () => {
+      const cursor = Buffer.from(JSON.stringify(['2020-01-01', 'dp-zzz'])).toString('base64url');
+      const page = await pm.listPlansPage({ cursor });
+      expect(page.plans).toEqual([]);
+      expect(page.total).toBe(5);
+    });
+
+    it('should reject malformed cursors', async () => {
+      await expect(pm.listPlansPage({ cursor: 'not-a-cursor' })).rejects.toThrow('Invalid cursor');
+      const wrongShape = Buffer.from(JSON.stringify({ offset: 2 })).toString('base64url');
+      await expect(pm.listPlansPage({ cursor: wrongShape })).rejects.toThrow('Invalid cursor');
+    });
+
+    it('should reject limits that are not a positive whole number', async () => {
+      for (const limit of [0, -1, 1.5, Number.NaN]) {
+        await expect(pm.listPlansPage({ limit })).rejects.toThrow(TypeError);
+        await expect(pm.searchPlans('cache', { limit })).rejects.toThrow('Invalid limit');
+      }
+    });
   });
 
   // ─── getPlan ────────────────────────────────────────────────────────────
@@ -391,9 +1193,402 @@ describe('PersistenceManager', () => {
     });
   });
 
+  // ─── verifyPlans ────────────────────────────────────────────────────────
+
+  describe('verifyPlans', () => {
+    /** A saved plan as the server would leave it: a log plus its index entry. */
+    async function savePlan(session: PlanningSession, markdown: string | null = null) {
+      await pm.appendEvent(session);
+      await pm.updateIndex(session.sessionId, buildIndexEntry(session, markdown));
+    }
+
+    it('should report nothing for a consistent directory', async () => {
+      await savePlan(makeSession());
+      await writeFile(path.join(tempDir, 'unrelated-notes.md'), '# Notes');
+
+      expect(await pm.verifyPlans()).toEqual({ checked: 1, issues: [], repaired: 0 });
+    });
+
+    it('should report without touching anything unless repairing', async () => {
+      await savePlan(makeSession());
+      await rm(path.join(tempDir, 'dp-testABCD.jsonl'));
+
+      const result = await pm.verifyPlans();
+
+      expect(result.issues).toEqual([
+        {
+          kind: 'missing-log',
+          sessionId: 'dp-testABCD',
+          file: 'dp-testABCD.jsonl',
+          message: 'Index entry has no JSONL log; the entry is dropped on repair',
+          repaired: false,
+        },
+      ]);
+      expect(result.repaired).toBe(0);
+      expect(await pm.readIndex()).toHaveProperty('dp-testABCD');
+    });
+
+    it('should drop entries without a log and index logs without an entry', async () => {
+      await savePlan(makeSession());
+      await rm(path.join(tempDir, 'dp-testABCD.jsonl'));
+      await pm.appendEvent(makeSession({ sessionId: 'dp-unindexed', phase: 'done' }));
+      await writeFile(path.join(tempDir, '20260206-dp-unindexed.md'), '# Plan');
+
+      const result = await pm.verifyPlans({ repair: true });
+
+      expect(result.issues.map((i) => [i.kind, i.repaired])).toEqual([
+        ['missing-log', true],
+        ['unindexed-log', true],
+      ]);
+      const index = await pm.readIndex();
+      expect(Object.keys(index)).toEqual(['dp-unindexed']);
+      expect(index['dp-unindexed']?.filePaths.markdown).toBe('20260206-dp-unindexed.md');
+    });
+
+    it('should rebuild entries that disagree with the last event and keep archiving', async () => {
+      await savePlan(makeSession());
+      await pm.archivePlan('dp-testABCD');
+      await pm.appendEvent(
+        makeSession({ phase: 'explore', updatedAt: '2026-02-06T11:00:00.000Z' })
+      );
+
+      const result = await pm.verifyPlans({ repair: true });
+
+      expect(result.issues).toHaveLength(1);
+      expect(result.issues[0]).toMatchObject({
+        kind: 'stale-entry',
+        file: 'yggdrasil-plans-index.json',
+        message: 'Index entry disagrees with the last event on phase, updatedAt',
+        repaired: true,
+      });
+      const entry = (await pm.readIndex())['dp-testABCD'];
+      expect(entry?.phase).toBe('explore');
+      expect(entry?.archivedAt).toBeDefined();
+      expect((await pm.verifyPlans()).issues).toEqual([]);
+    });
+
+    it('should not flag fields that older entries never had', async () => {
+      await pm.appendEvent(makeSession());
+      await pm.updateIndex('dp-testABCD', makeIndexEntry());
+
+      expect((await pm.verifyPlans()).issues).toEqual([]);
+    });
+
+    it('should cut a corrupt tail but leave corruption mid-log alone', async () => {
+      const event = JSON.stringify({ timestamp: 't', phase: 'init', session: makeSession() });
+      await writeFile(path.join(tempDir, 'dp-testABCD.jsonl'), `${event}\n{"timest`);
+      const other = makeSession({ sessionId: 'dp-broken' });
+      await writeFile(
+        path.join(tempDir, 'dp-broken.jsonl'),
+        `not json\n${JSON.stringify({ timestamp: 't', phase: 'init', session: other })}\n`
+      );
+      await pm.updateIndex('dp-testABCD', buildIndexEntry(makeSession(), null));
+      await pm.updateIndex('dp-broken', buildIndexEntry(other, null));
+
+      const result = await pm.verifyPlans({ repair: true });
+
+      expect(result.issues.map((i) => [i.sessionId, i.kind, i.repaired])).toEqual([
+        ['dp-broken', 'corrupt-log', false],
+        ['dp-testABCD', 'corrupt-log', true],
+      ]);
+      expect(await pm.loadEvents('dp-testABCD')).toHaveLength(1);
+      expect(await readFile(path.join(tempDir, 'dp-broken.jsonl'), 'utf8')).toContain('not json');
+    });
+
+    it('should report a log whose changes have no snapshot to start from', async () => {
+      await writeFile(
+        path.join(tempDir, 'dp-testABCD.jsonl'),
+        '{"timestamp":"t","phase":"explore","delta":{}}\n'
+      );
+
+      const result = await pm.verifyPlans({ repair: true });
+
+      expect(result.issues).toEqual([
+        {
+          kind: 'corrupt-log',
+          sessionId: 'dp-testABCD',
+          file: 'dp-testABCD.jsonl',
+          message:
+            'Event 0 has no earlier snapshot to apply its changes to; fix or remove the log by hand',
+          repaired: false,
+        },
+      ]);
+    });
+
+    it('should point away from a missing Markdown plan it cannot render', async () => {
+      await savePlan(makeSession({ phase: 'done' }), '20260206-dp-testABCD.md');
+
+      const result = await pm.verifyPlans({ repair: true });
+
+      expect(result.issues[0]).toMatchObject({ kind: 'missing-markdown', repaired: true });
+      expect((await pm.readIndex())['dp-testABCD']?.filePaths.markdown).toBeNull();
+    });
+
+    it('should re-render a missing Markdown plan of a finalized session', async () => {
+      await savePlan(makeSession({ phase: 'done' }), '20260206-dp-testABCD.md');
+
+      await pm.verifyPlans({ repair: true, renderMarkdown: (s) => `# ${s.problem}` });
+
+      expect(await readFile(path.join(tempDir, '20260206-dp-testABCD.md'), 'utf8')).toBe(
+        '# Test problem'
+      );
+      expect((await pm.readIndex())['dp-testABCD']?.filePaths.markdown).toBe(
+        '20260206-dp-testABCD.md'
+      );
+    });
+
+    it('should report orphaned Markdown plans and remove old tmp files', async () => {
+      await writeFile(path.join(tempDir, '20260101-dp-gone1234.md'), '# Plan');
+      const tmp = path.join(tempDir, 'yggdrasil-plans-index.json.1-abc.tmp');
+      const fresh = path.join(tempDir, 'yggdrasil-plans-index.json.2-def.tmp');
+      await writeFile(tmp, '{}');
+      await writeFile(fresh, '{}');
+      await utimes(tmp, new Date(0), new Date(0));
+
+      const result = await pm.verifyPlans({ repair: true });
+
+      expect(result.issues.map((i) => [i.kind, i.file, i.repaired])).toEqual([
+        ['orphaned-markdown', '20260101-dp-gone1234.md', false],
+        ['temp-file', 'yggdrasil-plans-index.json.1-abc.tmp', true],
+      ]);
+      expect((await readdir(tempDir)).toSorted()).toEqual([
+        '20260101-dp-gone1234.md',
+        'yggdrasil-plans-index.json.2-def.tmp',
+      ]);
+    });
+
+    it('should return an empty result for a missing plans directory', async () => {
+      vi.stubEnv('YGGDRASIL_PLANS_DIR', path.join(tempDir, 'missing'));
+
+      expect(await new PersistenceManager().verifyPlans()).toEqual({
+        checked: 0,
+        issues: [],
+        repaired: 0,
+      });
+    });
+  });
+
   // ─── rebuildIndex ───────────────────────────────────────────────────────
 
+  describe('compactLog', () => {
+    /** A log in the format of older versions: the full session on every line. */
+    async function writeSnapshotLog(sessionId: string, count: number): Promise<PlanningSession[]> {
+      const states: PlanningSession[] = [];
+      const approaches: PlanningSession['approaches'] = [];
+      for (let i = 0; i < count; i++) {
+        approaches.push({
+          branchId: `b${String(i)}`,
+          name: 'N',
+          description: 'D',
+          pros: [],
+          cons: [],
+        });
+        states.push(makeSession({ sessionId, phase: 'explore', approaches: [...approaches] }));
+      }
+      const lines = states.map((session) =>
+        JSON.stringify({ timestamp: session.updatedAt, phase: session.phase, session })
+      );
+      await writeFile(path.join(tempDir, `${sessionId}.jsonl`), lines.join('\n') + '\n', 'utf8');
+      return states;
+    }
+
+    it('should rewrite an old snapshot log smaller and keep every event', async () => {
+      const states = await writeSnapshotLog('dp-compact1', 30);
+
+      const result = await pm.compactLog('dp-compact1');
+
+      expect(result).toMatchObject({ sessionId: 'dp-compact1', events: 30, compacted: true });
+      expect(result?.bytesAfter).toBeLessThan(result?.bytesBefore ?? 0);
+      const content = await readFile(path.join(tempDir, 'dp-compact1.jsonl'), 'utf8');
+      expect(Buffer.byteLength(content)).toBe(result?.bytesAfter);
+      expect((await pm.loadEvents('dp-compact1'))?.map((e) => e.session)).toEqual(states);
+    });
+
+    it('should leave logs alone that would not shrink', async () => {
+      await writeSnapshotLog('dp-compact2', 1);
+      const before = await readFile(path.join(tempDir, 'dp-compact2.jsonl'), 'utf8');
+
+      expect((await pm.compactLog('dp-compact2'))?.compacted).toBe(false);
+      expect(await readFile(path.join(tempDir, 'dp-compact2.jsonl'), 'utf8')).toBe(before);
+    });
+
+    it('should keep appending to a loaded session after compacting it', async () => {
+      await writeSnapshotLog('dp-compact3', 5);
+      const session = await pm.loadSession('dp-compact3');
+      await pm.compactLog('dp-compact3');
+
+      expect(await pm.hasLogConflict('dp-compact3')).toBe(false);
+      await pm.appendEvent({ ...(session as PlanningSession), phase: 'evaluate' });
+      expect((await pm.loadSession('dp-compact3'))?.phase).toBe('evaluate');
+    });
+
+    it('should return null for missing, unreadable or out-of-directory logs', async () => {
+      await writeFile(path.join(tempDir, 'dp-broken.jsonl'), 'not json\n', 'utf8');
+
+      expect(await pm.compactLog('dp-missing')).toBeNull();
+      expect(await pm.compactLog('dp-broken')).toBeNull();
+      expect(await pm.compactLog('../dp-compact1')).toBeNull();
+    });
+
+    it('should compact every readable log with compactPlans', async () => {
+      await writeSnapshotLog('dp-compact1', 10);
+      await writeSnapshotLog('dp-compact2', 1);
+      await writeFile(path.join(tempDir, 'dp-broken.jsonl'), 'not json\n', 'utf8');
+
+      const results = await pm.compactPlans();
+
+      expect(results.map((r) => [r.sessionId, r.compacted])).toEqual([
+        ['dp-compact1', true],
+        ['dp-compact2', false],
+      ]);
+    });
+
+    it('should find nothing to compact without a plans directory', async () => {
+      vi.stubEnv('YGGDRASIL_PLANS_DIR', path.join(tempDir, 'missing'));
+      expect(await new PersistenceManager().compactPlans()).toEqual([]);
+    });
+  });
+
+  describe('exportPlan & importPlan', () => {
+    let otherDir: string;
+    let other: PersistenceManager;
+
+    /** Save a finalized plan with its Markdown and index entry, as finalize does. */
+    async function saveFinalizedPlan(): Promise<PlanningSession> {
+      const session = makeSession({ phase: 'explore' });
+      await pm.appendEvent(session);
+      const done = { ...session, phase: 'done' as const, selectedApproach: 'a' };
+      await pm.appendEvent(done);
+      await pm.writeMarkdownPlan(done, '# Plan\n');
+      await pm.updateIndex(done.sessionId, buildIndexEntry(done, '20260206-dp-testABCD.md'));
+      return done;
+    }
+
+    beforeEach(async () => {
+      otherDir = await mkdtemp(path.join(tmpdir(), 'ygg-import-'));
+      other = new PersistenceManager(undefined, createStorageBackend('fs', otherDir));
+    });
+
+    afterEach(async () => {
+      await rm(otherDir, { recursive: true, force: true });
+    });
+
+    it('should bundle the log, Markdown plan and index entry', async () => {
+      const done = await saveFinalizedPlan();
+
+      const bundle = await pm.exportPlan('dp-testABCD', new Date('2026-03-01T00:00:00.000Z'));
+
+      expect(bundle).toMatchObject({
+        format: BUNDLE_FORMAT,
+        bundleVersion: BUNDLE_VERSION,
+        exportedAt: '2026-03-01T00:00:00.000Z',
+        sessionId: 'dp-testABCD',
+        index: { phase: 'done', selectedBranch: 'a' },
+        markdown: '# Plan\n',
+      });
+      expect(replayRecords(parseLog(bundle?.log ?? '')).map((e) => e.session)).toEqual([
+        makeSession({ phase: 'explore' }),
+        done,
+      ]);
+    });
+
+    it('should return null for plans without a log', async () => {
+      expect(await pm.exportPlan('dp-missing')).toBeNull();
+      expect(await pm.exportPlan('../dp-testABCD')).toBeNull();
+    });
+
+    it('should recreate the plan and its index entry in another directory', async () => {
+      await saveFinalizedPlan();
+      const bundle = await pm.exportPlan('dp-testABCD');
+
+      const result = await other.importPlan(bundle as PlanBundle);
+
+      expect(result).toEqual({
+        sessionId: 'dp-testABCD',
+        originalSessionId: 'dp-testABCD',
+        events: 2,
+        replaced: false,
+      });
+      expect(await other.loadEvents('dp-testABCD')).toEqual(await pm.loadEvents('dp-testABCD'));
+      expect(await readFile(path.join(otherDir, '20260206-dp-testABCD.md'), 'utf8')).toBe(
+        '# Plan\n'
+      );
+      expect((await other.readIndex())['dp-testABCD']).toEqual(
+        (await pm.readIndex())['dp-testABCD']
+      );
+    });
+
+    it('should import under a new ID when the session ID is taken', async () => {
+      await saveFinalizedPlan();
+      const bundle = (await pm.exportPlan('dp-testABCD')) as PlanBundle;
+
+      const result = await pm.importPlan(bundle, {
+        renderMarkdown: (session) => `# Plan ${session.sessionId}\n`,
+      });
+
+      expect(result.sessionId).toMatch(/^dp-[A-Za-z0-9]{8}$/);
+      expect(result.sessionId).not.toBe('dp-testABCD');
+      const copy = await pm.loadSession(result.sessionId);
+      expect(copy).toMatchObject({ sessionId: result.sessionId, phase: 'done' });
+      expect((await pm.readIndex())[result.sessionId]?.filePaths).toEqual({
+        jsonl: `${result.sessionId}.jsonl`,
+        markdown: `20260206-${result.sessionId}.md`,
+      });
+      // The Markdown plan is rendered from the imported log, not copied from the bundle
+      expect(await readFile(path.join(tempDir, `20260206-${result.sessionId}.md`), 'utf8')).toBe(
+        `# Plan ${result.sessionId}\n`
+      );
+      // The local plan is untouched
+      expect((await pm.loadEvents('dp-testABCD'))?.[0].session.sessionId).toBe('dp-testABCD');
+    });
+
+    it('should replace the local plan when asked', async () => {
+      await saveFinalizedPlan();
+      const bundle = (await pm.exportPlan('dp-testABCD')) as PlanBundle;
+      await pm.appendEvent(makeSession({ phase: 'revise' }));
+
+      const result = await pm.importPlan(bundle, { onCollision: 'replace' });
+
+      expect(result).toMatchObject({ sessionId: 'dp-testABCD', events: 2, replaced: true });
+      expect((await pm.loadSession('dp-testABCD'))?.phase).toBe('done');
+    });
+
+    it('should reject bundles whose log cannot be loaded', async () => {
+      const bundle: PlanBundle = {
+        format: BUNDLE_FORMAT,
+        bundleVersion: BUNDLE_VERSION,
+        exportedAt: '2026-03-01T00:00:00.000Z',
+        sessionId: 'dp-testABCD',
+        index: null,
+        log: '',
+        markdown: null,
+      };
+
+      await expect(other.importPlan({ ...bundle, log: 'not json\n' })).rejects.toThrow(
+        "The bundle's log cannot be loaded: Line 1 is not a valid event"
+      );
+      await expect(other.importPlan({ ...bundle, log: '' })).rejects.toThrow(
+        "The bundle's log has no events"
+      );
+      const foreign = JSON.stringify({ timestamp: 't', phase: 'init', session: makeSession() });
+      await expect(
+        other.importPlan({ ...bundle, sessionId: 'dp-other123', log: foreign })
+      ).rejects.toThrow('Event 0 of the bundle\'s log belongs to session "dp-testABCD"');
+      expect(await readdir(otherDir)).toEqual([]);
+    });
+  });
+
   describe('rebuildIndex', () => {
+    it('should rebuild the index from delta logs', async () => {
+      const session = makeSession({ sessionId: 'dp-delta01', phase: 'explore' });
+      await pm.appendEvent(session);
+      await pm.appendEvent({ ...session, phase: 'evaluate', selectedApproach: 'a' });
+
+      const index = await pm.rebuildIndex();
+
+      expect(index['dp-delta01']).toMatchObject({ phase: 'evaluate', selectedBranch: 'a' });
+    });
+
     it('should rebuild index from JSONL files', async () => {
       // Write two JSONL session files directly
       const session1 = makeSession({
@@ -484,6 +1679,18 @@ describe('PersistenceManager', () => {
       consoleSpy.mockRestore();
     });
 
+    it('should keep archive flags from the previous index', async () => {
+      const session = makeSession({ sessionId: 'dp-archived' });
+      await pm.appendEvent(session);
+      await pm.updateIndex(
+        'dp-archived',
+        makeIndexEntry({ archivedAt: '2026-03-01T00:00:00.000Z' })
+      );
+
+      const index = await pm.rebuildIndex();
+      expect(index['dp-archived']?.archivedAt).toBe('2026-03-01T00:00:00.000Z');
+    });
+
     it('should persist rebuilt index to disk', async () => {
       const session = makeSession({ sessionId: 'dp-persisted' });
       const event = JSON.stringify({
@@ -517,6 +1724,151 @@ describe('PersistenceManager', () => {
     });
   });
 
+  // ─── Archive & Delete ───────────────────────────────────────────────────
+
+  describe('archivePlan', () => {
+    it('should set and clear archivedAt on the index entry', async () => {
+      await pm.updateIndex('dp-testABCD', makeIndexEntry());
+      const now = new Date('2026-03-01T00:00:00.000Z');
+
+      expect(await pm.archivePlan('dp-testABCD', true, now)).toBe(true);
+      expect((await pm.readIndex())['dp-testABCD']?.archivedAt).toBe('2026-03-01T00:00:00.000Z');
+
+      expect(await pm.archivePlan('dp-testABCD', false)).toBe(true);
+      expect((await pm.readIndex())['dp-testABCD']).not.toHaveProperty('archivedAt');
+    });
+
+    it('should return false for unknown plans', async () => {
+      expect(await pm.archivePlan('dp-missing1')).toBe(false);
+    });
+  });
+
+  describe('deletePlan', () => {
+    it('should remove the log, Markdown files and index entry', async () => {
+      const session = makeSession({ phase: 'done' });
+      await pm.appendEvent(session);
+      await pm.writeMarkdownPlan(session, '# Plan');
+      await pm.updateIndex(
+        'dp-testABCD',
+        makeIndexEntry({ filePaths: { jsonl: 'dp-testABCD.jsonl', markdown: null } })
+      );
+      await pm.updateIndex('dp-other123', makeIndexEntry());
+
+      expect(await pm.deletePlan('dp-testABCD')).toBe(true);
+
+      expect(await readdir(tempDir)).toEqual(['yggdrasil-plans-index.json']);
+      expect(Object.keys(await pm.readIndex())).toEqual(['dp-other123']);
+    });
+
+    it('should delete an unindexed log', async () => {
+      await pm.appendEvent(makeSession());
+
+      expect(await pm.deletePlan('dp-testABCD')).toBe(true);
+      expect(await pm.loadSession('dp-testABCD')).toBeNull();
+    });
+
+    it('should wait for pending appends before deleting', async () => {
+      pm.track(pm.appendEvent(makeSession()));
+
+      expect(await pm.deletePlan('dp-testABCD')).toBe(true);
+      expect(await pm.loadEvents('dp-testABCD')).toBeNull();
+    });
+
+    it('should return false when there is nothing to delete', async () => {
+      expect(await pm.deletePlan('dp-missing1')).toBe(false);
+    });
+
+    it('should refuse session IDs that are paths', async () => {
+      await writeFile(path.join(tempDir, 'outside.jsonl'), '{}\n');
+      vi.stubEnv('YGGDRASIL_PLANS_DIR', path.join(tempDir, 'nested'));
+
+      expect(await new PersistenceManager().deletePlan('../outside')).toBe(false);
+      expect(await readdir(tempDir)).toContain('outside.jsonl');
+    });
+  });
+
+  describe('applyRetention', () => {
+    const now = new Date('2026-03-31T00:00:00.000Z');
+
+    async function writeConfig(config: unknown): Promise<void> {
+      await writeFile(path.join(tempDir, 'yggdrasil-config.json'), JSON.stringify(config));
+    }
+
+    async function addPlan(
+      sessionId: string,
+      lastTouched: string,
+      overrides: Partial<PlanIndexEntry> = {}
+    ): Promise<void> {
+      await pm.appendEvent(makeSession({ sessionId }));
+      const when = new Date(lastTouched);
+      await utimes(path.join(tempDir, `${sessionId}.jsonl`), when, when);
+      await pm.updateIndex(
+        sessionId,
+        makeIndexEntry({ filePaths: { jsonl: `${sessionId}.jsonl`, markdown: null }, ...overrides })
+      );
+    }
+
+    it('should do nothing without a policy', async () => {
+      await addPlan('dp-stale001', '2025-01-01T00:00:00.000Z');
+
+      expect(await pm.applyRetention(now)).toEqual({ archived: [], deleted: [] });
+    });
+
+    it('should archive in-progress plans untouched for the configured days', async () => {
+      await writeConfig({ retention: { archiveAfterDays: 30 } });
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(vi.fn());
+      await addPlan('dp-stale001', '2026-02-01T00:00:00.000Z');
+      await addPlan('dp-fresh001', '2026-03-20T00:00:00.000Z');
+      await addPlan('dp-final001', '2026-01-01T00:00:00.000Z', { phase: 'done' });
+
+      const result = await pm.applyRetention(now);
+
+      expect(result).toEqual({ archived: ['dp-stale001'], deleted: [] });
+      expect((await pm.readIndex())['dp-stale001']?.archivedAt).toBe(now.toISOString());
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('archived 1, deleted 0'));
+      consoleSpy.mockRestore();
+    });
+
+    it('should fall back to createdAt when the log is missing', async () => {
+      await writeConfig({ retention: { archiveAfterDays: 30 } });
+      vi.spyOn(console, 'error').mockImplementation(vi.fn());
+      await pm.updateIndex(
+        'dp-nolog001',
+        makeIndexEntry({ createdAt: '2026-01-01T00:00:00.000Z' })
+      );
+
+      expect((await pm.applyRetention(now)).archived).toEqual(['dp-nolog001']);
+    });
+
+    it('should delete plans archived longer than the configured days', async () => {
+      await writeConfig({ retention: { deleteArchivedAfterDays: 60 } });
+      vi.spyOn(console, 'error').mockImplementation(vi.fn());
+      await addPlan('dp-old00001', '2025-12-01T00:00:00.000Z', {
+        archivedAt: '2026-01-01T00:00:00.000Z',
+      });
+      await addPlan('dp-new00001', '2025-12-01T00:00:00.000Z', {
+        archivedAt: '2026-03-01T00:00:00.000Z',
+      });
+
+      const result = await pm.applyRetention(now);
+
+      expect(result).toEqual({ archived: [], deleted: ['dp-old00001'] });
+      expect(Object.keys(await pm.readIndex())).toEqual(['dp-new00001']);
+    });
+
+    it('should ignore an invalid policy', async () => {
+      await writeConfig({ retention: { archiveAfterDays: -1 } });
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(vi.fn());
+      await addPlan('dp-stale001', '2025-01-01T00:00:00.000Z');
+
+      expect(await pm.applyRetention(now)).toEqual({ archived: [], deleted: [] });
+      expect(consoleSpy).toHaveBeenCalledWith(
+        expect.stringContaining('retention.archiveAfterDays must be a positive number')
+      );
+      consoleSpy.mockRestore();
+    });
+  });
+
   // ─── Integration: Full Session Persistence ──────────────────────────────
 
   describe('full session persistence', () => {
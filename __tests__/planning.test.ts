@@ -1,9 +1,10 @@
-import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { mkdir, mkdtemp, readdir, readFile, rm, utimes, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import path from 'node:path';
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
+import type { PlanDiff } from '../diff.js';
 import {
   calculateWeightedScore,
   DeepPlanningServer,
@@ -11,8 +12,13 @@ import {
   type DeepPlanningOutput,
   type EvaluationScores,
   type PlanningSession,
+  type PlanHistoryEntry,
+  type Evaluation,
+  normalizePlanRisk,
   normalizePlanStep,
+  summarizeEvaluations,
 } from '../planning.js';
+import { MemoryBackend } from '../storage.js';
 
 function parseOutput(
   result: Awaited<ReturnType<DeepPlanningServer['processPlanningStep']>>
@@ -71,12 +77,20 @@ async function evaluateApproach(
 
 describe('DeepPlanningServer', () => {
   let server: DeepPlanningServer;
+  let plansDir: string;
 
-  beforeEach(() => {
+  beforeEach(async () => {
+    plansDir = await mkdtemp(path.join(tmpdir(), 'ygg-planning-'));
+    vi.stubEnv('YGGDRASIL_PLANS_DIR', plansDir);
     vi.stubEnv('DISABLE_THOUGHT_LOGGING', 'true');
     server = new DeepPlanningServer();
   });
 
+  afterEach(async () => {
+    await server.getPersistence().flush();
+    await rm(plansDir, { recursive: true, force: true });
+  });
+
   // ─── Phase Transitions (Valid) ──────────────────────────────────────────
 
   describe('valid phase transitions', () => {
@@ -334,6 +348,31 @@ describe('DeepPlanningServer', () => {
       expect(output.message).toContain('not found');
     });
 
+    it('should explain why a saved session cannot be resumed', async () => {
+      const session = await initSession(resumeServer, { problem: 'Problem A' });
+      await resumeServer.getPersistence().flush();
+      await writeFile(
+        path.join(tempDir, 'dp-newer0001.jsonl'),
+        JSON.stringify({ timestamp: 't', phase: 'init', schemaVersion: 99, session: {} }) + '\n',
+        'utf8'
+      );
+
+      const result = await resumeServer.processPlanningStep({
+        phase: 'explore',
+        sessionId: 'dp-newer0001',
+        branchId: 'x',
+        name: 'X',
+      });
+      const output = parseOutput(result);
+
+      expect(result.isError).toBe(true);
+      expect(output.message).toBe(
+        'Session "dp-newer0001" cannot be loaded: Event 0: Written with schema version 99, but this server reads up to version 2; update yggdrasil'
+      );
+      // The active session is kept
+      expect((await addApproach(resumeServer, 'a1', 'A1')).sessionId).toBe(session.sessionId);
+    });
+
     it('should ignore sessionId on init phase', async () => {
       const sessionA = await initSession(resumeServer, { problem: 'Problem A' });
 
@@ -787,6 +826,36 @@ describe('DeepPlanningServer', () => {
       expect(plan).toHaveProperty('steps');
       expect(plan).toHaveProperty('risks');
     });
+
+    it('should reject malformed risks without changing the session', async () => {
+      const init = await initSession(server);
+      await addApproach(server, 'a', 'Approach A');
+      await evaluateApproach(server, 'a');
+
+      const result = await server.processPlanningStep({
+        phase: 'finalize',
+        selectedBranch: 'a',
+        steps: '[{"title":"Build"}]',
+        risks: '["Data loss"]',
+      });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Risk 1 must be an object');
+
+      const output = parseOutput(
+        await server.processPlanningStep({
+          phase: 'finalize',
+          selectedBranch: 'a',
+          risks: '[{"description":"Data loss"}]',
+        })
+      );
+      expect(output.status).toBe('complete');
+      await server.getPersistence().flush();
+
+      // A fresh server reads the finalized plan back from disk
+      const reloaded = await new DeepPlanningServer().getPersistence().loadSession(init.sessionId);
+      expect(reloaded?.steps).toEqual([]);
+      expect(reloaded?.risks).toEqual([{ description: 'Data loss', mitigation: '' }]);
+    });
   });
 
   // ─── Markdown Plan Sections ─────────────────────────────────────────────
@@ -890,6 +959,7 @@ describe('DeepPlanningServer', () => {
           phase: 'finalize',
           selectedBranch: 'a',
           steps: JSON.stringify([
+            { title: 'Scaffold', description: 'Create project' },
             {
               title: 'Setup',
               description: 'Install deps',
@@ -901,13 +971,81 @@ describe('DeepPlanningServer', () => {
         })
       );
 
-      expect(output.plan).toContain('### Step 1: Setup');
+      expect(output.plan).toContain('### Step 2: Setup');
       expect(output.plan).toContain('Install deps');
       expect(output.plan).toContain('**Files:** package.json');
       expect(output.plan).toContain('**Depends on:** Step 1');
       expect(output.plan).toContain('**Complexity:** low');
     });
 
+    it('should render execution order, parallel groups and critical path', async () => {
+      await initSession(server);
+      await addApproach(server, 'a', 'Test');
+      await evaluateApproach(server, 'a');
+
+      const output = parseOutput(
+        await server.processPlanningStep({
+          phase: 'finalize',
+          selectedBranch: 'a',
+          steps: JSON.stringify([
+            { title: 'Client', complexity: 'low' },
+            { title: 'Service', dependencies: [1] },
+            { title: 'Metrics', dependencies: [1], complexity: 'high' },
+            { title: 'Docs', dependencies: [2, 3], complexity: 'low' },
+          ]),
+        })
+      );
+
+      expect(output.plan).toContain('### Execution Order');
+      expect(output.plan).toContain('**Order:** Step 1 → Step 2 → Step 3 → Step 4');
+      expect(output.plan).toContain('1. Step 1\n2. Step 2, Step 3\n3. Step 4');
+      expect(output.plan).toContain('**Critical path:** Step 1 → Step 3 → Step 4 (weight 5)');
+    });
+
+    it('should omit execution order when no step has dependencies', async () => {
+      await initSession(server);
+      await addApproach(server, 'a', 'Test');
+      await evaluateApproach(server, 'a');
+
+      const output = parseOutput(
+        await server.processPlanningStep({
+          phase: 'finalize',
+          selectedBranch: 'a',
+          steps: JSON.stringify([{ title: 'One' }, { title: 'Two' }]),
+        })
+      );
+      expect(output.plan).not.toContain('Execution Order');
+    });
+
+    it('should reject invalid step dependencies without finalizing', async () => {
+      await initSession(server);
+      await addApproach(server, 'a', 'Test');
+      await evaluateApproach(server, 'a');
+
+      const cyclic = parseOutput(
+        await server.processPlanningStep({
+          phase: 'finalize',
+          selectedBranch: 'a',
+          steps: JSON.stringify([
+            { title: 'One', dependencies: [2] },
+            { title: 'Two', dependencies: [1] },
+          ]),
+        })
+      );
+      expect(cyclic.status).toBe('error');
+      expect(cyclic.message).toContain('cycle');
+      expect(cyclic.phase).toBe('evaluate');
+
+      const missing = parseOutput(
+        await server.processPlanningStep({
+          phase: 'finalize',
+          selectedBranch: 'a',
+          steps: JSON.stringify([{ title: 'One', dependencies: [5] }]),
+        })
+      );
+      expect(missing.message).toContain('Valid steps: 1-1');
+    });
+
     it('should show pending clarifications', async () => {
       await initSession(server);
       parseOutput(
@@ -933,6 +1071,28 @@ describe('DeepPlanningServer', () => {
   // ─── JSON Plan Generation ──────────────────────────────────────────────
 
   describe('json plan generation', () => {
+    it('should include the dependency graph', async () => {
+      await initSession(server);
+      await addApproach(server, 'a', 'Test');
+      await evaluateApproach(server, 'a');
+
+      const output = parseOutput(
+        await server.processPlanningStep({
+          phase: 'finalize',
+          selectedBranch: 'a',
+          format: 'json',
+          steps: JSON.stringify([{ title: 'One' }, { title: 'Two', dependencies: [1] }]),
+        })
+      );
+      const plan = JSON.parse(output.plan ?? '{}') as { dependencyGraph: unknown };
+      expect(plan.dependencyGraph).toEqual({
+        order: [1, 2],
+        parallelGroups: [[1], [2]],
+        criticalPath: [1, 2],
+        criticalPathWeight: 4,
+      });
+    });
+
     it('should include rejected approaches with scores', async () => {
       await initSession(server);
       await addApproach(server, 'a', 'Winner');
@@ -956,137 +1116,1915 @@ describe('DeepPlanningServer', () => {
     });
   });
 
-  // ─── calculateWeightedScore ─────────────────────────────────────────────
+  // ─── Reasoning Trail ────────────────────────────────────────────────────
 
-  describe('calculateWeightedScore', () => {
-    it('should calculate perfect score as 10', () => {
-      const scores: EvaluationScores = {
-        feasibility: 10,
-        completeness: 10,
-        coherence: 10,
-        risk: 0,
-      };
-      expect(calculateWeightedScore(scores)).toBe(10);
+  describe('reasoning trail', () => {
+    let tempDir: string;
+    let trailServer: DeepPlanningServer;
+
+    beforeEach(async () => {
+      tempDir = await mkdtemp(path.join(tmpdir(), 'ygg-trail-'));
+      vi.stubEnv('YGGDRASIL_PLANS_DIR', tempDir);
+      trailServer = new DeepPlanningServer();
     });
 
-    it('should calculate worst score as 0', () => {
-      const scores: EvaluationScores = {
-        feasibility: 0,
-        completeness: 0,
-        coherence: 0,
-        risk: 10,
-      };
-      expect(calculateWeightedScore(scores)).toBe(0);
+    afterEach(async () => {
+      await trailServer.getPersistence().flush();
+      await rm(tempDir, { recursive: true, force: true });
     });
 
-    it('should calculate mid-range scores correctly', () => {
-      const scores: EvaluationScores = {
-        feasibility: 8,
-        completeness: 7,
-        coherence: 9,
-        risk: 3,
-      };
-      // (8*0.3) + (7*0.25) + (9*0.25) + (10-3)*0.2 = 2.4+1.75+2.25+1.4 = 7.8
-      expect(calculateWeightedScore(scores)).toBe(7.8);
+    it('should attach thoughts under the phase in progress', async () => {
+      const init = await initSession(trailServer, { problem: 'Caching' });
+      const thought = { thoughtNumber: 1, thought: 'What is hot?', totalThoughts: 2 };
+
+      expect(await trailServer.attachThought(init.sessionId, 'st-one', thought)).toBeNull();
+      await addApproach(trailServer, 'redis', 'Redis');
+      expect(
+        await trailServer.attachThought(init.sessionId, 'st-one', {
+          thoughtNumber: 2,
+          thought: 'Redis fits',
+          isRevision: true,
+        })
+      ).toBeNull();
+      await evaluateApproach(trailServer, 'redis');
+
+      const output = parseOutput(
+        await trailServer.processPlanningStep({ phase: 'finalize', selectedBranch: 'redis' })
+      );
+      expect(output.plan).toContain('## Reasoning Trail');
+      expect(output.plan).toContain('### Init\n- **st-one #1:** What is hot?');
+      expect(output.plan).toContain('### Explore\n- **st-one #2 (revision):** Redis fits');
     });
 
-    it('should round to 2 decimal places', () => {
-      const scores: EvaluationScores = {
-        feasibility: 7,
-        completeness: 6,
-        coherence: 8,
-        risk: 4,
-      };
-      // (7*0.3) + (6*0.25) + (8*0.25) + (10-4)*0.2 = 2.1+1.5+2.0+1.2 = 6.8
-      expect(calculateWeightedScore(scores)).toBe(6.8);
+    it('should mark branch thoughts with their branchId', async () => {
+      const init = await initSession(trailServer);
+      await trailServer.attachThought(init.sessionId, 'st-one', {
+        thoughtNumber: 2,
+        thought: 'Alternative',
+        branchId: 'alt',
+      });
+      await addApproach(trailServer, 'a', 'A');
+      await evaluateApproach(trailServer, 'a');
+
+      const output = parseOutput(
+        await trailServer.processPlanningStep({ phase: 'finalize', selectedBranch: 'a' })
+      );
+      expect(output.plan).toContain('- **st-one #2 (alt):** Alternative');
     });
 
-    it('should invert risk score (lower risk = higher contribution)', () => {
-      const lowRisk: EvaluationScores = { feasibility: 5, completeness: 5, coherence: 5, risk: 1 };
-      const highRisk: EvaluationScores = { feasibility: 5, completeness: 5, coherence: 5, risk: 9 };
+    it('should attach to a session on disk without switching the active session', async () => {
+      const planA = await initSession(trailServer, { problem: 'Plan A' });
+      const planB = await initSession(trailServer, { problem: 'Plan B' });
 
-      expect(calculateWeightedScore(lowRisk)).toBeGreaterThan(calculateWeightedScore(highRisk));
+      const error = await trailServer.attachThought(planA.sessionId, 'st-one', {
+        thoughtNumber: 1,
+        thought: 'About A',
+      });
+      expect(error).toBeNull();
+
+      const loaded = await trailServer.getPersistence().loadSession(planA.sessionId);
+      expect(loaded?.reasoningTrail).toHaveLength(1);
+      expect(loaded?.reasoningTrail?.[0]).toMatchObject({
+        phase: 'init',
+        thinkingSessionId: 'st-one',
+        thought: 'About A',
+      });
+
+      const next = await addApproach(trailServer, 'b', 'B');
+      expect(next.sessionId).toBe(planB.sessionId);
     });
-  });
 
-  // ─── Step Normalization ─────────────────────────────────────────────────
+    it('should include the reasoning trail in JSON plans', async () => {
+      const init = await initSession(trailServer);
+      await trailServer.attachThought(init.sessionId, 'st-one', { thoughtNumber: 1, thought: 'T' });
+      await addApproach(trailServer, 'a', 'A');
 
-  describe('normalizePlanStep', () => {
-    it('should pass through canonical title/description fields', () => {
-      const step = normalizePlanStep({ title: 'Setup', description: 'Install deps' }, 0);
-      expect(step.title).toBe('Setup');
-      expect(step.description).toBe('Install deps');
+      const output = parseOutput(
+        await trailServer.processPlanningStep({
+          phase: 'evaluate',
+          branchId: 'a',
+        })
+      );
+      expect(output.status).toBe('ok');
+      const finalized = parseOutput(
+        await trailServer.processPlanningStep({
+          phase: 'finalize',
+          selectedBranch: 'a',
+          format: 'json',
+        })
+      );
+      const plan = JSON.parse(finalized.plan ?? '{}') as { reasoningTrail: unknown[] };
+      expect(plan.reasoningTrail).toHaveLength(1);
     });
 
-    it('should map action to title and detail to description', () => {
-      const step = normalizePlanStep({ action: 'Deploy', detail: 'Push to prod' }, 0);
-      expect(step.title).toBe('Deploy');
-      expect(step.description).toBe('Push to prod');
+    it('should reject unknown planning sessions', async () => {
+      const error = await trailServer.attachThought('dp-missing1', 'st-one', {
+        thoughtNumber: 1,
+        thought: 'Lost',
+      });
+      expect(error).toContain('dp-missing1');
+      expect(error).toContain('not found');
     });
 
-    it('should map name to title and details to description', () => {
-      const step = normalizePlanStep({ name: 'Configure', details: 'Set env vars' }, 0);
-      expect(step.title).toBe('Configure');
-      expect(step.description).toBe('Set env vars');
+    it('should reject finalized planning sessions', async () => {
+      const init = await initSession(trailServer);
+      await addApproach(trailServer, 'a', 'A');
+      await evaluateApproach(trailServer, 'a');
+      await trailServer.processPlanningStep({ phase: 'finalize', selectedBranch: 'a' });
+
+      const error = await trailServer.attachThought(init.sessionId, 'st-one', {
+        thoughtNumber: 1,
+        thought: 'Too late',
+      });
+      expect(error).toContain('already finalized');
     });
 
-    it('should map step to title and info to description', () => {
-      const step = normalizePlanStep({ step: 'Test', info: 'Run vitest' }, 0);
-      expect(step.title).toBe('Test');
-      expect(step.description).toBe('Run vitest');
+    it('should omit the section when no thoughts were attached', async () => {
+      await initSession(trailServer);
+      await addApproach(trailServer, 'a', 'A');
+      const output = parseOutput(
+        await trailServer.processPlanningStep({ phase: 'evaluate', branchId: 'a' })
+      );
+      expect(output.status).toBe('ok');
+      const finalized = parseOutput(
+        await trailServer.processPlanningStep({ phase: 'finalize', selectedBranch: 'a' })
+      );
+      expect(finalized.plan).not.toContain('Reasoning Trail');
     });
+  });
 
-    it('should fall back to "Step N" when no title alias found', () => {
-      const step = normalizePlanStep({ order: 1 }, 2);
-      expect(step.title).toBe('Step 3');
-      expect(step.description).toBe('');
+  // ─── Undo Phase ─────────────────────────────────────────────────────────
+
+  describe('undo phase', () => {
+    it('should roll back a mistaken evaluation', async () => {
+      await initSession(server);
+      await addApproach(server, 'a', 'Approach A');
+      await evaluateApproach(server, 'a', { feasibility: 1, recommendation: 'abandon' });
+
+      const output = parseOutput(await server.processPlanningStep({ phase: 'undo' }));
+
+      expect(output.status).toBe('ok');
+      expect(output.phase).toBe('explore');
+      expect(output.evaluationCount).toBe(0);
+      expect(output.approachCount).toBe(1);
+      expect(output.validNextPhases).toEqual(['explore', 'evaluate', 'clarify']);
+      expect(output.message).toContain('Undid the last "evaluate" step');
     });
 
-    it('should preserve optional fields (files, dependencies, complexity)', () => {
-      const step = normalizePlanStep(
-        { title: 'T', description: 'D', files: ['a.ts'], dependencies: [1], complexity: 'high' },
-        0
-      );
-      expect(step.files).toEqual(['a.ts']);
-      expect(step.dependencies).toEqual([1]);
-      expect(step.complexity).toBe('high');
+    it('should step further back on repeated undo', async () => {
+      await initSession(server);
+      await addApproach(server, 'a', 'Approach A');
+      await addApproach(server, 'b', 'Approach B');
+
+      const first = parseOutput(await server.processPlanningStep({ phase: 'undo' }));
+      const second = parseOutput(await server.processPlanningStep({ phase: 'undo' }));
+
+      expect(first.approachCount).toBe(1);
+      expect(second.phase).toBe('init');
+      expect(second.approachCount).toBe(0);
+
+      const third = await server.processPlanningStep({ phase: 'undo' });
+      expect(third.isError).toBe(true);
+      expect(parseOutput(third).message).toContain('Nothing to undo');
     });
 
-    it('should prefer canonical fields over aliases', () => {
-      const step = normalizePlanStep(
-        {
-          title: 'Canonical',
-          action: 'Alias',
-          description: 'Canonical Desc',
-          detail: 'Alias Desc',
-        },
-        0
-      );
-      expect(step.title).toBe('Canonical');
-      expect(step.description).toBe('Canonical Desc');
+    it('should undo the latest step after undoing and continuing', async () => {
+      await initSession(server);
+      await addApproach(server, 'a', 'Approach A');
+      await server.processPlanningStep({ phase: 'undo' });
+      await addApproach(server, 'b', 'Approach B');
+
+      const output = parseOutput(await server.processPlanningStep({ phase: 'undo' }));
+
+      expect(output.phase).toBe('init');
+      expect(output.approachCount).toBe(0);
     });
 
-    it('should fall back when title/description are non-string types', () => {
-      const step = normalizePlanStep({ title: 42, description: true }, 0);
-      expect(step.title).toBe('Step 1');
-      expect(step.description).toBe('');
+    it('should append undo events instead of truncating the log', async () => {
+      const init = await initSession(server);
+      await addApproach(server, 'a', 'Approach A');
+      await server.processPlanningStep({ phase: 'undo' });
+
+      const events = await server.getPersistence().loadEvents(init.sessionId);
+      expect(events?.map((e) => e.phase)).toEqual(['init', 'explore', 'undo']);
+      expect(events?.[2].restoredFrom).toBe(0);
+      expect(events?.[2].session.phase).toBe('init');
+
+      const history = JSON.parse(
+        (await server.planHistory({ sessionId: init.sessionId })).content[0].text
+      ) as { events: PlanHistoryEntry[] };
+      expect(history.events[2].changes[0]).toBe('Undid last step: back to event 0');
     });
 
-    it('should skip null alias values and check next alias', () => {
-      const step = normalizePlanStep({ title: null, action: 'Fallback Action' }, 0);
-      expect(step.title).toBe('Fallback Action');
+    it('should reopen the finalized plan when undoing a revise', async () => {
+      await initSession(server);
+      await addApproach(server, 'a', 'Approach A');
+      await evaluateApproach(server, 'a');
+      await server.processPlanningStep({ phase: 'finalize', selectedBranch: 'a' });
+      await server.processPlanningStep({ phase: 'revise' });
+
+      const output = parseOutput(await server.processPlanningStep({ phase: 'undo' }));
+
+      expect(output.phase).toBe('done');
+      expect(output.validNextPhases).toEqual(['init', 'revise']);
     });
 
-    it('should handle completely empty object', () => {
-      const step = normalizePlanStep({}, 4);
-      expect(step.title).toBe('Step 5');
-      expect(step.description).toBe('');
+    it('should require an active session', async () => {
+      const output = parseOutput(await server.processPlanningStep({ phase: 'undo' }));
+
+      expect(output.status).toBe('error');
+      expect(output.message).toContain('No active planning session');
+    });
+
+    it('should report sessions without a saved log', async () => {
+      vi.stubEnv('YGGDRASIL_PLANS_DIR', '/dev/null/impossible');
+      vi.spyOn(console, 'error').mockImplementation(vi.fn());
+      const unsaved = new DeepPlanningServer();
+      await initSession(unsaved);
+
+      const output = parseOutput(await unsaved.processPlanningStep({ phase: 'undo' }));
+
+      expect(output.status).toBe('error');
+      expect(output.message).toContain('No saved history');
+    });
+  });
+
+  // ─── Revise Phase ───────────────────────────────────────────────────────
+
+  describe('revise phase', () => {
+    async function finalizePlan(): Promise<DeepPlanningOutput> {
+      await initSession(server, { problem: 'Cache layer' });
+      await addApproach(server, 'a', 'Approach A');
+      await evaluateApproach(server, 'a');
+      return parseOutput(
+        await server.processPlanningStep({ phase: 'finalize', selectedBranch: 'a' })
+      );
+    }
+
+    it('should offer revise after finalize', async () => {
+      const finalized = await finalizePlan();
+      expect(finalized.validNextPhases).toEqual(['init', 'revise']);
+    });
+
+    it('should reopen a finalized plan as the next version', async () => {
+      await finalizePlan();
+      const output = parseOutput(
+        await server.processPlanningStep({ phase: 'revise', reason: 'Scope grew' })
+      );
+
+      expect(output.status).toBe('ok');
+      expect(output.phase).toBe('revise');
+      expect(output.message).toContain('version 2');
+      expect(output.validNextPhases).toEqual(['clarify', 'explore', 'evaluate', 'finalize']);
+      expect(output.approachCount).toBe(1);
+    });
+
+    it('should reject revise before the plan is finalized', async () => {
+      await initSession(server);
+      const output = parseOutput(await server.processPlanningStep({ phase: 'revise' }));
+
+      expect(output.status).toBe('error');
+      expect(output.message).toContain('Cannot transition from "init" to "revise"');
+    });
+
+    it('should replace an evaluation from an earlier version on re-evaluation', async () => {
+      await finalizePlan();
+      await server.processPlanningStep({ phase: 'revise' });
+
+      const reevaluated = await evaluateApproach(server, 'a', { feasibility: 2 });
+      expect(reevaluated.status).toBe('ok');
+      expect(reevaluated.evaluationCount).toBe(1);
+
+      const duplicate = await evaluateApproach(server, 'a');
+      expect(duplicate.status).toBe('error');
+    });
+
+    it('should re-finalize with version and revision history in the plan', async () => {
+      await finalizePlan();
+      await server.processPlanningStep({ phase: 'revise', reason: 'New requirements' });
+      await addApproach(server, 'b', 'Approach B');
+      await evaluateApproach(server, 'b');
+
+      const output = parseOutput(
+        await server.processPlanningStep({ phase: 'finalize', selectedBranch: 'b' })
+      );
+
+      expect(output.status).toBe('complete');
+      expect(output.message).toContain('as version 2');
+      expect(output.plan).toContain('# Plan: Approach B');
+      expect(output.plan).toContain('**Version:** 2');
+      expect(output.plan).toMatch(/- \*\*v2\*\* \(\d{4}-\d{2}-\d{2}\): New requirements/);
+    });
+
+    it('should keep every version in the log and track the version in the index', async () => {
+      const finalized = await finalizePlan();
+      const afterRevise = parseOutput(await server.processPlanningStep({ phase: 'revise' }));
+      const persistence = server.getPersistence();
+      await persistence.flush();
+      expect((await persistence.readIndex())[finalized.sessionId]).toMatchObject({
+        phase: 'revise',
+        finalizedAt: null,
+        version: 2,
+      });
+      expect(afterRevise.sessionId).toBe(finalized.sessionId);
+
+      await server.processPlanningStep({ phase: 'finalize', selectedBranch: 'a' });
+      await persistence.flush();
+
+      const entry = (await persistence.readIndex())[finalized.sessionId];
+      expect(entry).toMatchObject({ phase: 'done', version: 2 });
+      expect(entry?.finalizedAt).not.toBeNull();
+
+      const log = await persistence.getPlan(finalized.sessionId, 'jsonl');
+      const phases = log.content
+        .trim()
+        .split('\n')
+        .map((line) => (JSON.parse(line) as { phase: string }).phase);
+      expect(phases.filter((p) => p === 'done')).toHaveLength(2);
+      expect(phases).toContain('revise');
+    });
+
+    it('should let a revised plan collect more reasoning', async () => {
+      const finalized = await finalizePlan();
+      await server.processPlanningStep({ phase: 'revise' });
+
+      const error = await server.attachThought(finalized.sessionId, 'st-one', {
+        thoughtNumber: 1,
+        thought: 'Rethink',
+      });
+      expect(error).toBeNull();
+
+      const output = parseOutput(
+        await server.processPlanningStep({ phase: 'finalize', selectedBranch: 'a' })
+      );
+      expect(output.plan).toContain('### Revise\n- **st-one #1:** Rethink');
+    });
+  });
+
+  // ─── Forking ────────────────────────────────────────────────────────────
+
+  describe('plans index sync', () => {
+    it('should refresh the index entry on every step', async () => {
+      const init = await initSession(server);
+      await addApproach(server, 'a', 'Approach A');
+      await addApproach(server, 'b', 'Approach B');
+      await evaluateApproach(server, 'b');
+      await server.getPersistence().flush();
+
+      const entry = (await server.getPersistence().readIndex())[init.sessionId];
+      const session = await server.getPersistence().loadSession(init.sessionId);
+      expect(entry?.phase).toBe('evaluate');
+      expect(entry?.approachCount).toBe(2);
+      expect(entry?.topScore).toBe(session?.evaluations[0].weightedScore);
+      expect(entry?.updatedAt).toBe(session?.updatedAt);
+    });
+  });
+
+  describe('archivePlan and deletePlan', () => {
+    it('should archive and unarchive a saved plan', async () => {
+      const init = await initSession(server);
+      await server.getPersistence().flush();
+
+      const archived = await server.archivePlan({ sessionId: init.sessionId });
+      expect(JSON.parse(archived.content[0].text)).toMatchObject({
+        sessionId: init.sessionId,
+        status: 'ok',
+      });
+      expect(await server.getPersistence().listPlans()).toEqual([]);
+
+      const restored = await server.archivePlan({ sessionId: init.sessionId, archived: false });
+      expect(JSON.parse(restored.content[0].text).message).toContain('Unarchived');
+      expect(await server.getPersistence().listPlans()).toHaveLength(1);
+    });
+
+    it('should bring an archived plan back when work continues on it', async () => {
+      const init = await initSession(server);
+      await addApproach(server, 'a', 'Approach A');
+      await evaluateApproach(server, 'a');
+      await server.getPersistence().flush();
+      await server.archivePlan({ sessionId: init.sessionId });
+
+      await server.processPlanningStep({ phase: 'finalize', selectedBranch: 'a' });
+      await server.getPersistence().flush();
+
+      expect((await server.getPersistence().listPlans()).map((p) => p.sessionId)).toEqual([
+        init.sessionId,
+      ]);
+    });
+
+    it('should delete a plan and end it if it is active', async () => {
+      const init = await initSession(server);
+
+      const result = await server.deletePlan({ sessionId: init.sessionId });
+      expect(result.isError).toBeUndefined();
+      expect(await server.getPersistence().loadSession(init.sessionId)).toBeNull();
+
+      const next = parseOutput(
+        await server.processPlanningStep({ phase: 'clarify', question: 'Q?' })
+      );
+      expect(next.message).toContain('No active planning session');
+    });
+
+    it('should keep the active session when deleting another plan', async () => {
+      const first = await initSession(server);
+      await initSession(server, { problem: 'Second' });
+
+      await server.deletePlan({ sessionId: first.sessionId });
+
+      const next = parseOutput(
+        await server.processPlanningStep({ phase: 'clarify', question: 'Q?' })
+      );
+      expect(next.status).toBe('ok');
+    });
+
+    it('should report unknown plans', async () => {
+      const archived = await server.archivePlan({ sessionId: 'dp-missing1' });
+      const deleted = await server.deletePlan({ sessionId: 'dp-missing1' });
+
+      expect(archived.isError).toBe(true);
+      expect(deleted.isError).toBe(true);
+      expect(parseOutput(deleted).message).toContain('not found');
+    });
+  });
+
+  describe('verifyPlans and the startup check', () => {
+    async function finalizedPlan(): Promise<string> {
+      const init = await initSession(server);
+      await addApproach(server, 'a', 'Approach A');
+      await evaluateApproach(server, 'a');
+      await server.processPlanningStep({ phase: 'finalize', selectedBranch: 'a' });
+      await server.getPersistence().flush();
+      return init.sessionId;
+    }
+
+    it('should re-render a missing Markdown plan on repair', async () => {
+      const sessionId = await finalizedPlan();
+      const markdown = (await server.getPersistence().readIndex())[sessionId]?.filePaths.markdown;
+      await rm(path.join(plansDir, markdown ?? ''));
+
+      const result = await server.verifyPlans(true);
+
+      expect(result.repaired).toBe(1);
+      expect(await readFile(path.join(plansDir, markdown ?? ''), 'utf8')).toContain(
+        '# Plan: Approach A'
+      );
+    });
+
+    it('should report issues on startup without repairing by default', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(vi.fn());
+      const sessionId = await finalizedPlan();
+      await rm(path.join(plansDir, `${sessionId}.jsonl`));
+
+      const result = await server.runStartupCheck();
+
+      expect(result?.issues.map((i) => [i.kind, i.repaired])).toEqual([
+        ['missing-log', false],
+        ['orphaned-markdown', false],
+      ]);
+      expect(consoleSpy).toHaveBeenCalledWith(
+        '[yggdrasil] Plans check: 2 issue(s) in 1 plan(s), 0 repaired (run verify_plans with repair to fix)'
+      );
+      expect(consoleSpy).toHaveBeenCalledWith(
+        expect.stringContaining(`[yggdrasil]   missing-log: ${sessionId}.jsonl:`)
+      );
+      consoleSpy.mockRestore();
+    });
+
+    it('should repair on startup when configured to', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(vi.fn());
+      const sessionId = await finalizedPlan();
+      await rm(path.join(plansDir, 'yggdrasil-plans-index.json'));
+      await writeFile(
+        path.join(plansDir, 'yggdrasil-config.json'),
+        JSON.stringify({ startupCheck: 'repair' })
+      );
+
+      const result = await server.runStartupCheck();
+
+      expect(result?.repaired).toBe(1);
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('(repaired)'));
+      expect(await server.getPersistence().readIndex()).toHaveProperty(sessionId);
+      consoleSpy.mockRestore();
+    });
+
+    it('should skip the startup check when it is off or misconfigured', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(vi.fn());
+      const configPath = path.join(plansDir, 'yggdrasil-config.json');
+
+      await writeFile(configPath, JSON.stringify({ startupCheck: 'off' }));
+      expect(await server.runStartupCheck()).toBeNull();
+
+      await writeFile(configPath, JSON.stringify({ startupCheck: 'fix' }));
+      expect(await server.runStartupCheck()).toBeNull();
+      expect(consoleSpy).toHaveBeenCalledWith(
+        expect.stringContaining('[yggdrasil] Skipping startup check: startupCheck must be')
+      );
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('compactPlans', () => {
+    it('should compact a snapshot-style log and keep working from it', async () => {
+      const init = await initSession(server);
+      await addApproach(server, 'a', 'Approach A');
+      await addApproach(server, 'b', 'Approach B');
+      const persistence = server.getPersistence();
+      // Rewrite the log the way older versions stored it: the whole session on every line
+      const events = (await persistence.loadEvents(init.sessionId)) ?? [];
+      await writeFile(
+        path.join(plansDir, `${init.sessionId}.jsonl`),
+        events.map((e) => JSON.stringify(e) + '\n').join('')
+      );
+      await persistence.loadSession(init.sessionId);
+
+      const result = await server.compactPlans({ sessionId: init.sessionId });
+      const data = JSON.parse(result.content[0].text) as {
+        compacted: number;
+        bytesSaved: number;
+        plans: { events: number }[];
+      };
+
+      expect(data.compacted).toBe(1);
+      expect(data.bytesSaved).toBeGreaterThan(0);
+      expect(data.plans[0].events).toBe(events.length);
+      await evaluateApproach(server, 'a');
+      expect((await persistence.loadEvents(init.sessionId))?.map((e) => e.phase)).toEqual([
+        ...events.map((e) => e.phase),
+        'evaluate',
+      ]);
+    });
+
+    it('should report a session without a readable log', async () => {
+      const result = await server.compactPlans({ sessionId: 'dp-missing' });
+
+      expect(result.isError).toBe(true);
+      expect(parseOutput(result).message).toContain('No readable log for session "dp-missing"');
+    });
+
+    it('should compact every plan without a sessionId', async () => {
+      await initSession(server);
+      await server.getPersistence().flush();
+
+      const result = await server.compactPlans({});
+      const data = JSON.parse(result.content[0].text) as { compacted: number; plans: unknown[] };
+
+      expect(data).toMatchObject({ compacted: 0, bytesSaved: 0 });
+      expect(data.plans).toHaveLength(1);
+    });
+  });
+
+  describe('exportPlan & importPlan', () => {
+    let otherDir: string;
+
+    async function finalizedPlan(): Promise<string> {
+      const init = await initSession(server, { problem: 'Cache layer' });
+      await addApproach(server, 'a', 'Approach A');
+      await evaluateApproach(server, 'a');
+      await server.processPlanningStep({ phase: 'finalize', selectedBranch: 'a' });
+      return init.sessionId;
+    }
+
+    beforeEach(async () => {
+      otherDir = await mkdtemp(path.join(tmpdir(), 'ygg-bundle-'));
+    });
+
+    afterEach(async () => {
+      await rm(otherDir, { recursive: true, force: true });
+    });
+
+    it('should carry a plan to another plans directory as a bundle', async () => {
+      const sessionId = await finalizedPlan();
+      const exported = await server.exportPlan({ sessionId });
+      vi.stubEnv('YGGDRASIL_PLANS_DIR', otherDir);
+      const colleague = new DeepPlanningServer();
+
+      const result = await colleague.importPlan({ bundle: exported.content[0].text });
+
+      expect(parseOutput(result).message).toBe(
+        `Imported plan "${sessionId}" (4 events). Continue it with deep_planning and sessionId "${sessionId}".`
+      );
+      const plan = await colleague.getPersistence().getPlan(sessionId);
+      expect(plan).toMatchObject({ found: true, format: 'markdown' });
+      expect(plan.content).toContain('Cache layer');
+      const reopened = parseOutput(
+        await colleague.processPlanningStep({ phase: 'revise', sessionId, reason: 'Review' })
+      );
+      expect(reopened.status).toBe('ok');
+    });
+
+    it('should write and read bundle files', async () => {
+      const sessionId = await finalizedPlan();
+
+      const exported = parseOutput(await server.exportPlan({ sessionId, file: 'team/plan.json' }));
+      const imported = parseOutput(await server.importPlan({ file: 'team/plan.json' }));
+
+      expect(exported.message).toBe(
+        `Exported plan "${sessionId}" to ${path.join(plansDir, 'bundles', 'team', 'plan.json')}. Import it elsewhere with "import_plan".`
+      );
+      expect(imported.sessionId).not.toBe(sessionId);
+      expect(imported.message).toContain(
+        `Imported plan "${sessionId}" as "${imported.sessionId}" (4 events): a plan with its ID already exists here.`
+      );
+      expect(Object.keys(await server.getPersistence().readIndex())).toHaveLength(2);
+    });
+
+    it('should drop the active session when replacing it', async () => {
+      const sessionId = await finalizedPlan();
+      const bundle = (await server.exportPlan({ sessionId })).content[0].text;
+      await server.processPlanningStep({ phase: 'revise', reason: 'More work' });
+
+      const result = parseOutput(await server.importPlan({ bundle, onCollision: 'replace' }));
+
+      expect(result.message).toContain('replacing the local plan with that ID');
+      expect((await server.getPersistence().loadSession(sessionId))?.phase).toBe('done');
+      expect((await addApproach(server, 'b', 'B')).status).toBe('error');
+    });
+
+    it('should report missing plans and unusable bundles', async () => {
+      const missing = await server.exportPlan({ sessionId: 'dp-missing' });
+      const both = await server.importPlan({ bundle: '{}', file: 'plan.json' });
+      const invalid = await server.importPlan({ bundle: '{}' });
+      const outside = await server.exportPlan({
+        sessionId: await finalizedPlan(),
+        file: path.join(otherDir, 'plan.json'),
+      });
+      const escaping = await server.importPlan({ file: '../yggdrasil-plans-index.json' });
+
+      expect(parseOutput(missing).message).toContain('Session "dp-missing" not found');
+      expect(parseOutput(both).message).toBe('Pass exactly one of "bundle" and "file".');
+      expect(parseOutput(invalid).message).toBe(
+        'Failed to read bundle: Not a plan bundle: "format" must be "yggdrasil-plan-bundle"'
+      );
+      const bundles = path.join(plansDir, 'bundles');
+      expect(parseOutput(outside).message).toBe(
+        `Failed to write bundle: Bundle files must be inside ${bundles}; got "${path.join(otherDir, 'plan.json')}"`
+      );
+      expect(parseOutput(escaping).message).toBe(
+        `Failed to read bundle: Bundle files must be inside ${bundles}; got "../yggdrasil-plans-index.json"`
+      );
+      expect(await readdir(otherDir)).toEqual([]);
+    });
+
+    it('should report bundles whose log cannot be imported', async () => {
+      const sessionId = await finalizedPlan();
+      const bundle = JSON.parse((await server.exportPlan({ sessionId })).content[0].text) as {
+        log: string;
+      };
+
+      const result = await server.importPlan({
+        bundle: JSON.stringify({ ...bundle, log: 'not json' }),
+      });
+
+      expect(result.isError).toBe(true);
+      expect(parseOutput(result).message).toBe(
+        "The bundle's log cannot be loaded: Line 1 is not a valid event"
+      );
+    });
+  });
+
+  describe('project roots', () => {
+    let workspace: string;
+    let api: string;
+    let web: string;
+
+    /** A project whose .claude/settings.json keeps its plans in <root>/plans. */
+    async function makeProject(name: string): Promise<string> {
+      const root = path.join(workspace, name);
+      await mkdir(path.join(root, '.claude'), { recursive: true });
+      await writeFile(
+        path.join(root, '.claude', 'settings.json'),
+        JSON.stringify({ plansDirectory: 'plans' })
+      );
+      return root;
+    }
+
+    async function logsIn(root: string): Promise<string[]> {
+      const files = await readdir(path.join(root, 'plans')).catch(() => []);
+      return files.filter((f) => f.endsWith('.jsonl'));
+    }
+
+    beforeEach(async () => {
+      workspace = await mkdtemp(path.join(tmpdir(), 'ygg-roots-'));
+      api = await makeProject('api');
+      web = await makeProject('web');
+      vi.stubEnv('YGGDRASIL_PLANS_DIR', '');
+    });
+
+    afterEach(async () => {
+      await rm(workspace, { recursive: true, force: true });
+    });
+
+    it("should save sessions in the startup project's plans directory", async () => {
+      const rooted = new DeepPlanningServer(api);
+      const init = await initSession(rooted);
+      await rooted.getPersistence().flush();
+
+      expect(rooted.getPersistence().getPlansDir()).toBe(path.join(api, 'plans'));
+      expect(await logsIn(api)).toEqual([`${init.sessionId}.jsonl`]);
+    });
+
+    it('should start new sessions in the first workspace root', async () => {
+      const rooted = new DeepPlanningServer();
+      rooted.setProjectRoots([api, web]);
+      const first = await initSession(rooted);
+
+      // The active session stays in its directory when the roots change
+      rooted.setProjectRoots([web]);
+      await addApproach(rooted, 'a', 'Approach A');
+      const second = await initSession(rooted);
+      await rooted.getPersistence().flush();
+
+      expect(rooted.getProjectRoots()).toEqual([web]);
+      expect(await logsIn(api)).toEqual([`${first.sessionId}.jsonl`]);
+      expect(await logsIn(web)).toEqual([`${second.sessionId}.jsonl`]);
+      expect((await rooted.getPersistence().loadEvents(second.sessionId))?.length).toBe(1);
+    });
+
+    it('should keep the startup project ahead of workspace roots', () => {
+      const rooted = new DeepPlanningServer(api);
+      rooted.setProjectRoots([web, api]);
+
+      expect(rooted.getProjectRoots()).toEqual([api, web]);
+      expect(rooted.getPersistence().getPlansDir()).toBe(path.join(api, 'plans'));
+    });
+
+    it('should list plans of the current project or of every root', async () => {
+      const rooted = new DeepPlanningServer();
+      rooted.setProjectRoots([api]);
+      const inApi = await initSession(rooted, { problem: 'API cache' });
+      rooted.setProjectRoots([web, api]);
+      const inWeb = await initSession(rooted, { problem: 'Web cache' });
+
+      const current = await rooted.listPlans({});
+      const all = await rooted.listPlans({ allRoots: true, keyword: 'cache', sortBy: 'created' });
+
+      expect(current.plans.map((p) => p.sessionId)).toEqual([inWeb.sessionId]);
+      expect(current.plans[0].plansDir).toBeUndefined();
+      expect(all.total).toBe(2);
+      expect(all.plans.map((p) => [p.sessionId, p.plansDir]).toSorted()).toEqual(
+        [
+          [inApi.sessionId, path.join(api, 'plans')],
+          [inWeb.sessionId, path.join(web, 'plans')],
+        ].toSorted()
+      );
+      const page = await rooted.listPlans({ allRoots: true, limit: 1 });
+      const next = await rooted.listPlans({
+        allRoots: true,
+        limit: 1,
+        cursor: page.nextCursor ?? '',
+      });
+      expect([...page.plans, ...next.plans]).toHaveLength(2);
+      expect(next.nextCursor).toBeNull();
+    });
+
+    it('should resume a session saved under another root', async () => {
+      const rooted = new DeepPlanningServer();
+      rooted.setProjectRoots([api]);
+      const inApi = await initSession(rooted);
+      rooted.setProjectRoots([web, api]);
+      await initSession(rooted);
+
+      const resumed = await addApproach(rooted, 'a', 'Approach A', { sessionId: inApi.sessionId });
+      await rooted.getPersistence().flush();
+
+      expect(resumed.status).toBe('ok');
+      expect(rooted.getPersistence().getPlansDir()).toBe(path.join(api, 'plans'));
+      expect((await rooted.getPersistence().loadSession(inApi.sessionId))?.approaches).toHaveLength(
+        1
+      );
+    });
+    it('should apply retention in plans directories of roots added later', async () => {
+      const inWeb = await initSession(new DeepPlanningServer(web));
+      await writeFile(
+        path.join(web, 'plans', 'yggdrasil-config.json'),
+        JSON.stringify({ retention: { archiveAfterDays: 1 } })
+      );
+      const old = new Date(Date.now() - 2 * 86_400_000);
+      await utimes(path.join(web, 'plans', `${inWeb.sessionId}.jsonl`), old, old);
+      const archivedIn = async (): Promise<string | undefined> =>
+        (await new DeepPlanningServer(web).getPersistence().readIndex())[inWeb.sessionId]
+          ?.archivedAt;
+
+      const rooted = new DeepPlanningServer(api);
+      await rooted.maintainPlans();
+      expect(await archivedIn()).toBeUndefined();
+
+      rooted.setProjectRoots([web]);
+      await rooted.maintainPlans();
+      expect(await archivedIn()).toBeDefined();
+    });
+
+    it('should find a saved session under any root for the plan tools', async () => {
+      const rooted = new DeepPlanningServer();
+      rooted.setProjectRoots([api]);
+      const inApi = await initSession(rooted, { problem: 'API cache' });
+      rooted.setProjectRoots([web, api]);
+      await initSession(rooted, { problem: 'Web cache' });
+      const sessionId = inApi.sessionId;
+      const apiPlans = path.join(api, 'plans');
+
+      expect((await rooted.persistenceOf(sessionId)).getPlansDir()).toBe(apiPlans);
+      expect((await rooted.planHistory({ sessionId })).isError).toBeUndefined();
+      expect((await rooted.exportPlan({ sessionId })).isError).toBeUndefined();
+      expect((await rooted.archivePlan({ sessionId })).isError).toBeUndefined();
+      expect(
+        (await rooted.updatePlanMetadata({ sessionId, addTags: '["api"]' })).isError
+      ).toBeUndefined();
+      await rooted.getPersistence().flush();
+      const persistence = await rooted.persistenceOf(sessionId);
+      await persistence.flush();
+      expect((await persistence.loadSession(sessionId))?.tags).toEqual(['api']);
+      expect((await persistence.readIndex())[sessionId]?.archivedAt).toBeDefined();
+
+      // A fork is saved next to its parent
+      const fork = parseOutput(await rooted.forkPlan({ sessionId }));
+      await persistence.flush();
+      expect(await logsIn(api)).toContain(`${fork.sessionId}.jsonl`);
+
+      const results = await rooted.searchPlans('cache', { allRoots: true, includeArchived: true });
+      expect(results.map((r) => r.plansDir).toSorted()).toEqual(
+        [apiPlans, apiPlans, path.join(web, 'plans')].toSorted()
+      );
+      expect((await rooted.searchPlans('cache'))[0].plansDir).toBeUndefined();
+
+      expect((await rooted.deletePlan({ sessionId })).isError).toBeUndefined();
+      expect(await logsIn(api)).toEqual([`${fork.sessionId}.jsonl`]);
+    });
+
+    it('should keep every root in an injected storage backend', async () => {
+      const storage = new MemoryBackend();
+      const rooted = new DeepPlanningServer(undefined, storage);
+      rooted.setProjectRoots([api, web]);
+      const init = await initSession(rooted, { problem: 'API cache' });
+      await rooted.getPersistence().flush();
+
+      expect(rooted.getPersistence().getStorage()).toBe(storage);
+      expect(await storage.read(`${init.sessionId}.jsonl`)).not.toBeNull();
+      expect(await logsIn(api)).toEqual([]);
+      expect(await rooted.searchPlans('cache', { allRoots: true })).toHaveLength(1);
+    });
+  });
+
+  describe('concurrent servers', () => {
+    it('should reload a session another server changed instead of overwriting it', async () => {
+      const init = await initSession(server);
+      await server.getPersistence().flush();
+
+      // A second editor window resumes the same session and records a step
+      const other = new DeepPlanningServer();
+      await other.processPlanningStep({
+        phase: 'clarify',
+        sessionId: init.sessionId,
+        question: 'Scale?',
+        answer: '10k rps',
+      });
+      await other.getPersistence().flush();
+
+      const blocked = await addApproach(server, 'a', 'Approach A');
+      expect(blocked.status).toBe('error');
+      expect(blocked.message).toContain('was changed by another process');
+      expect(blocked.phase).toBe('clarify');
+
+      const retried = await addApproach(server, 'a', 'Approach A');
+      expect(retried.status).toBe('ok');
+      await server.getPersistence().flush();
+      const events = await server.getPersistence().loadEvents(init.sessionId);
+      expect(events?.map((e) => e.phase)).toEqual(['init', 'clarify', 'explore']);
+      expect(events?.[2].session.clarifications).toHaveLength(1);
+    });
+
+    it('should still detect the change after reading plans from disk', async () => {
+      const init = await initSession(server);
+      await server.getPersistence().flush();
+
+      const other = new DeepPlanningServer();
+      await other.processPlanningStep({
+        phase: 'clarify',
+        sessionId: init.sessionId,
+        question: 'Scale?',
+        answer: '10k rps',
+      });
+      await other.getPersistence().flush();
+
+      // Searching loads every plan, including the changed one, without resuming it
+      await server.getPersistence().searchPlans('cache');
+      const blocked = await addApproach(server, 'a', 'Approach A');
+      expect(blocked.status).toBe('error');
+      expect(blocked.message).toContain('was changed by another process');
+    });
+
+    it('should report a step whose event another server beat to the log', async () => {
+      const init = await initSession(server);
+      await server.getPersistence().flush();
+
+      // The other server writes after this one checked the log but before it appended
+      const other = new DeepPlanningServer();
+      const persistence = server.getPersistence();
+      const append = persistence.appendEvent.bind(persistence);
+      vi.spyOn(persistence, 'appendEvent').mockImplementationOnce(async (...args) => {
+        await other.processPlanningStep({
+          phase: 'clarify',
+          sessionId: init.sessionId,
+          question: 'Scale?',
+          answer: '10k rps',
+        });
+        await other.getPersistence().flush();
+        return append(...args);
+      });
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(vi.fn());
+
+      const lost = await addApproach(server, 'a', 'Approach A');
+      expect(lost.status).toBe('error');
+      expect(lost.message).toContain('was changed by another process');
+      expect(lost.phase).toBe('clarify');
+      expect(lost.approachCount).toBe(0);
+
+      // Undo now reverts the other server's step rather than the lost one
+      const undone = parseOutput(
+        await server.processPlanningStep({ phase: 'undo', sessionId: init.sessionId })
+      );
+      expect(undone.phase).toBe('init');
+      consoleSpy.mockRestore();
+    });
+
+    it('should end the session when another server deleted it', async () => {
+      const init = await initSession(server);
+      await server.getPersistence().flush();
+      await new DeepPlanningServer().deletePlan({ sessionId: init.sessionId });
+
+      const blocked = await addApproach(server, 'a', 'Approach A');
+      expect(blocked.message).toBe(`Session "${init.sessionId}" was deleted by another process.`);
+      expect((await addApproach(server, 'a', 'Approach A')).message).toContain(
+        'No active planning session'
+      );
+    });
+
+    it('should check for changes before editing the active session metadata', async () => {
+      const init = await initSession(server);
+      await server.getPersistence().flush();
+      const other = new DeepPlanningServer();
+      await other.updatePlanMetadata({ sessionId: init.sessionId, owner: 'bob' });
+      await other.getPersistence().flush();
+
+      const blocked = await server.updatePlanMetadata({
+        sessionId: init.sessionId,
+        owner: 'alice',
+      });
+      expect(blocked.isError).toBe(true);
+
+      await server.updatePlanMetadata({ sessionId: init.sessionId, project: 'api' });
+      await server.getPersistence().flush();
+      expect(await server.getPersistence().loadSession(init.sessionId)).toMatchObject({
+        owner: 'bob',
+        project: 'api',
+      });
+    });
+  });
+
+  describe('plan metadata', () => {
+    it('should store tags, owner and project from init in the session and index', async () => {
+      const init = await initSession(server, {
+        tags: '["backend", " cache ", "backend", ""]',
+        owner: 'platform-team',
+        project: 'api',
+      });
+      await server.getPersistence().flush();
+
+      const session = await server.getPersistence().loadSession(init.sessionId);
+      const entry = (await server.getPersistence().readIndex())[init.sessionId];
+      expect(session).toMatchObject({
+        tags: ['backend', 'cache'],
+        owner: 'platform-team',
+        project: 'api',
+      });
+      expect(entry).toMatchObject({
+        tags: ['backend', 'cache'],
+        owner: 'platform-team',
+        project: 'api',
+      });
+    });
+
+    it('should reject tags that are not a JSON array', async () => {
+      const result = await server.processPlanningStep({
+        phase: 'init',
+        problem: 'Test problem',
+        tags: 'backend',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Invalid JSON for tags');
+    });
+
+    it('should render metadata under the plan title', async () => {
+      await initSession(server, { tags: '["backend"]', owner: 'alice', project: 'api' });
+      await addApproach(server, 'a', 'Approach A');
+      await evaluateApproach(server, 'a');
+      const output = parseOutput(
+        await server.processPlanningStep({ phase: 'finalize', selectedBranch: 'a' })
+      );
+
+      expect(output.plan).toContain('**Owner:** alice · **Project:** api · **Tags:** backend');
+    });
+
+    it('should add, remove and replace tags and set or clear owner and project', async () => {
+      const init = await initSession(server, { tags: '["backend", "cache"]', owner: 'alice' });
+      const { sessionId } = init;
+
+      const added = await server.updatePlanMetadata({
+        sessionId,
+        addTags: '["perf"]',
+        removeTags: '["cache"]',
+        project: 'api',
+      });
+      expect(JSON.parse(added.content[0].text).message).toBe(
+        'Updated metadata: Set project: api; Added tag: perf; Removed tag: cache.'
+      );
+
+      await server.updatePlanMetadata({ sessionId, tags: '["infra"]', owner: '' });
+      await server.getPersistence().flush();
+
+      const session = await server.getPersistence().loadSession(sessionId);
+      expect(session?.tags).toEqual(['infra']);
+      expect(session?.owner).toBeUndefined();
+      expect(session?.project).toBe('api');
+      expect(session?.phase).toBe('init');
+      const entry = (await server.getPersistence().readIndex())[sessionId];
+      expect(entry?.tags).toEqual(['infra']);
+      expect(entry).not.toHaveProperty('owner');
+    });
+
+    it('should update a saved plan that is not the active session', async () => {
+      const first = await initSession(server);
+      await initSession(server, { problem: 'Second' });
+
+      await server.updatePlanMetadata({ sessionId: first.sessionId, owner: 'bob' });
+      await server.getPersistence().flush();
+
+      const plans = await server.getPersistence().listPlans({ owner: 'BOB' });
+      expect(plans.map((p) => p.sessionId)).toEqual([first.sessionId]);
+    });
+
+    it('should re-render a finalized plan and keep an archived plan archived', async () => {
+      const init = await initSession(server);
+      await addApproach(server, 'a', 'Approach A');
+      await evaluateApproach(server, 'a');
+      await server.processPlanningStep({ phase: 'finalize', selectedBranch: 'a' });
+      await server.getPersistence().flush();
+      await server.archivePlan({ sessionId: init.sessionId });
+
+      await server.updatePlanMetadata({ sessionId: init.sessionId, project: 'api' });
+      await server.getPersistence().flush();
+
+      const entry = (await server.getPersistence().readIndex())[init.sessionId];
+      expect(entry?.archivedAt).toBeDefined();
+      expect(entry?.finalizedAt).not.toBeNull();
+      const markdown = await readFile(path.join(plansDir, entry?.filePaths.markdown ?? ''), 'utf8');
+      expect(markdown).toContain('**Project:** api');
+    });
+
+    it('should record metadata edits in the history and undo them', async () => {
+      const init = await initSession(server);
+      await server.updatePlanMetadata({ sessionId: init.sessionId, addTags: '["backend"]' });
+
+      const history = JSON.parse(
+        (await server.planHistory({ sessionId: init.sessionId })).content[0].text
+      ) as { events: PlanHistoryEntry[] };
+      expect(history.events[1]).toMatchObject({
+        phase: 'metadata',
+        changes: ['Added tag: backend'],
+      });
+
+      await server.processPlanningStep({ phase: 'undo' });
+      await server.getPersistence().flush();
+      expect((await server.getPersistence().loadSession(init.sessionId))?.tags).toBeUndefined();
+    });
+
+    it('should report unknown sessions, bad tag JSON and no-op edits', async () => {
+      const init = await initSession(server, { owner: 'alice' });
+
+      const missing = await server.updatePlanMetadata({ sessionId: 'dp-missing1', owner: 'x' });
+      expect(missing.isError).toBe(true);
+      expect(parseOutput(missing).message).toContain('not found');
+
+      const invalid = await server.updatePlanMetadata({
+        sessionId: init.sessionId,
+        addTags: '{"a":1}',
+      });
+      expect(invalid.isError).toBe(true);
+      expect(parseOutput(invalid).message).toBe('addTags must be a JSON array');
+
+      const unchanged = await server.updatePlanMetadata({
+        sessionId: init.sessionId,
+        owner: ' alice ',
+      });
+      expect(JSON.parse(unchanged.content[0].text).message).toBe('Metadata unchanged.');
+    });
+  });
+
+  describe('forkPlan', () => {
+    async function exploredPlan(): Promise<string> {
+      const init = await initSession(server, {
+        problem: 'Cache layer',
+        constraints: '["Low latency"]',
+      });
+      await server.processPlanningStep({ phase: 'clarify', question: 'Scale?', answer: '10k rps' });
+      await addApproach(server, 'redis', 'Redis');
+      return init.sessionId;
+    }
+
+    it('should copy the latest state into a new active session', async () => {
+      const parentId = await exploredPlan();
+
+      const result = await server.forkPlan({ sessionId: parentId });
+      const output = parseOutput(result);
+
+      expect(result.isError).toBeUndefined();
+      expect(output.sessionId).toMatch(/^dp-[A-Za-z0-9]{8}$/);
+      expect(output.sessionId).not.toBe(parentId);
+      expect(output.phase).toBe('explore');
+      expect(output.approachCount).toBe(1);
+      expect(output.message).toContain('at event 2');
+
+      // The fork is active: new work lands on it, not on the parent
+      await addApproach(server, 'memcached', 'Memcached');
+      const persistence = server.getPersistence();
+      const fork = await persistence.loadSession(output.sessionId);
+      const parent = await persistence.loadSession(parentId);
+      expect(fork?.approaches).toHaveLength(2);
+      expect(fork?.clarifications).toEqual([{ question: 'Scale?', answer: '10k rps' }]);
+      expect(fork?.forkedFrom).toEqual({ sessionId: parentId, eventIndex: 2, phase: 'explore' });
+      expect(parent?.approaches).toHaveLength(1);
+    });
+
+    it('should fork from an earlier event', async () => {
+      const parentId = await exploredPlan();
+
+      const output = parseOutput(await server.forkPlan({ sessionId: parentId, atEvent: 0 }));
+
+      expect(output.phase).toBe('init');
+      expect(output.approachCount).toBe(0);
+    });
+
+    it('should record lineage in the plans index', async () => {
+      const parentId = await exploredPlan();
+      const output = parseOutput(await server.forkPlan({ sessionId: parentId, atEvent: 1 }));
+      await server.getPersistence().flush();
+
+      const plans = await server.getPersistence().listPlans();
+      expect(plans.find((p) => p.sessionId === parentId)?.forks).toEqual([output.sessionId]);
+      expect(plans.find((p) => p.sessionId === output.sessionId)?.forkedFrom).toEqual({
+        sessionId: parentId,
+        eventIndex: 1,
+      });
+    });
+
+    it('should open a fork of a finalized plan in the revise phase', async () => {
+      const parentId = await exploredPlan();
+      await evaluateApproach(server, 'redis');
+      await server.processPlanningStep({ phase: 'finalize', selectedBranch: 'redis' });
+      await server.processPlanningStep({ phase: 'revise' });
+      await server.processPlanningStep({ phase: 'finalize', selectedBranch: 'redis' });
+
+      const forked = parseOutput(await server.forkPlan({ sessionId: parentId }));
+      expect(forked.phase).toBe('revise');
+      expect(forked.validNextPhases).toContain('explore');
+
+      const output = parseOutput(
+        await server.processPlanningStep({ phase: 'finalize', selectedBranch: 'redis' })
+      );
+      expect(output.message).not.toContain('version');
+      expect(output.plan).toContain(`**Forked from:** ${parentId} (event 6, done phase)`);
+    });
+
+    it('should reject unknown sessions and out-of-range events', async () => {
+      const missing = await server.forkPlan({ sessionId: 'dp-missing1' });
+      expect(missing.isError).toBe(true);
+      expect(parseOutput(missing).message).toContain('not found');
+
+      const parentId = await exploredPlan();
+      const outOfRange = await server.forkPlan({ sessionId: parentId, atEvent: 9 });
+      expect(outOfRange.isError).toBe(true);
+      expect(parseOutput(outOfRange).message).toContain('Valid events: 0-2');
+    });
+  });
+
+  describe('diffPlans', () => {
+    it('should compare two events of one session', async () => {
+      const init = await initSession(server, { constraints: '["Low latency"]' });
+      await addApproach(server, 'redis', 'Redis');
+      await evaluateApproach(server, 'redis');
+
+      const result = await server.diffPlans({ sessionId: init.sessionId, fromEvent: 0 });
+      const diff = JSON.parse(result.content[0].text) as PlanDiff;
+
+      expect(result.isError).toBeUndefined();
+      expect(diff.from).toEqual({ sessionId: init.sessionId, eventIndex: 0, phase: 'init' });
+      expect(diff.to).toEqual({ sessionId: init.sessionId, eventIndex: 2, phase: 'evaluate' });
+      expect(diff.approaches.added.map((a) => a.branchId)).toEqual(['redis']);
+      expect(diff.evaluations.added).toHaveLength(1);
+      expect(diff.constraints).toEqual({ added: [], removed: [] });
+      expect(result.content[1].text).toContain('# Plan Diff');
+      expect(result.content[1].text).toContain('- Added: Redis (redis)');
+    });
+
+    it('should compare a plan with its fork', async () => {
+      const parent = await initSession(server);
+      await addApproach(server, 'redis', 'Redis');
+      const fork = parseOutput(await server.forkPlan({ sessionId: parent.sessionId }));
+      await addApproach(server, 'memcached', 'Memcached');
+
+      const result = await server.diffPlans({
+        sessionId: parent.sessionId,
+        otherSessionId: fork.sessionId,
+      });
+      const diff = JSON.parse(result.content[0].text) as PlanDiff;
+
+      expect(diff.to.sessionId).toBe(fork.sessionId);
+      expect(diff.approaches.added.map((a) => a.branchId)).toEqual(['memcached']);
+      expect(diff.approaches.removed).toEqual([]);
+    });
+
+    it('should require something to compare', async () => {
+      const init = await initSession(server);
+
+      const result = await server.diffPlans({ sessionId: init.sessionId });
+
+      expect(result.isError).toBe(true);
+      expect(parseOutput(result).message).toContain('Nothing to compare');
+    });
+
+    it('should reject unknown sessions and out-of-range events', async () => {
+      const init = await initSession(server);
+
+      const missing = await server.diffPlans({
+        sessionId: init.sessionId,
+        otherSessionId: 'dp-missing1',
+      });
+      expect(missing.isError).toBe(true);
+      expect(parseOutput(missing).sessionId).toBe('dp-missing1');
+      expect(parseOutput(missing).message).toContain('not found');
+
+      const outOfRange = await server.diffPlans({ sessionId: init.sessionId, fromEvent: 5 });
+      expect(outOfRange.isError).toBe(true);
+      expect(parseOutput(outOfRange).message).toContain('Valid events: 0-0');
+    });
+  });
+
+  describe('planHistory', () => {
+    async function historyOf(sessionId: string): Promise<{ events: PlanHistoryEntry[] }> {
+      const result = await server.planHistory({ sessionId });
+      return JSON.parse(result.content[0].text) as { events: PlanHistoryEntry[] };
+    }
+
+    it('should report a session that fails validation', async () => {
+      const session = { sessionId: 'dp-invalid1', problem: 'Cache layer', phase: 'unknown' };
+      await writeFile(
+        path.join(plansDir, 'dp-invalid1.jsonl'),
+        JSON.stringify({ timestamp: 't', phase: 'init', session }) + '\n',
+        'utf8'
+      );
+
+      const result = await server.planHistory({ sessionId: 'dp-invalid1' });
+
+      expect(result.isError).toBe(true);
+      expect(parseOutput(result).message).toBe(
+        'Session "dp-invalid1" cannot be loaded: Event 0: session.constraints must be a list, got undefined'
+      );
+    });
+
+    it('should list each event with what it changed', async () => {
+      const init = await initSession(server, { problem: 'Cache layer' });
+      await server.processPlanningStep({ phase: 'clarify', question: 'Scale?', answer: '10k rps' });
+      await addApproach(server, 'redis', 'Redis');
+      await evaluateApproach(server, 'redis');
+
+      const { events } = await historyOf(init.sessionId);
+
+      expect(events.map((e) => e.phase)).toEqual(['init', 'clarify', 'explore', 'evaluate']);
+      expect(events[0].changes).toEqual(['Started session: Cache layer']);
+      expect(events[1].changes).toEqual(['Added clarification: Scale? → 10k rps']);
+      expect(events[2].changes).toEqual(['Added approach: Redis (redis)']);
+      expect(events[3].changes[0]).toMatch(/^Added evaluation: redis: \d+\.\d{2}\/10 \(pursue\)$/);
+      expect(events[3].event).toBe(3);
+    });
+
+    it('should note version bumps', async () => {
+      const init = await initSession(server);
+      await addApproach(server, 'redis', 'Redis');
+      await evaluateApproach(server, 'redis');
+      await server.processPlanningStep({ phase: 'finalize', selectedBranch: 'redis' });
+      await server.processPlanningStep({ phase: 'revise', reason: 'New constraint' });
+
+      const { events } = await historyOf(init.sessionId);
+
+      expect(events[3].changes).toContain('Selected approach: redis');
+      expect(events[4].changes).toEqual(['Reopened as version 2']);
+    });
+
+    it('should restore an earlier event as the active session', async () => {
+      const init = await initSession(server);
+      await addApproach(server, 'redis', 'Redis');
+      await evaluateApproach(server, 'redis', { feasibility: 1, recommendation: 'abandon' });
+
+      const result = await server.planHistory({
+        sessionId: init.sessionId,
+        action: 'restore',
+        atEvent: 1,
+      });
+      const output = parseOutput(result);
+
+      expect(result.isError).toBeUndefined();
+      expect(output.phase).toBe('explore');
+      expect(output.evaluationCount).toBe(0);
+      expect(output.message).toContain('Restored');
+
+      // The bad evaluation can be redone on the restored session
+      const redo = await evaluateApproach(server, 'redis');
+      expect(redo.evaluationCount).toBe(1);
+
+      const { events } = await historyOf(init.sessionId);
+      expect(events).toHaveLength(5);
+      expect(events[3].restoredFrom).toBe(1);
+      expect(events[3].changes[0]).toBe('Restored to event 1');
+      expect(events[3].changes[1]).toMatch(/^Removed evaluation: redis/);
+    });
+
+    it('should re-render the plan when restoring a finalized state', async () => {
+      const init = await initSession(server);
+      await addApproach(server, 'redis', 'Redis');
+      await evaluateApproach(server, 'redis');
+      await server.processPlanningStep({ phase: 'finalize', selectedBranch: 'redis' });
+      await server.processPlanningStep({ phase: 'revise' });
+
+      const output = parseOutput(
+        await server.restorePlan({ sessionId: init.sessionId, atEvent: 3 })
+      );
+      await server.getPersistence().flush();
+
+      expect(output.phase).toBe('done');
+      const plans = await server.getPersistence().listPlans();
+      const entry = plans.find((p) => p.sessionId === init.sessionId);
+      expect(entry?.phase).toBe('done');
+      expect(entry?.filePaths.markdown).toMatch(new RegExp(`${init.sessionId}\\.md$`));
+    });
+
+    it('should fork from an event', async () => {
+      const init = await initSession(server);
+      await addApproach(server, 'redis', 'Redis');
+
+      const output = parseOutput(
+        await server.planHistory({ sessionId: init.sessionId, action: 'fork', atEvent: 0 })
+      );
+
+      expect(output.sessionId).not.toBe(init.sessionId);
+      expect(output.approachCount).toBe(0);
+    });
+
+    it('should reject restoring the latest event or without atEvent', async () => {
+      const init = await initSession(server);
+      await addApproach(server, 'redis', 'Redis');
+
+      const latest = await server.restorePlan({ sessionId: init.sessionId, atEvent: 1 });
+      expect(latest.isError).toBe(true);
+      expect(parseOutput(latest).message).toContain('already the latest state');
+
+      const missingEvent = await server.planHistory({
+        sessionId: init.sessionId,
+        action: 'restore',
+      });
+      expect(missingEvent.isError).toBe(true);
+      expect(parseOutput(missingEvent).message).toContain('requires "atEvent"');
+
+      const outOfRange = await server.restorePlan({ sessionId: init.sessionId, atEvent: 7 });
+      expect(parseOutput(outOfRange).message).toContain('Valid events: 0-1');
+    });
+
+    it('should report unknown sessions', async () => {
+      const result = await server.planHistory({ sessionId: 'dp-missing1' });
+
+      expect(result.isError).toBe(true);
+      expect(parseOutput(result).message).toContain('not found');
+    });
+  });
+
+  // ─── Evaluation Criteria ────────────────────────────────────────────────
+
+  describe('evaluation criteria', () => {
+    let tempDir: string;
+    let criteriaServer: DeepPlanningServer;
+
+    const customCriteria = JSON.stringify([
+      { name: 'cost', weight: 2, lowerIsBetter: true },
+      { name: 'speed', weight: 1 },
+    ]);
+
+    beforeEach(async () => {
+      tempDir = await mkdtemp(path.join(tmpdir(), 'ygg-criteria-'));
+      vi.stubEnv('YGGDRASIL_PLANS_DIR', tempDir);
+      criteriaServer = new DeepPlanningServer();
+    });
+
+    afterEach(async () => {
+      await criteriaServer.getPersistence().flush();
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should score against criteria given on init', async () => {
+      await initSession(criteriaServer, { criteria: customCriteria });
+      await addApproach(criteriaServer, 'a', 'A');
+
+      const output = parseOutput(
+        await criteriaServer.processPlanningStep({
+          phase: 'evaluate',
+          branchId: 'a',
+          scores: JSON.stringify({ cost: 1, speed: 6 }),
+        })
+      );
+      // (9 * 2 + 6 * 1) / 3 = 8
+      expect(output.status).toBe('ok');
+      expect(output.message).toContain('8.00/10');
+    });
+
+    it('should list criteria and per-criterion scores in the finalized plan', async () => {
+      await initSession(criteriaServer, { criteria: customCriteria });
+      await addApproach(criteriaServer, 'a', 'A');
+      await criteriaServer.processPlanningStep({
+        phase: 'evaluate',
+        branchId: 'a',
+        scores: JSON.stringify({ cost: 4 }),
+      });
+
+      const markdown = parseOutput(
+        await criteriaServer.processPlanningStep({ phase: 'finalize', selectedBranch: 'a' })
+      );
+      expect(markdown.plan).toContain('## Evaluation Criteria');
+      expect(markdown.plan).toContain('| Cost | 2 | lower is better |');
+      expect(markdown.plan).toContain('| Cost | 4/10 |');
+      expect(markdown.plan).toContain('| Speed | 5/10 |');
+      expect(markdown.plan).not.toContain('Feasibility');
+    });
+
+    it('should list the default criteria in plans without custom ones', async () => {
+      await initSession(criteriaServer);
+      await addApproach(criteriaServer, 'a', 'A');
+      await evaluateApproach(criteriaServer, 'a');
+
+      const markdown = parseOutput(
+        await criteriaServer.processPlanningStep({ phase: 'finalize', selectedBranch: 'a' })
+      );
+      expect(markdown.plan).toContain('## Evaluation Criteria');
+      expect(markdown.plan).toContain('| Feasibility | 0.3 | higher is better |');
+      expect(markdown.plan).toContain('| Risk | 0.2 | lower is better |');
+    });
+
+    it('should include criteria and scores in JSON plans', async () => {
+      await initSession(criteriaServer);
+      await addApproach(criteriaServer, 'a', 'A');
+      await evaluateApproach(criteriaServer, 'a');
+
+      const output = parseOutput(
+        await criteriaServer.processPlanningStep({
+          phase: 'finalize',
+          selectedBranch: 'a',
+          format: 'json',
+        })
+      );
+      const plan = JSON.parse(output.plan ?? '{}') as {
+        criteria: { name: string }[];
+        selectedApproach: { scores: EvaluationScores };
+      };
+      expect(plan.criteria.map((c) => c.name)).toEqual([
+        'feasibility',
+        'completeness',
+        'coherence',
+        'risk',
+      ]);
+      expect(plan.selectedApproach.scores).toEqual({
+        feasibility: 8,
+        completeness: 7,
+        coherence: 9,
+        risk: 3,
+      });
+    });
+
+    it('should reject scores for unknown criteria', async () => {
+      await initSession(criteriaServer, { criteria: customCriteria });
+      await addApproach(criteriaServer, 'a', 'A');
+
+      const output = await evaluateApproach(criteriaServer, 'a');
+      expect(output.status).toBe('error');
+      expect(output.message).toContain('Unknown criterion "feasibility"');
+      expect(output.message).toContain('cost, speed');
+    });
+
+    it('should reject out-of-range and malformed scores', async () => {
+      await initSession(criteriaServer);
+      await addApproach(criteriaServer, 'a', 'A');
+
+      const outOfRange = await evaluateApproach(criteriaServer, 'a', {
+        scores: JSON.stringify({ risk: 11 }),
+      });
+      expect(outOfRange.message).toContain('between 0 and 10');
+
+      const notObject = await criteriaServer.processPlanningStep({
+        phase: 'evaluate',
+        branchId: 'a',
+        scores: '[1]',
+      });
+      expect(notObject.isError).toBe(true);
+      expect(notObject.content[0].text).toContain('must be a JSON object');
+
+      const badJson = await criteriaServer.processPlanningStep({
+        phase: 'evaluate',
+        branchId: 'a',
+        scores: '{oops',
+      });
+      expect(badJson.content[0].text).toContain('Invalid JSON for scores');
+    });
+
+    it('should let scores override the named score fields', async () => {
+      await initSession(criteriaServer);
+      await addApproach(criteriaServer, 'a', 'A');
+
+      const output = await evaluateApproach(criteriaServer, 'a', {
+        scores: JSON.stringify({ risk: 0 }),
+      });
+      // 8*0.3 + 7*0.25 + 9*0.25 + 10*0.2 = 8.4
+      expect(output.message).toContain('8.40/10');
+    });
+
+    it('should reject invalid criteria on init', async () => {
+      const cases = [
+        ['[]', 'non-empty array'],
+        ['[{"weight":1}]', 'needs a "name"'],
+        ['[{"name":"cost","weight":0}]', 'positive numeric "weight"'],
+        ['[{"name":"cost","weight":1},{"name":"cost","weight":2}]', 'Duplicate criterion "cost"'],
+      ];
+      for (const [criteria, message] of cases) {
+        const result = await criteriaServer.processPlanningStep({
+          phase: 'init',
+          problem: 'Test problem',
+          criteria,
+        });
+        const output = JSON.parse(result.content[0].text) as { error: string; status: string };
+        expect(output.status).toBe('failed');
+        expect(output.error).toContain(message);
+      }
+    });
+
+    it('should read default criteria from yggdrasil-config.json', async () => {
+      await writeFile(
+        path.join(tempDir, 'yggdrasil-config.json'),
+        JSON.stringify({ criteria: [{ name: 'impact', weight: 1 }] })
+      );
+      await initSession(criteriaServer);
+      await addApproach(criteriaServer, 'a', 'A');
+
+      const output = await evaluateApproach(criteriaServer, 'a', {
+        feasibility: undefined,
+        completeness: undefined,
+        coherence: undefined,
+        risk: undefined,
+        scores: JSON.stringify({ impact: 7 }),
+      });
+      expect(output.message).toContain('7.00/10');
+    });
+
+    it('should prefer init criteria over the config file', async () => {
+      await writeFile(
+        path.join(tempDir, 'yggdrasil-config.json'),
+        JSON.stringify({ criteria: [{ name: 'impact', weight: 1 }] })
+      );
+      const init = await initSession(criteriaServer, { criteria: customCriteria });
+
+      const loaded = await criteriaServer.getPersistence().loadSession(init.sessionId);
+      expect(loaded?.criteria?.map((c) => c.name)).toEqual(['cost', 'speed']);
+    });
+
+    it('should fall back to defaults when the config criteria are invalid', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      await writeFile(
+        path.join(tempDir, 'yggdrasil-config.json'),
+        JSON.stringify({ criteria: [{ name: 'impact' }] })
+      );
+      await initSession(criteriaServer);
+      await addApproach(criteriaServer, 'a', 'A');
+
+      const output = await evaluateApproach(criteriaServer, 'a');
+      expect(output.status).toBe('ok');
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('Ignoring config criteria'));
+      errorSpy.mockRestore();
+    });
+  });
+
+  // ─── Multiple Evaluators ────────────────────────────────────────────────
+
+  describe('multiple evaluators', () => {
+    beforeEach(async () => {
+      await initSession(server);
+      await addApproach(server, 'a', 'Approach A');
+      await addApproach(server, 'b', 'Approach B');
+    });
+
+    it('should accept one evaluation per evaluator for the same branch', async () => {
+      expect((await evaluateApproach(server, 'a', { evaluatorId: 'alice' })).status).toBe('ok');
+      const second = await evaluateApproach(server, 'a', { evaluatorId: 'bob' });
+
+      expect(second.status).toBe('ok');
+      expect(second.evaluationCount).toBe(2);
+      expect(second.message).toContain('Aggregate:');
+    });
+
+    it('should reject a second evaluation from the same evaluator', async () => {
+      await evaluateApproach(server, 'a', { evaluatorId: 'alice' });
+      const output = await evaluateApproach(server, 'a', { evaluatorId: 'alice' });
+
+      expect(output.status).toBe('error');
+      expect(output.message).toContain('by evaluator "alice" already exists');
+    });
+
+    it('should report aggregates and flag disagreement in the markdown plan', async () => {
+      await evaluateApproach(server, 'a', { evaluatorId: 'alice', rationale: 'Solid' });
+      await evaluateApproach(server, 'a', {
+        evaluatorId: 'bob',
+        feasibility: 2,
+        rationale: 'Too hard',
+        recommendation: 'refine',
+      });
+
+      const output = parseOutput(
+        await server.processPlanningStep({ phase: 'finalize', selectedBranch: 'a' })
+      );
+      expect(output.plan).toContain('(mean of 2 evaluators, median');
+      expect(output.plan).toContain('**Disagreement:**');
+      expect(output.plan).toContain('| alice | 7.80/10 | pursue | Solid |');
+      expect(output.plan).toContain('| bob | 6.00/10 | refine | Too hard |');
+      expect(output.plan).toContain('| Feasibility | 5/10 |');
+    });
+
+    it('should not flag evaluators who agree', async () => {
+      await evaluateApproach(server, 'a', { evaluatorId: 'alice' });
+      await evaluateApproach(server, 'a', { evaluatorId: 'bob', coherence: 8 });
+
+      const output = parseOutput(
+        await server.processPlanningStep({ phase: 'finalize', selectedBranch: 'a' })
+      );
+      expect(output.plan).toContain('**Score:** 7.68/10');
+      expect(output.plan).not.toContain('Disagreement');
+    });
+
+    it('should aggregate rejected approaches', async () => {
+      await evaluateApproach(server, 'a');
+      await evaluateApproach(server, 'b', { evaluatorId: 'alice', recommendation: 'abandon' });
+      await evaluateApproach(server, 'b', { evaluatorId: 'bob', recommendation: 'pursue' });
+
+      const output = parseOutput(
+        await server.processPlanningStep({ phase: 'finalize', selectedBranch: 'a' })
+      );
+      expect(output.plan).toContain('**Recommendation:** abandon');
+      expect(output.plan).toContain('**Disagreement:** evaluators diverge on this approach.');
+    });
+
+    it('should include aggregates and raw evaluations in JSON plans', async () => {
+      await evaluateApproach(server, 'a', { evaluatorId: 'alice' });
+      await evaluateApproach(server, 'a', { evaluatorId: 'bob', risk: 9 });
+
+      const output = parseOutput(
+        await server.processPlanningStep({
+          phase: 'finalize',
+          selectedBranch: 'a',
+          format: 'json',
+        })
+      );
+      const plan = JSON.parse(output.plan ?? '{}') as {
+        selectedApproach: {
+          score: number;
+          aggregate: { disagreement: boolean };
+          evaluations: Evaluation[];
+        };
+      };
+      expect(plan.selectedApproach.score).toBe(7.2);
+      expect(plan.selectedApproach.aggregate.disagreement).toBe(false);
+      expect(plan.selectedApproach.evaluations.map((e) => e.evaluatorId)).toEqual(['alice', 'bob']);
+    });
+  });
+
+  // ─── summarizeEvaluations ───────────────────────────────────────────────
+
+  describe('summarizeEvaluations', () => {
+    const evaluation = (
+      weightedScore: number,
+      recommendation: Evaluation['recommendation'] = 'pursue'
+    ): Evaluation => ({ branchId: 'a', scores: {}, weightedScore, rationale: '', recommendation });
+
+    it('should return undefined for an unevaluated branch', () => {
+      expect(summarizeEvaluations([evaluation(5)], 'b')).toBeUndefined();
+    });
+
+    it('should compute mean, median and spread', () => {
+      expect(summarizeEvaluations([evaluation(4), evaluation(9), evaluation(5)], 'a')).toEqual({
+        branchId: 'a',
+        evaluatorCount: 3,
+        mean: 6,
+        median: 5,
+        spread: 5,
+        recommendation: 'pursue',
+        disagreement: true,
+      });
+    });
+
+    it('should average the middle scores for an even count', () => {
+      const summary = summarizeEvaluations([evaluation(6), evaluation(7)], 'a');
+      expect(summary?.median).toBe(6.5);
+      expect(summary?.disagreement).toBe(false);
+    });
+
+    it('should pick the most common recommendation and break ties cautiously', () => {
+      const majority = summarizeEvaluations(
+        [evaluation(7, 'pursue'), evaluation(7, 'pursue'), evaluation(7, 'refine')],
+        'a'
+      );
+      expect(majority?.recommendation).toBe('pursue');
+      expect(majority?.disagreement).toBe(true);
+
+      const tie = summarizeEvaluations([evaluation(7, 'pursue'), evaluation(7, 'abandon')], 'a');
+      expect(tie?.recommendation).toBe('abandon');
+    });
+  });
+
+  // ─── calculateWeightedScore ─────────────────────────────────────────────
+
+  describe('calculateWeightedScore', () => {
+    it('should calculate perfect score as 10', () => {
+      const scores: EvaluationScores = {
+        feasibility: 10,
+        completeness: 10,
+        coherence: 10,
+        risk: 0,
+      };
+      expect(calculateWeightedScore(scores)).toBe(10);
+    });
+
+    it('should calculate worst score as 0', () => {
+      const scores: EvaluationScores = {
+        feasibility: 0,
+        completeness: 0,
+        coherence: 0,
+        risk: 10,
+      };
+      expect(calculateWeightedScore(scores)).toBe(0);
+    });
+
+    it('should calculate mid-range scores correctly', () => {
+      const scores: EvaluationScores = {
+        feasibility: 8,
+        completeness: 7,
+        coherence: 9,
+        risk: 3,
+      };
+      // (8*0.3) + (7*0.25) + (9*0.25) + (10-3)*0.2 = 2.4+1.75+2.25+1.4 = 7.8
+      expect(calculateWeightedScore(scores)).toBe(7.8);
+    });
+
+    it('should round to 2 decimal places', () => {
+      const scores: EvaluationScores = {
+        feasibility: 7,
+        completeness: 6,
+        coherence: 8,
+        risk: 4,
+      };
+      // (7*0.3) + (6*0.25) + (8*0.25) + (10-4)*0.2 = 2.1+1.5+2.0+1.2 = 6.8
+      expect(calculateWeightedScore(scores)).toBe(6.8);
+    });
+
+    it('should invert risk score (lower risk = higher contribution)', () => {
+      const lowRisk: EvaluationScores = { feasibility: 5, completeness: 5, coherence: 5, risk: 1 };
+      const highRisk: EvaluationScores = { feasibility: 5, completeness: 5, coherence: 5, risk: 9 };
+
+      expect(calculateWeightedScore(lowRisk)).toBeGreaterThan(calculateWeightedScore(highRisk));
+    });
+
+    it('should normalize custom criteria weights', () => {
+      const criteria = [
+        { name: 'cost', weight: 3, lowerIsBetter: true },
+        { name: 'speed', weight: 1 },
+      ];
+      // (8 * 3 + 4 * 1) / 4 = 7
+      expect(calculateWeightedScore({ cost: 2, speed: 4 }, criteria)).toBe(7);
+    });
+
+    it('should count missing scores as 5', () => {
+      expect(calculateWeightedScore({}, [{ name: 'impact', weight: 1 }])).toBe(5);
+    });
+  });
+
+  // ─── Step Normalization ─────────────────────────────────────────────────
+
+  describe('normalizePlanStep', () => {
+    it('should pass through canonical title/description fields', () => {
+      const step = normalizePlanStep({ title: 'Setup', description: 'Install deps' }, 0);
+      expect(step.title).toBe('Setup');
+      expect(step.description).toBe('Install deps');
+    });
+
+    it('should map action to title and detail to description', () => {
+      const step = normalizePlanStep({ action: 'Deploy', detail: 'Push to prod' }, 0);
+      expect(step.title).toBe('Deploy');
+      expect(step.description).toBe('Push to prod');
+    });
+
+    it('should map name to title and details to description', () => {
+      const step = normalizePlanStep({ name: 'Configure', details: 'Set env vars' }, 0);
+      expect(step.title).toBe('Configure');
+      expect(step.description).toBe('Set env vars');
+    });
+
+    it('should map step to title and info to description', () => {
+      const step = normalizePlanStep({ step: 'Test', info: 'Run vitest' }, 0);
+      expect(step.title).toBe('Test');
+      expect(step.description).toBe('Run vitest');
+    });
+
+    it('should fall back to "Step N" when no title alias found', () => {
+      const step = normalizePlanStep({ order: 1 }, 2);
+      expect(step.title).toBe('Step 3');
+      expect(step.description).toBe('');
+    });
+
+    it('should preserve optional fields (files, dependencies, complexity)', () => {
+      const step = normalizePlanStep(
+        { title: 'T', description: 'D', files: ['a.ts'], dependencies: [1], complexity: 'high' },
+        0
+      );
+      expect(step.files).toEqual(['a.ts']);
+      expect(step.dependencies).toEqual([1]);
+      expect(step.complexity).toBe('high');
+    });
+
+    it('should reject dependencies that are not a list of step numbers', () => {
+      for (const dependencies of ['1, 2', 2, { step: 1 }, [1, '2'], [1.5]]) {
+        expect(() => normalizePlanStep({ title: 'Deploy', dependencies }, 2)).toThrow(
+          new TypeError(
+            'Step 3 ("Deploy"): dependencies must be an array of step numbers, e.g. [1, 2]'
+          )
+        );
+      }
+      expect(normalizePlanStep({ title: 'Deploy', dependencies: null }, 2)).not.toHaveProperty(
+        'dependencies'
+      );
+    });
+
+    it('should prefer canonical fields over aliases', () => {
+      const step = normalizePlanStep(
+        {
+          title: 'Canonical',
+          action: 'Alias',
+          description: 'Canonical Desc',
+          detail: 'Alias Desc',
+        },
+        0
+      );
+      expect(step.title).toBe('Canonical');
+      expect(step.description).toBe('Canonical Desc');
+    });
+
+    it('should fall back when title/description are non-string types', () => {
+      const step = normalizePlanStep({ title: 42, description: true }, 0);
+      expect(step.title).toBe('Step 1');
+      expect(step.description).toBe('');
+    });
+
+    it('should skip null alias values and check next alias', () => {
+      const step = normalizePlanStep({ title: null, action: 'Fallback Action' }, 0);
+      expect(step.title).toBe('Fallback Action');
+    });
+
+    it('should handle completely empty object', () => {
+      const step = normalizePlanStep({}, 4);
+      expect(step.title).toBe('Step 5');
+      expect(step.description).toBe('');
       expect(step.files).toBeUndefined();
       expect(step.dependencies).toBeUndefined();
       expect(step.complexity).toBeUndefined();
     });
   });
 
+  describe('normalizePlanRisk', () => {
+    it('should keep description and mitigation', () => {
+      expect(normalizePlanRisk({ description: 'Load', mitigation: 'Scale' }, 0)).toEqual({
+        description: 'Load',
+        mitigation: 'Scale',
+      });
+    });
+
+    it('should reject risks that are not description objects', () => {
+      for (const raw of ['Data loss', null, ['Load'], { mitigation: 'Scale' }]) {
+        expect(() => normalizePlanRisk(raw, 1)).toThrow('Risk 2 must be an object');
+      }
+      expect(() => normalizePlanRisk({ description: 'Load', mitigation: 3 }, 0)).toThrow(TypeError);
+    });
+  });
+
   describe('finalize with step aliases', () => {
     it('should render steps correctly when using action/detail field names', async () => {
       await initSession(server);
@@ -1211,6 +3149,7 @@ describe('DeepPlanningServer', () => {
       const silentServer = new DeepPlanningServer();
 
       await initSession(silentServer);
+      await silentServer.getPersistence().flush();
 
       expect(consoleSpy).not.toHaveBeenCalled();
       consoleSpy.mockRestore();
@@ -1222,6 +3161,7 @@ describe('DeepPlanningServer', () => {
       const loggingServer = new DeepPlanningServer();
 
       await initSession(loggingServer);
+      await loggingServer.getPersistence().flush();
 
       expect(consoleSpy).toHaveBeenCalled();
       consoleSpy.mockRestore();
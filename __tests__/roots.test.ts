@@ -0,0 +1,53 @@
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+import { describe, expect, it } from 'vitest';
+
+import { PROJECT_ROOT_FLAG, parseProjectRootArg, rootPaths } from '../roots.js';
+
+describe('parseProjectRootArg', () => {
+  it('should read the flag in either form and resolve it', () => {
+    expect(parseProjectRootArg([PROJECT_ROOT_FLAG, '/work/api'])).toBe('/work/api');
+    expect(parseProjectRootArg(['--verbose', `${PROJECT_ROOT_FLAG}=web`])).toBe(
+      path.resolve('web')
+    );
+  });
+
+  it('should be undefined without the flag', () => {
+    expect(parseProjectRootArg([])).toBeUndefined();
+    expect(parseProjectRootArg(['/work/api'])).toBeUndefined();
+  });
+
+  it('should reject the flag without a directory', () => {
+    expect(() => parseProjectRootArg([PROJECT_ROOT_FLAG])).toThrow(
+      '--project-root needs a directory'
+    );
+    expect(() => parseProjectRootArg([PROJECT_ROOT_FLAG, '--verbose'])).toThrow(
+      '--project-root needs a directory'
+    );
+    expect(() => parseProjectRootArg([`${PROJECT_ROOT_FLAG}=`])).toThrow(
+      '--project-root needs a directory'
+    );
+  });
+});
+
+describe('rootPaths', () => {
+  it('should turn file URIs into directories, in order and once each', () => {
+    const api = path.resolve('/work/api');
+    const web = path.resolve('/work/web');
+
+    expect(
+      rootPaths([
+        { uri: pathToFileURL(web).href },
+        { uri: pathToFileURL(api).href },
+        { uri: pathToFileURL(web).href },
+      ])
+    ).toEqual([web, api]);
+  });
+
+  it('should skip roots that are not local directories', () => {
+    expect(rootPaths([{ uri: 'https://example.com/repo' }, { uri: 'file://host/share' }])).toEqual(
+      []
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+
+import type { PlanningSession } from '../planning.js';
+import { type Migration, migrateSession, SCHEMA_VERSION, validateSession } from '../schema.js';
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+function makeSession(overrides: Partial<PlanningSession> = {}): PlanningSession {
+  return {
+    sessionId: 'dp-schema01',
+    problem: 'Cache layer',
+    constraints: [],
+    phase: 'explore',
+    clarifications: [],
+    approaches: [],
+    evaluations: [],
+    steps: [],
+    risks: [],
+    assumptions: [],
+    successCriteria: [],
+    createdAt: '2026-02-06T10:00:00.000Z',
+    updatedAt: '2026-02-06T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// ─── Migrations ──────────────────────────────────────────────────────────────
+
+describe('migrateSession', () => {
+  const migrations: Record<number, Migration> = {
+    1: (session) => ({ ...session, tags: [] }),
+    2: ({ owner, ...session }) => ({ ...session, owners: [owner] }),
+  };
+
+  it('should run each migration from the old version up to the target', () => {
+    expect(migrateSession({ owner: 'ana' }, 1, 3, migrations)).toEqual({
+      tags: [],
+      owners: ['ana'],
+    });
+    expect(migrateSession({ owner: 'ana' }, 2, 3, migrations)).toEqual({ owners: ['ana'] });
+  });
+
+  it('should leave current sessions alone', () => {
+    const session = { ...makeSession() };
+    expect(migrateSession(session, SCHEMA_VERSION)).toBe(session);
+  });
+
+  it('should upgrade version 1 sessions to the current schema', () => {
+    expect(migrateSession({ ...makeSession() }, 1)).toEqual(makeSession());
+  });
+
+  it('should reject versions it cannot read', () => {
+    expect(() => migrateSession({}, SCHEMA_VERSION + 1)).toThrow(
+      `Written with schema version ${String(SCHEMA_VERSION + 1)}, but this server reads up to version ${String(SCHEMA_VERSION)}; update yggdrasil`
+    );
+    expect(() => migrateSession({}, 0)).toThrow('Unknown schema version 0');
+    expect(() => migrateSession({}, 1, 4, migrations)).toThrow(
+      'No migration from schema version 3'
+    );
+  });
+});
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+describe('validateSession', () => {
+  it('should accept complete sessions', () => {
+    const session = makeSession({
+      phase: 'done',
+      approaches: [{ branchId: 'a', name: 'A', description: 'D', pros: ['fast'], cons: [] }],
+      evaluations: [
+        {
+          branchId: 'a',
+          scores: { feasibility: 8 },
+          weightedScore: 8,
+          rationale: 'Good',
+          recommendation: 'pursue',
+        },
+      ],
+      selectedApproach: 'a',
+      steps: [{ title: 'Build', description: 'It', complexity: 'low' }],
+      risks: [{ description: 'Load', mitigation: 'Scale' }],
+      criteria: [{ name: 'risk', weight: 1, lowerIsBetter: true }],
+      revisions: [{ version: 2, reopenedAt: '2026-02-07T10:00:00.000Z' }],
+      tags: ['cache'],
+    });
+
+    expect(validateSession(session)).toBe(session);
+  });
+
+  it('should name the first field that does not fit', () => {
+    expect(() => validateSession([])).toThrow('session must be an object, got a list');
+    expect(() => validateSession({ ...makeSession(), phase: 'draft' })).toThrow(
+      'session.phase must be one of "init", "clarify"'
+    );
+    // "undo" is a step back, never a phase a session is in
+    expect(() => validateSession({ ...makeSession(), phase: 'undo' })).toThrow(
+      'session.phase must be one of'
+    );
+    expect(() =>
+      validateSession({
+        ...makeSession(),
+        evaluations: [{ branchId: 'a', scores: { cost: '7' } }],
+      })
+    ).toThrow('session.evaluations[0].scores.cost must be a number, got string');
+    expect(() => validateSession({ ...makeSession(), tags: [null] })).toThrow(
+      'session.tags[0] must be a string, got null'
+    );
+  });
+});
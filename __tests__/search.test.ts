@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+
+import type { PlanningSession } from '../planning.js';
+import { MAX_MATCHES_PER_RESULT, searchSession } from '../search.js';
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+function makeSession(overrides: Partial<PlanningSession> = {}): PlanningSession {
+  return {
+    sessionId: 'dp-search01',
+    problem: 'Cache layer for the product API',
+    context: 'Reads dominate; p99 latency matters',
+    constraints: ['No new managed services'],
+    phase: 'done',
+    clarifications: [{ question: 'Expected load?', answer: '10k requests per second' }],
+    approaches: [
+      {
+        branchId: 'redis',
+        name: 'Redis',
+        description: 'Shared in-memory store',
+        pros: ['Fast'],
+        cons: ['Another service to operate'],
+      },
+      {
+        branchId: 'lru',
+        name: 'In-process LRU',
+        description: 'Per-instance cache',
+        pros: ['No infrastructure'],
+        cons: ['Cold starts'],
+      },
+    ],
+    evaluations: [
+      {
+        branchId: 'redis',
+        evaluatorId: 'ops',
+        scores: {},
+        weightedScore: 4,
+        rationale: 'We decided against Redis because of the operational cost',
+        recommendation: 'abandon',
+      },
+    ],
+    selectedApproach: 'lru',
+    steps: [{ title: 'Add LRU middleware', description: 'Wrap the product handlers' }],
+    risks: [{ description: 'Stale reads', mitigation: 'Short TTL' }],
+    assumptions: [],
+    successCriteria: [],
+    createdAt: '2026-02-06T10:00:00.000Z',
+    updatedAt: '2026-02-06T10:05:00.000Z',
+    ...overrides,
+  };
+}
+
+// ─── searchSession ───────────────────────────────────────────────────────────
+
+describe('searchSession', () => {
+  it('should return null when nothing matches', () => {
+    expect(searchSession(makeSession(), 'kafka')).toBeNull();
+    expect(searchSession(makeSession(), '   ')).toBeNull();
+  });
+
+  it('should find text in every searchable field', () => {
+    const fieldFor = (query: string): string[] =>
+      searchSession(makeSession(), query)?.matches.map((m) => m.field) ?? [];
+
+    expect(fieldFor('dominate')).toEqual(['context']);
+    expect(fieldFor('managed')).toEqual(['constraints.1']);
+    expect(fieldFor('expected')).toEqual(['clarifications.1.question']);
+    expect(fieldFor('10k')).toEqual(['clarifications.1.answer']);
+    expect(fieldFor('shared')).toEqual(['approaches.redis.description']);
+    expect(fieldFor('infrastructure')).toEqual(['approaches.lru.pros']);
+    expect(fieldFor('operate')).toEqual(['approaches.redis.cons']);
+    expect(fieldFor('operational')).toEqual(['evaluations.redis.ops.rationale']);
+    expect(fieldFor('abandon')).toEqual(['evaluations.redis.ops.recommendation']);
+    expect(fieldFor('middleware')).toEqual(['steps.1.title']);
+    expect(fieldFor('handlers')).toEqual(['steps.1.description']);
+    expect(fieldFor('stale')).toEqual(['risks.1.description']);
+    expect(fieldFor('ttl')).toEqual(['risks.1.mitigation']);
+  });
+
+  it('should find a rejected approach by its recommendation', () => {
+    const fields = searchSession(makeSession(), 'redis abandon')?.matches.map((m) => m.field);
+
+    expect(fields).toContain('evaluations.redis.ops.recommendation');
+    expect(fields).toContain('approaches.redis.name');
+  });
+
+  it('should rank phrase matches above scattered terms', () => {
+    const result = searchSession(makeSession(), 'decided against Redis');
+
+    expect(result?.matches[0]).toEqual({
+      field: 'evaluations.redis.ops.rationale',
+      snippet: 'We decided against Redis because of the operational cost',
+    });
+    expect(result?.matches[1].field).toBe('approaches.redis.name');
+  });
+
+  it('should weight the problem and approach names above other fields', () => {
+    const inProblem = searchSession(makeSession({ problem: 'Kafka rollout' }), 'kafka');
+    const inContext = searchSession(makeSession({ context: 'Kafka rollout' }), 'kafka');
+
+    expect(inProblem?.score).toBeGreaterThan(inContext?.score ?? Infinity);
+  });
+
+  it('should limit the listed matches but score them all', () => {
+    const session = makeSession({
+      constraints: ['cache a', 'cache b', 'cache c', 'cache d'],
+    });
+    const result = searchSession(session, 'cache');
+
+    expect(result?.matches).toHaveLength(MAX_MATCHES_PER_RESULT);
+    expect(result?.matches[0].field).toBe('problem');
+    // problem (3) + 4 constraints + lru description
+    expect(result?.score).toBe(8);
+  });
+
+  it('should trim long text to a snippet around the match', () => {
+    const context = `${'lead-in '.repeat(20)}the Redis decision${' trailing'.repeat(20)}`;
+    const result = searchSession(makeSession({ context }), 'decision');
+    const snippet = result?.matches[0].snippet ?? '';
+
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain('the Redis decision');
+    expect(snippet.length).toBeLessThan(context.length);
+  });
+
+  it('should skip evaluator labels for anonymous evaluations', () => {
+    const session = makeSession({
+      evaluations: [
+        {
+          branchId: 'lru',
+          scores: {},
+          weightedScore: 8,
+          rationale: 'Simple to roll out',
+          recommendation: 'pursue',
+        },
+      ],
+    });
+
+    expect(searchSession(session, 'simple')?.matches[0].field).toBe('evaluations.lru.rationale');
+  });
+});
@@ -0,0 +1,155 @@
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  createStorageBackend,
+  FileSystemBackend,
+  MemoryBackend,
+  parseStorageKind,
+  SQLITE_FILENAME,
+  SqliteBackend,
+  type StorageBackend,
+  type StorageKind,
+} from '../storage.js';
+
+const hasSqlite = process.getBuiltinModule('node:sqlite') !== undefined;
+
+// ─── Backend contract ────────────────────────────────────────────────────────
+
+describe.each<{ kind: StorageKind; skip: boolean }>([
+  { kind: 'fs', skip: false },
+  { kind: 'memory', skip: false },
+  { kind: 'sqlite', skip: !hasSqlite },
+])('$kind backend', ({ kind, skip }) => {
+  let dir: string;
+  let storage: StorageBackend;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'ygg-storage-'));
+    if (!skip) storage = createStorageBackend(kind, dir);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it.skipIf(skip)('should report missing files as null or false', async () => {
+    expect(await storage.read('dp-missing.jsonl')).toBeNull();
+    expect(await storage.stat('dp-missing.jsonl')).toBeNull();
+    expect(await storage.remove('dp-missing.jsonl')).toBe(false);
+  });
+
+  it.skipIf(skip)('should write, replace, append and remove files', async () => {
+    await storage.write('index.json', '{}');
+    await storage.write('index.json', '{"a":1}');
+    await storage.append('dp-a.jsonl', 'one\n');
+    await storage.append('dp-a.jsonl', 'twö\n');
+
+    expect(await storage.read('index.json')).toBe('{"a":1}');
+    expect(await storage.read('dp-a.jsonl')).toBe('one\ntwö\n');
+    expect((await storage.stat('dp-a.jsonl'))?.size).toBe(Buffer.byteLength('one\ntwö\n'));
+
+    expect(await storage.remove('dp-a.jsonl')).toBe(true);
+    expect(await storage.read('dp-a.jsonl')).toBeNull();
+  });
+
+  it.skipIf(skip)('should list top-level files only', async () => {
+    await storage.write('index.json', '{}');
+    await storage.append('dp-a.jsonl', 'x\n');
+    await storage.append('thinking/st-a.jsonl', 'x\n');
+
+    expect((await storage.list()).toSorted()).toEqual(['dp-a.jsonl', 'index.json']);
+    expect(await storage.read('thinking/st-a.jsonl')).toBe('x\n');
+  });
+
+  it.skipIf(skip)('should run holders of the same lock one at a time', async () => {
+    const trace: string[] = [];
+    const hold = (name: string) =>
+      storage.withLock('index.json', async () => {
+        trace.push(`${name} start`);
+        await sleep(20);
+        await storage.append('log', name);
+        trace.push(`${name} end`);
+      });
+
+    await Promise.all([hold('a'), hold('b')]);
+
+    expect(trace).toEqual(['a start', 'a end', 'b start', 'b end']);
+    expect(await storage.read('log')).toBe('ab');
+  });
+
+  it.skipIf(skip)('should release the lock when the task throws', async () => {
+    await expect(
+      storage.withLock('index.json', () => Promise.reject(new Error('boom')))
+    ).rejects.toThrow('boom');
+
+    expect(await storage.withLock('index.json', async () => 'again')).toBe('again');
+  });
+});
+
+// ─── Backend specifics ───────────────────────────────────────────────────────
+
+describe('createStorageBackend', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'ygg-storage-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should keep the fs layout in the plans directory', async () => {
+    const storage = createStorageBackend('fs', dir);
+    await storage.write('yggdrasil-plans-index.json', '{}');
+    await storage.append('thinking/st-a.jsonl', 'x\n');
+
+    expect(storage).toBeInstanceOf(FileSystemBackend);
+    expect(storage.location).toBe(dir);
+    // Atomic writes leave no tmp files behind
+    expect((await readdir(dir)).toSorted()).toEqual(['thinking', 'yggdrasil-plans-index.json']);
+    expect(await readFile(path.join(dir, 'thinking', 'st-a.jsonl'), 'utf8')).toBe('x\n');
+  });
+
+  it('should fail to list a plans directory that does not exist', async () => {
+    await expect(createStorageBackend('fs', path.join(dir, 'missing')).list()).rejects.toThrow(
+      /ENOENT/
+    );
+  });
+
+  it('should keep nothing outside the process for memory', () => {
+    const storage = createStorageBackend('memory', dir);
+
+    expect(storage).toBeInstanceOf(MemoryBackend);
+    expect(storage.location).toBe(':memory:');
+  });
+
+  it.skipIf(!hasSqlite)('should share one SQLite database between connections', async () => {
+    const first = createStorageBackend('sqlite', dir);
+    const second = new SqliteBackend(path.join(dir, SQLITE_FILENAME));
+    await first.write('index.json', '{"a":1}');
+
+    expect(first.location).toBe(path.join(dir, SQLITE_FILENAME));
+    expect(await second.read('index.json')).toBe('{"a":1}');
+    expect(await readdir(dir)).toContain(SQLITE_FILENAME);
+  });
+});
+
+describe('parseStorageKind', () => {
+  it('should accept the known backends', () => {
+    expect(parseStorageKind('fs', 'storage')).toBe('fs');
+    expect(parseStorageKind('sqlite', 'storage')).toBe('sqlite');
+    expect(parseStorageKind('memory', 'storage')).toBe('memory');
+  });
+
+  it('should name the source of an unknown backend', () => {
+    expect(() => parseStorageKind('redis', 'YGGDRASIL_STORAGE')).toThrow(
+      'YGGDRASIL_STORAGE must be one of "fs", "sqlite", "memory", got "redis"'
+    );
+  });
+});
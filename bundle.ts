@@ -0,0 +1,111 @@
+/**
+ * Portable plan bundles, as written by export_plan and read by import_plan.
+ *
+ * A bundle is one JSON document with everything needed to recreate a plan in another plans
+ * directory: its JSONL log, its rendered Markdown plan and its index entry. The log is written
+ * in the current format (see event-log.ts), so any server that reads its schema version can
+ * replay it. The index entry is informational; import rebuilds it from the log.
+ */
+
+import path from 'node:path';
+
+import type { PlanIndexEntry } from './persistence.js';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** Marks a JSON document as a plan bundle. */
+export const BUNDLE_FORMAT = 'yggdrasil-plan-bundle';
+
+/** Bundle layout version; bumped when fields are added or change meaning. */
+export const BUNDLE_VERSION = 1;
+
+export interface PlanBundle {
+  format: typeof BUNDLE_FORMAT;
+  bundleVersion: number;
+  exportedAt: string;
+  sessionId: string;
+  /** The plan's index entry on the exporting machine, or null if it was not indexed. */
+  index: PlanIndexEntry | null;
+  /** The plan's JSONL event log. */
+  log: string;
+  /** The rendered Markdown plan, or null if the plan has none. */
+  markdown: string | null;
+}
+
+/**
+ * What import_plan does when the bundle's session ID is already taken:
+ * - rename: import under a new session ID and leave the local plan alone
+ * - replace: delete the local plan and import in its place
+ */
+export type ImportCollision = 'rename' | 'replace';
+
+/** Where export_plan writes and import_plan reads bundle files, inside the plans directory. */
+export const BUNDLES_DIRNAME = 'bundles';
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+/** Parse a bundle written by export_plan. Throws TypeError saying what is wrong with it. */
+export function parseBundle(content: string): PlanBundle {
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch {
+    throw new TypeError('The bundle is not valid JSON');
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new TypeError('The bundle must be a JSON object');
+  }
+
+  const bundle = value as Partial<Record<keyof PlanBundle, unknown>>;
+  if (bundle.format !== BUNDLE_FORMAT) {
+    throw new TypeError(`Not a plan bundle: "format" must be "${BUNDLE_FORMAT}"`);
+  }
+  if (typeof bundle.bundleVersion !== 'number' || !Number.isInteger(bundle.bundleVersion)) {
+    throw new TypeError('"bundleVersion" must be a whole number');
+  }
+  if (bundle.bundleVersion > BUNDLE_VERSION) {
+    throw new TypeError(
+      `Bundle version ${String(bundle.bundleVersion)} is newer than this server reads (${String(BUNDLE_VERSION)}); update yggdrasil`
+    );
+  }
+  const { sessionId } = bundle;
+  // Session IDs name files in the plans directory; never follow a path out of it
+  if (typeof sessionId !== 'string' || !sessionId || sessionId !== path.basename(sessionId)) {
+    throw new TypeError('"sessionId" must be a session ID such as "dp-kR3xT9vW"');
+  }
+  if (typeof bundle.log !== 'string') {
+    throw new TypeError('"log" must be the JSONL event log as a string');
+  }
+  if (bundle.markdown != null && typeof bundle.markdown !== 'string') {
+    throw new TypeError('"markdown" must be a string or null');
+  }
+  if (bundle.index != null && (typeof bundle.index !== 'object' || Array.isArray(bundle.index))) {
+    throw new TypeError('"index" must be an object or null');
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    bundleVersion: bundle.bundleVersion,
+    exportedAt: typeof bundle.exportedAt === 'string' ? bundle.exportedAt : '',
+    sessionId,
+    index: (bundle.index ?? null) as PlanIndexEntry | null,
+    log: bundle.log,
+    markdown: bundle.markdown ?? null,
+  };
+}
+
+// ─── Bundle Files ────────────────────────────────────────────────────────────
+
+/**
+ * Resolve a bundle file name against the bundles directory of a plans directory. The tools take
+ * paths from the MCP client, so a path that leaves that directory is refused with a TypeError.
+ */
+export function resolveBundlePath(plansDir: string, file: string): string {
+  const dir = path.join(plansDir, BUNDLES_DIRNAME);
+  const resolved = path.resolve(dir, file);
+  const relative = path.relative(dir, resolved);
+  if (!relative || relative.split(path.sep)[0] === '..' || path.isAbsolute(relative)) {
+    throw new TypeError(`Bundle files must be inside ${dir}; got "${file}"`);
+  }
+  return resolved;
+}
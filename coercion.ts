@@ -85,3 +85,14 @@ export const optionalScoreSchema = z
     z.number().min(0).max(10).optional()
   )
   .optional();
+
+/**
+ * Zod schema for optional 0-based index (non-negative integer) with safe coercion.
+ * Used for JSONL event positions in planning history tools.
+ */
+export const optionalIndexSchema = z
+  .preprocess(
+    (val) => (val === undefined || val === null ? undefined : coerceNumber(val)),
+    z.number().int().min(0).optional()
+  )
+  .optional();
@@ -0,0 +1,160 @@
+/**
+ * Dependency analysis for deep_planning implementation steps.
+ *
+ * Steps reference each other by 1-based step number. At finalize the dependencies are validated
+ * as a DAG, then used to derive a topological order, groups of steps that can run in parallel,
+ * and the critical path weighted by step complexity.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type StepComplexity = 'low' | 'medium' | 'high';
+
+/** The parts of a plan step the graph needs. */
+export interface DependencyNode {
+  dependencies?: number[];
+  complexity?: StepComplexity;
+}
+
+export interface DependencyAnalysis {
+  /** Step numbers in an order that respects every dependency. */
+  order: number[];
+  /** Waves of steps; every step depends only on steps in earlier waves. */
+  parallelGroups: number[][];
+  /** Longest chain of dependent steps by total complexity weight. */
+  criticalPath: number[];
+  criticalPathWeight: number;
+}
+
+/** Weight of each complexity level on the critical path. Steps without a complexity count as medium. */
+export const COMPLEXITY_WEIGHTS: Record<StepComplexity, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+};
+
+function stepWeight(step: DependencyNode): number {
+  // Complexity comes from untyped JSON, so unknown values also fall back to medium
+  return COMPLEXITY_WEIGHTS[step.complexity ?? 'medium'] ?? COMPLEXITY_WEIGHTS.medium;
+}
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+/** Follow dependency edges depth-first and return the first cycle found, as step numbers. */
+function findCycle(steps: DependencyNode[]): number[] | null {
+  const state = new Map<number, 'visiting' | 'done'>();
+  const trail: number[] = [];
+
+  const visit = (step: number): number[] | null => {
+    if (state.get(step) === 'done') return null;
+    if (state.get(step) === 'visiting') {
+      return [...trail.slice(trail.indexOf(step)), step];
+    }
+    state.set(step, 'visiting');
+    trail.push(step);
+    for (const dep of steps[step - 1].dependencies ?? []) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    trail.pop();
+    state.set(step, 'done');
+    return null;
+  };
+
+  for (let step = 1; step <= steps.length; step++) {
+    const cycle = visit(step);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Check that every dependency names another existing step and that there are no cycles.
+ * Returns an error message, or null when the dependencies form a valid DAG.
+ */
+export function validateDependencies(steps: DependencyNode[]): string | null {
+  const valid = steps.length > 0 ? `1-${String(steps.length)}` : '(none)';
+
+  for (const [index, step] of steps.entries()) {
+    const number = index + 1;
+    for (const dep of step.dependencies ?? []) {
+      if (!Number.isInteger(dep) || dep < 1 || dep > steps.length) {
+        return `Step ${String(number)} depends on Step ${String(dep)}, which does not exist. Valid steps: ${valid}`;
+      }
+      if (dep === number) {
+        return `Step ${String(number)} depends on itself.`;
+      }
+    }
+  }
+
+  const cycle = findCycle(steps);
+  if (cycle) {
+    // findCycle walks from a step to its dependencies; report in execution direction
+    const path = cycle.toReversed().map((n) => `Step ${String(n)}`);
+    return `Step dependencies form a cycle: ${path.join(' → ')}`;
+  }
+
+  return null;
+}
+
+// ─── Analysis ────────────────────────────────────────────────────────────────
+
+/**
+ * Compute execution order, parallel groups and the critical path.
+ * Expects dependencies that passed validateDependencies.
+ */
+export function analyzeDependencies(steps: DependencyNode[]): DependencyAnalysis {
+  const numbers = steps.map((_, i) => i + 1);
+  const depsOf = (n: number): number[] => [...new Set(steps[n - 1].dependencies ?? [])];
+
+  // Each step's wave is one past its deepest dependency; resolved depth-first with memoisation.
+  // Arrays are indexed by step number (index 0 unused).
+  const level: number[] = [];
+  // Heaviest path ending at each step, and the dependency it came through
+  const pathWeight: number[] = [];
+  const via: (number | undefined)[] = [];
+
+  const resolve = (n: number): void => {
+    if (level[n] !== undefined) return;
+    let deepest = -1;
+    let heaviest = 0;
+    let through: number | undefined;
+    for (const dep of depsOf(n)) {
+      resolve(dep);
+      deepest = Math.max(deepest, level[dep]);
+      // Ties keep the lower step number so the path is deterministic
+      if (
+        pathWeight[dep] > heaviest ||
+        (pathWeight[dep] === heaviest && through !== undefined && dep < through)
+      ) {
+        heaviest = pathWeight[dep];
+        through = dep;
+      }
+    }
+    level[n] = deepest + 1;
+    pathWeight[n] = heaviest + stepWeight(steps[n - 1]);
+    via[n] = through;
+  };
+  for (const n of numbers) resolve(n);
+
+  const parallelGroups: number[][] = [];
+  for (const n of numbers) {
+    (parallelGroups[level[n]] ??= []).push(n);
+  }
+
+  let end = 0;
+  for (const n of numbers) {
+    if (end === 0 || pathWeight[n] > pathWeight[end]) end = n;
+  }
+  const criticalPath: number[] = [];
+  for (let n: number | undefined = end || undefined; n !== undefined; n = via[n]) {
+    criticalPath.unshift(n);
+  }
+
+  return {
+    order: parallelGroups.flat(),
+    parallelGroups,
+    criticalPath,
+    criticalPathWeight: end === 0 ? 0 : pathWeight[end],
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * Diagram export for sequential_thinking chains.
+ *
+ * Renders a chain as a Mermaid flowchart or a Graphviz DOT graph:
+ * main-line thoughts form a spine, revisions are dashed back-edges to the thought they revise,
+ * and each branch forks from its branchFromThought inside its own subgraph.
+ */
+
+import type { ThoughtNode, ThoughtTree } from './lib.js';
+
+// ─── Layout ──────────────────────────────────────────────────────────────────
+
+export type DiagramFormat = 'mermaid' | 'dot';
+
+export interface DiagramNode {
+  id: string;
+  label: string;
+  isRevision: boolean;
+}
+
+export interface DiagramEdge {
+  from: string;
+  to: string;
+  kind: 'next' | 'revision' | 'branch';
+  label?: string;
+}
+
+export interface DiagramCluster {
+  branchId: string;
+  nodeIds: string[];
+}
+
+export interface ThoughtGraph {
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+  clusters: DiagramCluster[];
+}
+
+const MAX_LABEL_LENGTH = 60;
+
+function nodeLabel(node: ThoughtNode): string {
+  const text = node.thought.replaceAll(/\s+/g, ' ').trim();
+  const short = text.length > MAX_LABEL_LENGTH ? `${text.slice(0, MAX_LABEL_LENGTH - 1)}…` : text;
+  return `${node.thoughtNumber}. ${short}`;
+}
+
+/**
+ * Flatten a thought tree (see buildThoughtTree) into nodes, edges and branch clusters.
+ * Node IDs are positional (t0, t1, ...) because thought numbers repeat across branches.
+ */
+export function layoutThoughtGraph(tree: ThoughtTree): ThoughtGraph {
+  const graph: ThoughtGraph = { nodes: [], edges: [], clusters: [] };
+  let counter = 0;
+
+  const addLine = (line: ThoughtNode[]): string[] => {
+    const ids = line.map((node) => {
+      const id = `t${String(counter++)}`;
+      graph.nodes.push({ id, label: nodeLabel(node), isRevision: node.isRevision === true });
+      return id;
+    });
+    for (let i = 1; i < ids.length; i++) {
+      graph.edges.push({ from: ids[i - 1], to: ids[i], kind: 'next' });
+    }
+    return ids;
+  };
+
+  const mainIds = addLine(tree.thoughts);
+
+  // Same rule as buildThoughtTree: a revision targets its own line first, then the main line
+  const addRevisionEdges = (line: ThoughtNode[], ids: string[]): void => {
+    for (const [i, node] of line.entries()) {
+      if (!node.isRevision || node.revisesThought === undefined) continue;
+      const inLine = line.findIndex((n) => n !== node && n.thoughtNumber === node.revisesThought);
+      const inMain = tree.thoughts.findIndex(
+        (n) => n !== node && n.thoughtNumber === node.revisesThought
+      );
+      let target: string | undefined;
+      if (inLine !== -1) {
+        target = ids[inLine];
+      } else if (inMain !== -1) {
+        target = mainIds[inMain];
+      }
+      if (target) {
+        graph.edges.push({ from: ids[i], to: target, kind: 'revision', label: 'revises' });
+      }
+    }
+  };
+
+  const addBranches = (line: ThoughtNode[], ids: string[]): void => {
+    for (const [i, node] of line.entries()) {
+      for (const branch of node.branches) {
+        const branchIds = addLine(branch.thoughts);
+        graph.clusters.push({ branchId: branch.branchId, nodeIds: branchIds });
+        graph.edges.push({
+          from: ids[i],
+          to: branchIds[0],
+          kind: 'branch',
+          label: branch.branchId,
+        });
+        addRevisionEdges(branch.thoughts, branchIds);
+        addBranches(branch.thoughts, branchIds);
+      }
+    }
+  };
+
+  addRevisionEdges(tree.thoughts, mainIds);
+  addBranches(tree.thoughts, mainIds);
+
+  for (const branch of tree.unanchoredBranches) {
+    const branchIds = addLine(branch.thoughts);
+    graph.clusters.push({ branchId: branch.branchId, nodeIds: branchIds });
+    addRevisionEdges(branch.thoughts, branchIds);
+    addBranches(branch.thoughts, branchIds);
+  }
+
+  return graph;
+}
+
+// ─── Renderers ───────────────────────────────────────────────────────────────
+
+function escapeMermaid(text: string): string {
+  return text.replaceAll('"', '#quot;');
+}
+
+function escapeDot(text: string): string {
+  return text.replaceAll('\\', '\\\\').replaceAll('"', String.raw`\"`);
+}
+
+/** Render a thought tree as a top-down Mermaid flowchart. */
+export function renderMermaid(tree: ThoughtTree): string {
+  const graph = layoutThoughtGraph(tree);
+  const lines = ['flowchart TD'];
+
+  const clustered = new Set(graph.clusters.flatMap((c) => c.nodeIds));
+  const nodeById = new Map(graph.nodes.map((n) => [n.id, n]));
+  const declare = (id: string, indent: string): void => {
+    const node = nodeById.get(id);
+    if (node) lines.push(`${indent}${id}["${escapeMermaid(node.label)}"]`);
+  };
+
+  for (const node of graph.nodes) {
+    if (!clustered.has(node.id)) declare(node.id, '  ');
+  }
+
+  for (const [i, cluster] of graph.clusters.entries()) {
+    lines.push(`  subgraph b${String(i)} ["Branch: ${escapeMermaid(cluster.branchId)}"]`);
+    for (const id of cluster.nodeIds) declare(id, '    ');
+    lines.push('  end');
+  }
+
+  for (const edge of graph.edges) {
+    if (edge.kind === 'revision') {
+      lines.push(`  ${edge.from} -.->|revises| ${edge.to}`);
+    } else if (edge.kind === 'branch') {
+      lines.push(`  ${edge.from} -->|"${escapeMermaid(edge.label ?? '')}"| ${edge.to}`);
+    } else {
+      lines.push(`  ${edge.from} --> ${edge.to}`);
+    }
+  }
+
+  const revisionIds = graph.nodes.filter((n) => n.isRevision).map((n) => n.id);
+  if (revisionIds.length > 0) {
+    lines.push(
+      '  classDef revision stroke-dasharray: 5 5',
+      `  class ${revisionIds.join(',')} revision`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/** Render a thought tree as a Graphviz DOT digraph. */
+export function renderDot(tree: ThoughtTree): string {
+  const graph = layoutThoughtGraph(tree);
+  const lines = [
+    `digraph "${escapeDot(tree.sessionId)}" {`,
+    '  rankdir=TB;',
+    '  node [shape=box];',
+  ];
+
+  const clustered = new Set(graph.clusters.flatMap((c) => c.nodeIds));
+  const nodeById = new Map(graph.nodes.map((n) => [n.id, n]));
+  const declare = (id: string, indent: string): void => {
+    const node = nodeById.get(id);
+    if (!node) return;
+    const style = node.isRevision ? ', style=dashed' : '';
+    lines.push(`${indent}${id} [label="${escapeDot(node.label)}"${style}];`);
+  };
+
+  for (const node of graph.nodes) {
+    if (!clustered.has(node.id)) declare(node.id, '  ');
+  }
+
+  for (const [i, cluster] of graph.clusters.entries()) {
+    lines.push(
+      `  subgraph cluster_b${String(i)} {`,
+      `    label="Branch: ${escapeDot(cluster.branchId)}";`
+    );
+    for (const id of cluster.nodeIds) declare(id, '    ');
+    lines.push('  }');
+  }
+
+  for (const edge of graph.edges) {
+    if (edge.kind === 'revision') {
+      lines.push(`  ${edge.from} -> ${edge.to} [style=dashed, label="revises", constraint=false];`);
+    } else if (edge.kind === 'branch') {
+      lines.push(`  ${edge.from} -> ${edge.to} [label="${escapeDot(edge.label ?? '')}"];`);
+    } else {
+      lines.push(`  ${edge.from} -> ${edge.to};`);
+    }
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/** Render a thought tree in the requested diagram format. */
+export function renderDiagram(tree: ThoughtTree, format: DiagramFormat): string {
+  return format === 'dot' ? renderDot(tree) : renderMermaid(tree);
+}
@@ -0,0 +1,285 @@
+/**
+ * Structural diff between two deep_planning session snapshots.
+ *
+ * Compares the parts of a PlanningSession that make up the plan: constraints, clarifications,
+ * approaches, evaluation scores, steps, risks and success criteria. Keyed entries (approaches by
+ * branchId, evaluations by branchId + evaluatorId, clarifications by question, steps by title,
+ * risks by description) are reported as added, removed or changed; plain string lists as added
+ * or removed.
+ */
+
+import type {
+  Approach,
+  Clarification,
+  Evaluation,
+  PlanRisk,
+  PlanStep,
+  PlanningSession,
+} from './planning.js';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface DiffSide {
+  sessionId: string;
+  /** 0-based JSONL event the snapshot was taken from. */
+  eventIndex: number;
+  phase: string;
+}
+
+export interface ValueChange<T> {
+  before: T;
+  after: T;
+}
+
+export interface StringListDiff {
+  added: string[];
+  removed: string[];
+}
+
+export interface KeyedListDiff<T> {
+  added: T[];
+  removed: T[];
+  changed: ValueChange<T>[];
+}
+
+export interface PlanDiff {
+  from: DiffSide;
+  to: DiffSide;
+  identical: boolean;
+  problem?: ValueChange<string>;
+  selectedApproach?: ValueChange<string | null>;
+  constraints: StringListDiff;
+  clarifications: KeyedListDiff<Clarification>;
+  approaches: KeyedListDiff<Approach>;
+  evaluations: KeyedListDiff<Evaluation>;
+  steps: KeyedListDiff<PlanStep>;
+  risks: KeyedListDiff<PlanRisk>;
+  successCriteria: StringListDiff;
+}
+
+// ─── Diffing ─────────────────────────────────────────────────────────────────
+
+function diffStrings(before: string[], after: string[]): StringListDiff {
+  return {
+    added: after.filter((s) => !before.includes(s)),
+    removed: before.filter((s) => !after.includes(s)),
+  };
+}
+
+function diffByKey<T>(before: T[], after: T[], key: (item: T) => string): KeyedListDiff<T> {
+  const beforeByKey = new Map(before.map((item) => [key(item), item]));
+  const afterKeys = new Set(after.map((item) => key(item)));
+  const result: KeyedListDiff<T> = { added: [], removed: [], changed: [] };
+
+  for (const item of after) {
+    const previous = beforeByKey.get(key(item));
+    if (previous === undefined) {
+      result.added.push(item);
+    } else if (JSON.stringify(previous) !== JSON.stringify(item)) {
+      result.changed.push({ before: previous, after: item });
+    }
+  }
+  result.removed = before.filter((item) => !afterKeys.has(key(item)));
+
+  return result;
+}
+
+const evaluationKey = (e: Evaluation): string => `${e.branchId}\u0000${e.evaluatorId ?? ''}`;
+
+/** Compare two session snapshots. The sides only label the result. */
+export function diffSessions(
+  before: PlanningSession,
+  after: PlanningSession,
+  from: DiffSide,
+  to: DiffSide
+): PlanDiff {
+  const diff: PlanDiff = {
+    from,
+    to,
+    identical: false,
+    ...(before.problem !== after.problem && {
+      problem: { before: before.problem, after: after.problem },
+    }),
+    ...(before.selectedApproach !== after.selectedApproach && {
+      selectedApproach: {
+        before: before.selectedApproach ?? null,
+        after: after.selectedApproach ?? null,
+      },
+    }),
+    constraints: diffStrings(before.constraints, after.constraints),
+    clarifications: diffByKey(before.clarifications, after.clarifications, (c) => c.question),
+    approaches: diffByKey(before.approaches, after.approaches, (a) => a.branchId),
+    evaluations: diffByKey(before.evaluations, after.evaluations, evaluationKey),
+    steps: diffByKey(before.steps, after.steps, (s) => s.title),
+    risks: diffByKey(before.risks, after.risks, (r) => r.description),
+    successCriteria: diffStrings(before.successCriteria, after.successCriteria),
+  };
+
+  const unchanged = (l: StringListDiff | KeyedListDiff<unknown>): boolean =>
+    l.added.length === 0 && l.removed.length === 0 && (!('changed' in l) || l.changed.length === 0);
+  diff.identical =
+    !diff.problem &&
+    !diff.selectedApproach &&
+    [
+      diff.constraints,
+      diff.clarifications,
+      diff.approaches,
+      diff.evaluations,
+      diff.steps,
+      diff.risks,
+      diff.successCriteria,
+    ].every(unchanged);
+
+  return diff;
+}
+
+// ─── Summaries ───────────────────────────────────────────────────────────────
+
+/** One list section of a diff with its entries already described as text. */
+interface DescribedSection {
+  title: string;
+  /** Singular noun used in one-line change summaries. */
+  noun: string;
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+function describeEvaluation(e: Evaluation): string {
+  const by = e.evaluatorId ? ` by ${e.evaluatorId}` : '';
+  return `${e.branchId}${by}: ${e.weightedScore.toFixed(2)}/10 (${e.recommendation})`;
+}
+
+function describeKeyed<T>(
+  title: string,
+  noun: string,
+  diff: KeyedListDiff<T>,
+  describe: (item: T) => string,
+  describeChange: (change: ValueChange<T>) => string = (c) => describe(c.after)
+): DescribedSection {
+  return {
+    title,
+    noun,
+    added: diff.added.map(describe),
+    removed: diff.removed.map(describe),
+    changed: diff.changed.map(describeChange),
+  };
+}
+
+function describeSections(diff: PlanDiff): DescribedSection[] {
+  return [
+    { title: 'Constraints', noun: 'constraint', ...diff.constraints, changed: [] },
+    describeKeyed('Clarifications', 'clarification', diff.clarifications, (c) =>
+      c.answer === undefined ? c.question : `${c.question} → ${c.answer}`
+    ),
+    describeKeyed('Approaches', 'approach', diff.approaches, (a) => `${a.name} (${a.branchId})`),
+    describeKeyed(
+      'Evaluations',
+      'evaluation',
+      diff.evaluations,
+      describeEvaluation,
+      (c) =>
+        `${describeEvaluation(c.after)}, was ${c.before.weightedScore.toFixed(2)}/10 (${c.before.recommendation})`
+    ),
+    describeKeyed('Steps', 'step', diff.steps, (s) => s.title),
+    describeKeyed(
+      'Risks',
+      'risk',
+      diff.risks,
+      (r) => r.description,
+      (c) => `${c.after.description} (mitigation: ${c.after.mitigation})`
+    ),
+    { title: 'Success Criteria', noun: 'success criterion', ...diff.successCriteria, changed: [] },
+  ];
+}
+
+/**
+ * Describe a plan diff as one line per change, e.g. "Added approach: Redis (redis)".
+ * Returns an empty list for identical snapshots.
+ */
+export function summarizeChanges(diff: PlanDiff): string[] {
+  const changes: string[] = [];
+  if (diff.problem) changes.push(`Changed problem: ${diff.problem.after}`);
+  if (diff.selectedApproach) {
+    changes.push(`Selected approach: ${diff.selectedApproach.after ?? '(none)'}`);
+  }
+  for (const section of describeSections(diff)) {
+    changes.push(
+      ...section.added.map((item) => `Added ${section.noun}: ${item}`),
+      ...section.removed.map((item) => `Removed ${section.noun}: ${item}`),
+      ...section.changed.map((item) => `Changed ${section.noun}: ${item}`)
+    );
+  }
+  return changes;
+}
+
+/**
+ * Describe changes to a session's owner, project and tags, e.g. "Added tag: backend".
+ * Metadata is not plan content, so it is not part of PlanDiff.
+ */
+export function summarizeMetadataChanges(
+  before: PlanningSession,
+  after: PlanningSession
+): string[] {
+  const changes: string[] = [];
+  for (const field of ['owner', 'project'] as const) {
+    if (before[field] === after[field]) continue;
+    const value = after[field];
+    changes.push(value ? `Set ${field}: ${value}` : `Cleared ${field}`);
+  }
+  const tags = diffStrings(before.tags ?? [], after.tags ?? []);
+  changes.push(
+    ...tags.added.map((tag) => `Added tag: ${tag}`),
+    ...tags.removed.map((tag) => `Removed tag: ${tag}`)
+  );
+  return changes;
+}
+
+function sideLabel(side: DiffSide): string {
+  return `${side.sessionId} @ event ${String(side.eventIndex)} (${side.phase})`;
+}
+
+/** Render a plan diff as a short Markdown change summary. */
+export function renderDiffMarkdown(diff: PlanDiff): string {
+  const lines = [
+    '# Plan Diff',
+    '',
+    `**From:** ${sideLabel(diff.from)}`,
+    `**To:** ${sideLabel(diff.to)}`,
+    '',
+  ];
+
+  if (diff.identical) {
+    lines.push('No differences.');
+    return lines.join('\n');
+  }
+
+  if (diff.problem) {
+    lines.push(
+      '## Problem',
+      `- Before: ${diff.problem.before}`,
+      `- After: ${diff.problem.after}`,
+      ''
+    );
+  }
+  if (diff.selectedApproach) {
+    lines.push(
+      '## Selected Approach',
+      `- ${diff.selectedApproach.before ?? '(none)'} → ${diff.selectedApproach.after ?? '(none)'}`,
+      ''
+    );
+  }
+
+  for (const section of describeSections(diff)) {
+    if (section.added.length + section.removed.length + section.changed.length === 0) continue;
+    lines.push(
+      `## ${section.title}`,
+      ...section.added.map((item) => `- Added: ${item}`),
+      ...section.removed.map((item) => `- Removed: ${item}`),
+      ...section.changed.map((item) => `- Changed: ${item}`),
+      ''
+    );
+  }
+
+  return lines.join('\n').trimEnd();
+}
@@ -0,0 +1,204 @@
+/**
+ * Line format of deep_planning JSONL event logs.
+ *
+ * Each line is one event. Logs used to store the whole session on every line, so a session with
+ * many approaches grew quadratically. A line now holds either a full snapshot (`session`) or the
+ * changes since the previous line (`delta`). Every log starts with a snapshot and repeats one
+ * every SNAPSHOT_EVERY lines, so loading never replays far. Snapshot-only logs written by older
+ * versions are valid logs in this format.
+ */
+
+import type { PlanEvent } from './persistence.js';
+import type { PlanningSession } from './planning.js';
+import { migrateSession, SCHEMA_VERSION, type SessionData, validateSession } from './schema.js';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** Changes to a session's top-level fields between two events. */
+export interface SessionDelta {
+  /** Fields with a new value. */
+  set?: Record<string, unknown>;
+  /** List fields that only grew: the items added at the end. */
+  push?: Record<string, unknown[]>;
+  /** Fields that were removed. */
+  unset?: string[];
+}
+
+/** One line of a planning session's JSONL log as stored. */
+export interface PlanLogRecord {
+  timestamp: string;
+  phase: string;
+  /** Full session state; set on snapshot lines. */
+  session?: PlanningSession;
+  /** Changes since the previous line; set on all other lines. */
+  delta?: SessionDelta;
+  restoredFrom?: number;
+  /** Schema version the line was written with (see schema.ts); absent on lines before versioning. */
+  schemaVersion?: number;
+}
+
+/** The state after a log's last line, as a base for appending the next one. */
+export interface LogTail {
+  session: PlanningSession;
+  /** Lines since the last snapshot, counting the snapshot itself. */
+  sinceSnapshot: number;
+}
+
+/** A full snapshot is written on the first line and then every this many lines. */
+export const SNAPSHOT_EVERY = 20;
+
+// ─── Deltas ──────────────────────────────────────────────────────────────────
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** The delta that turns `before` into `after`. */
+export function diffState(before: PlanningSession, after: PlanningSession): SessionDelta {
+  const delta: Required<SessionDelta> = { set: {}, push: {}, unset: [] };
+  const from = before as unknown as Record<string, unknown>;
+  const to = after as unknown as Record<string, unknown>;
+
+  for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    const [a, b] = [from[key], to[key]];
+    if (b === undefined) {
+      if (a !== undefined) delta.unset.push(key);
+    } else if (!sameJson(a, b)) {
+      if (
+        Array.isArray(a) &&
+        Array.isArray(b) &&
+        a.length < b.length &&
+        a.every((item, i) => sameJson(item, b[i]))
+      ) {
+        delta.push[key] = b.slice(a.length);
+      } else {
+        delta.set[key] = b;
+      }
+    }
+  }
+
+  return {
+    ...(Object.keys(delta.set).length > 0 && { set: delta.set }),
+    ...(Object.keys(delta.push).length > 0 && { push: delta.push }),
+    ...(delta.unset.length > 0 && { unset: delta.unset }),
+  };
+}
+
+/** Apply a delta to a copy of `before`. Throws TypeError if it does not fit the state. */
+export function applyDelta<T extends object>(before: T, delta: SessionDelta): T {
+  const next = structuredClone(before) as unknown as Record<string, unknown>;
+  for (const key of delta.unset ?? []) delete next[key];
+  Object.assign(next, structuredClone(delta.set));
+  for (const [key, items] of Object.entries(delta.push ?? {})) {
+    const current = next[key];
+    if (!Array.isArray(current)) {
+      throw new TypeError(`Cannot append to "${key}": it is not a list`);
+    }
+    next[key] = [...current, ...structuredClone(items)];
+  }
+  return next as T;
+}
+
+// ─── Reading ─────────────────────────────────────────────────────────────────
+
+/** Parse one log line. Returns null if it is not a snapshot or delta record. */
+export function parseLogLine(line: string): PlanLogRecord | null {
+  try {
+    const record = JSON.parse(line) as PlanLogRecord | null;
+    if (!record || typeof record !== 'object') return null;
+    if (typeof record.session !== 'object' && typeof record.delta !== 'object') return null;
+    return record;
+  } catch {
+    return null;
+  }
+}
+
+/** Parse a whole log, skipping blank lines. Throws TypeError on the first unreadable line. */
+export function parseLog(content: string): PlanLogRecord[] {
+  return content
+    .split('\n')
+    .filter((line) => line.trim() !== '')
+    .map((line, i) => {
+      const record = parseLogLine(line);
+      if (!record) throw new TypeError(`Line ${String(i + 1)} is not a valid event`);
+      return record;
+    });
+}
+
+/** Run `task`, prefixing its error with the index of the event being replayed. */
+function atEvent<T>(index: number, task: () => T): T {
+  try {
+    return task();
+  } catch (error) {
+    throw new TypeError(`Event ${String(index)}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Replay records into events with the full session state after each one, upgraded to
+ * SCHEMA_VERSION and validated. Throws TypeError if the log does not start with a snapshot, a
+ * delta does not apply or a state cannot be upgraded to a valid session.
+ */
+export function replayRecords(records: PlanLogRecord[]): PlanEvent[] {
+  const events: PlanEvent[] = [];
+  let state: SessionData | undefined;
+  let stateVersion = 1;
+  for (const [i, { session, delta, schemaVersion = 1, ...rest }] of records.entries()) {
+    if (session) {
+      state = session as unknown as SessionData;
+    } else if (state && delta) {
+      // A delta applies to the state as its writer saw it, so bring the base up to that version
+      const [before, from] = [state, stateVersion];
+      const base = atEvent(i, () => migrateSession(before, from, schemaVersion));
+      state = atEvent(i, () => applyDelta(base, delta));
+    } else {
+      throw new TypeError(`Event ${String(i)} has no earlier snapshot to apply its changes to`);
+    }
+    stateVersion = schemaVersion;
+    const current = state;
+    events.push({
+      ...rest,
+      session: atEvent(i, () => validateSession(migrateSession(current, schemaVersion))),
+    });
+  }
+  return events;
+}
+
+/**
+ * The state after the last line, replayed from the last snapshot only, so unreadable lines
+ * before it do not matter. Throws TypeError if there is no snapshot or a later line is unreadable.
+ */
+export function replayTail(content: string): LogTail {
+  const lines = content.split('\n').filter((line) => line.trim() !== '');
+  const start = lines.findLastIndex((line) => parseLogLine(line)?.session !== undefined);
+  if (start === -1) throw new TypeError('The log has no snapshot');
+  const events = replayRecords(parseLog(lines.slice(start).join('\n')));
+  return { session: events[events.length - 1].session, sinceSnapshot: events.length };
+}
+
+// ─── Writing ─────────────────────────────────────────────────────────────────
+
+/**
+ * The record for an event appended after `previous`: a delta, or a snapshot when there is no
+ * known previous state or SNAPSHOT_EVERY lines have passed since the last one.
+ */
+export function toLogRecord({ session, ...rest }: PlanEvent, previous?: LogTail): PlanLogRecord {
+  return previous && previous.sinceSnapshot < SNAPSHOT_EVERY
+    ? { ...rest, schemaVersion: SCHEMA_VERSION, delta: diffState(previous.session, session) }
+    : { ...rest, schemaVersion: SCHEMA_VERSION, session };
+}
+
+/** Encode events as log content in the current format. */
+export function encodeLog(events: PlanEvent[]): string {
+  let previous: LogTail | undefined;
+  let content = '';
+  for (const event of events) {
+    const record = toLogRecord(event, previous);
+    content += JSON.stringify(record) + '\n';
+    previous = {
+      session: event.session,
+      sinceSnapshot: record.session ? 1 : (previous?.sinceSnapshot ?? 0) + 1,
+    };
+  }
+  return content;
+}
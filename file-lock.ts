@@ -0,0 +1,123 @@
+/**
+ * Cross-process file locks for the shared plans directory.
+ *
+ * Every editor window spawns its own stdio server, and they all write the same index files.
+ * A lock is a `<file>.lock` file created exclusively (O_EXCL); whoever creates it holds the lock
+ * until it is removed. The holder touches the file while its task runs, so a lock older than the
+ * stale timeout was left by a crashed process and is broken.
+ *
+ * Each lock file holds a token unique to its holder. Breaking or releasing a lock first renames
+ * the file aside, which only one process can do, and then checks the token: a lock that turns
+ * out to belong to someone else is put back instead of deleted.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { link, readFile, rename, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface FileLockOptions {
+  /** Give up after waiting this long for another holder. */
+  timeoutMs?: number;
+  /** Break a lock older than this. The holder refreshes it at half this interval. */
+  staleMs?: number;
+  /** Pause between attempts. */
+  retryMs?: number;
+}
+
+export const LOCK_TIMEOUT_MS = 10_000;
+export const LOCK_STALE_MS = 5000;
+const LOCK_RETRY_MS = 10;
+
+// ─── Locking ─────────────────────────────────────────────────────────────────
+
+function hasCode(error: unknown, code: string): boolean {
+  return error instanceof Error && (error as NodeJS.ErrnoException).code === code;
+}
+
+/** The lock file's token and age, or null if it was released meanwhile. */
+async function readLock(lockPath: string): Promise<{ token: string; ageMs: number } | null> {
+  try {
+    // Token first: a lock replaced before the stat then looks fresh and is left alone
+    const token = await readFile(lockPath, 'utf8');
+    return { token, ageMs: Date.now() - (await stat(lockPath)).mtimeMs };
+  } catch (error) {
+    if (hasCode(error, 'ENOENT')) return null;
+    throw error;
+  }
+}
+
+/**
+ * Delete the lock file if it still holds `token`. The file is renamed aside first, so of
+ * several processes removing the same lock only one gets it; a lock someone else has taken in
+ * the meantime is put back. Returns whether the lock was removed.
+ */
+async function removeLock(lockPath: string, token: string): Promise<boolean> {
+  // .tmp, so verify_plans cleans up one left behind by a crash
+  const aside = `${lockPath}.${randomUUID()}.tmp`;
+  try {
+    await rename(lockPath, aside);
+  } catch (error) {
+    if (hasCode(error, 'ENOENT')) return false;
+    throw error;
+  }
+  try {
+    if ((await readFile(aside, 'utf8')) === token) return true;
+    // Fails if yet another process took the lock while it was aside
+    await link(aside, lockPath).catch(() => undefined);
+    return false;
+  } finally {
+    await rm(aside, { force: true });
+  }
+}
+
+/**
+ * Run `task` while holding the lock at `lockPath`, waiting for other holders first.
+ * Throws if the lock cannot be taken within the timeout or the lock file cannot be created.
+ */
+export async function withFileLock<T>(
+  lockPath: string,
+  task: () => Promise<T>,
+  {
+    timeoutMs = LOCK_TIMEOUT_MS,
+    staleMs = LOCK_STALE_MS,
+    retryMs = LOCK_RETRY_MS,
+  }: FileLockOptions = {}
+): Promise<T> {
+  // The PID only helps whoever finds a leftover lock on disk
+  const token = `${String(process.pid)} ${randomUUID()}\n`;
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    try {
+      await writeFile(lockPath, token, { flag: 'wx' });
+      break;
+    } catch (error) {
+      if (!hasCode(error, 'EEXIST')) throw error;
+    }
+    const held = await readLock(lockPath);
+    if (held === null) continue;
+    if (held.ageMs >= staleMs) {
+      await removeLock(lockPath, held.token);
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out after ${String(timeoutMs)} ms waiting for lock ${lockPath}`);
+    }
+    await sleep(retryMs);
+  }
+
+  // Keep the lock fresh so a long task isn't mistaken for a crashed holder
+  const heartbeat = setInterval(() => {
+    const now = new Date();
+    utimes(lockPath, now, now).catch(() => undefined);
+  }, staleMs / 2);
+  heartbeat.unref();
+  try {
+    return await task();
+  } finally {
+    clearInterval(heartbeat);
+    // Leave the lock alone if another process broke it and took it over
+    await removeLock(lockPath, token);
+  }
+}
@@ -2,24 +2,59 @@
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { RootsListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 
 import {
   booleanSchema,
   numberSchema,
   optionalBooleanSchema,
+  optionalIndexSchema,
   optionalNumberSchema,
   optionalScoreSchema,
 } from './coercion.js';
 import { SequentialThinkingServer } from './lib.js';
+import { DEFAULT_LIST_LIMIT, toPlanSummary } from './persistence.js';
 import { DeepPlanningServer } from './planning.js';
+import { parseProjectRootArg, rootPaths } from './roots.js';
+import { DEFAULT_SEARCH_LIMIT, MAX_MATCHES_PER_RESULT } from './search.js';
 
 const server = new McpServer({
   name: 'sequential-thinking-server',
   version: '1.0.3',
 });
 
-const thinkingServer = new SequentialThinkingServer();
+/** Report an error that keeps the server from starting, and exit. */
+function exitOnFatalError(error: unknown): never {
+  console.error('Fatal error running server:', error);
+  process.exit(1);
+}
+
+/**
+ * The planning and thinking servers for the command-line arguments. A --project-root without a
+ * directory or an unknown storage backend is a fatal startup error, like a failure in runServer.
+ */
+function createServers(): {
+  planningServer: DeepPlanningServer;
+  thinkingServer: SequentialThinkingServer;
+} {
+  try {
+    // An explicit --project-root wins over the workspace roots the client reports
+    const projectRoot = parseProjectRootArg(process.argv.slice(2));
+    const planningServer = new DeepPlanningServer(projectRoot);
+    // Share one storage backend so a memory or SQLite store is not opened twice
+    const thinkingServer = new SequentialThinkingServer(
+      projectRoot,
+      planningServer,
+      planningServer.getPersistence().getStorage()
+    );
+    return { planningServer, thinkingServer };
+  } catch (error) {
+    return exitOnFatalError(error);
+  }
+}
+
+const { planningServer, thinkingServer } = createServers();
 
 server.registerTool(
   'sequential_thinking',
@@ -67,6 +102,12 @@ Parameters explained:
 - branchId: Identifier for the current branch (if any)
 - needsMoreThoughts: If reaching end but realizing more thoughts needed
 
+- sessionId: Chain to continue (returned in every response). Pass it to keep parallel tasks isolated or to resume a chain after a restart
+- planSessionId: A deep_planning session ID (dp-...) to attach this thought to; it is recorded under the plan's current phase and appears in the plan's "Reasoning Trail"
+
+Each reasoning chain is saved to disk under its own sessionId.
+Without sessionId, thought 1 (not a revision or branch) starts a new chain and later thoughts continue the most recent one.
+
 You should:
 1. Start with an initial estimate of needed thoughts, but be ready to adjust
 2. Feel free to question or revise previous thoughts
@@ -91,17 +132,27 @@ You should:
       branchFromThought: optionalNumberSchema.describe('Branching point thought number'),
       branchId: z.string().optional().describe('Branch identifier'),
       needsMoreThoughts: optionalBooleanSchema.describe('If more thoughts are needed'),
+      sessionId: z
+        .string()
+        .optional()
+        .describe('Thinking chain to continue or resume (e.g., "st-kR3xT9vW")'),
+      planSessionId: z
+        .string()
+        .optional()
+        .describe('deep_planning session to attach this thought to (e.g., "dp-kR3xT9vW")'),
     },
     outputSchema: {
+      sessionId: z.string(),
       thoughtNumber: z.number(),
       totalThoughts: z.number(),
       nextThoughtNeeded: z.boolean(),
       branches: z.array(z.string()),
       thoughtHistoryLength: z.number(),
+      planSessionId: z.string().optional(),
     },
   },
-  (args) => {
-    const result = thinkingServer.processThought(args);
+  async (args) => {
+    const result = await thinkingServer.processThought(args);
 
     if (result.isError) {
       return result;
@@ -117,7 +168,37 @@ You should:
   }
 );
 
-const planningServer = new DeepPlanningServer();
+// ─── get_thoughts tool ───────────────────────────────────────────────────────
+
+server.registerTool(
+  'get_thoughts',
+  {
+    title: 'Get Thoughts',
+    description: `Read back a recorded sequential_thinking chain.
+Returns the full chain as a nested tree:
+- thoughts: main-line thoughts in order
+- revisedBy: on each thought, the thought numbers of revisions that reconsider it
+- branches: on each thought, the branches that fork from it, with their own thoughts
+
+Formats:
+- "json": Nested tree (default)
+- "mermaid": Mermaid flowchart — main thoughts as a spine, dashed revision back-edges, branch subgraphs
+- "dot": Graphviz DOT graph with the same layout
+
+Defaults to the active chain when sessionId is omitted.`,
+    inputSchema: {
+      sessionId: z
+        .string()
+        .optional()
+        .describe('Thinking chain to read (e.g., "st-kR3xT9vW"). Defaults to the active chain.'),
+      format: z
+        .enum(['json', 'mermaid', 'dot'])
+        .optional()
+        .describe('Output format: "json" (default), "mermaid" or "dot"'),
+    },
+  },
+  async (args) => thinkingServer.getThoughts(args.sessionId, args.format)
+);
 
 server.registerTool(
   'deep_planning',
@@ -126,21 +207,36 @@ server.registerTool(
     description: `A structured planning tool that manages multi-phase planning sessions.
 Complements sequential_thinking by tracking planning state while the LLM reasons deeply.
 
-Workflow: init → clarify → explore → evaluate → finalize
-- init: Define the problem, context, and constraints
+Workflow: init → clarify → explore → evaluate → finalize (→ revise → ... → finalize)
+- init: Define the problem, context, constraints, and optionally custom evaluation criteria, tags, owner and project
 - clarify: Record clarifying questions and answers (repeatable)
 - explore: Record approach branches with pros/cons (repeatable)
-- evaluate: Score approaches on feasibility, completeness, coherence, risk (repeatable)
+- evaluate: Score approaches against the session's criteria (repeatable; several evaluators may score the same approach)
 - finalize: Select best approach and generate structured implementation plan
+- revise: Reopen a finalized plan as a new version, then clarify/explore/evaluate and finalize again
+- undo: Roll the session back to its state before the last step (valid from any phase; repeat to step further back)
 
 Each phase returns valid next phases to guide the workflow.
-Complex fields (pros, cons, steps, risks, constraints) are passed as JSON strings.
+Complex fields (pros, cons, steps, risks, constraints, criteria, scores, tags) are passed as JSON strings.
 
-Use sequential_thinking for deep reasoning between phases.
+Evaluation criteria default to feasibility (0.3), completeness (0.25), coherence (0.25) and risk (0.2, lower is better).
+Override them per session with "criteria" on init, e.g. [{"name":"cost","weight":2,"lowerIsBetter":true},{"name":"speed","weight":1}],
+or for all new sessions with a "criteria" array in yggdrasil-config.json in the plans directory.
+Weights are normalized. Score custom criteria with "scores", e.g. {"cost":3,"speed":8}; unscored criteria count as 5.
+
+On finalize, step dependencies must reference other steps by 1-based number and must not form a cycle.
+The plan then includes an execution order, groups of steps that can run in parallel, and the critical path
+weighted by complexity (low 1, medium 2, high 3; unset counts as medium).
+
+For multi-agent evaluation, give each reviewer or sub-agent its own evaluatorId. Scores for an approach are then
+aggregated (mean, median, spread) and the finalized plan flags approaches where evaluators disagree.
+
+Use sequential_thinking for deep reasoning between phases, passing this sessionId as its planSessionId
+so the thoughts are attached to the current phase and rendered in the final plan's "Reasoning Trail".
 Use deep_planning to record conclusions and track planning state.`,
     inputSchema: {
       phase: z
-        .enum(['init', 'clarify', 'explore', 'evaluate', 'finalize'])
+        .enum(['init', 'clarify', 'explore', 'evaluate', 'finalize', 'revise', 'undo'])
         .describe('Current planning phase'),
       sessionId: z
         .string()
@@ -152,6 +248,15 @@ Use deep_planning to record conclusions and track planning state.`,
       problem: z.string().optional().describe('Problem statement (required for init)'),
       context: z.string().optional().describe('Additional background context'),
       constraints: z.string().optional().describe('JSON array of constraint strings'),
+      criteria: z
+        .string()
+        .optional()
+        .describe('JSON array of evaluation criteria: {name, weight, lowerIsBetter?}'),
+      tags: z.string().optional().describe('JSON array of tag strings'),
+      owner: z.string().optional().describe('Who owns the plan, e.g. a person or team'),
+      project: z.string().optional().describe('Project or repository the plan belongs to'),
+      // Revise fields
+      reason: z.string().optional().describe('Why the finalized plan is being revised'),
       // Clarify fields
       question: z.string().optional().describe('Clarifying question (required for clarify)'),
       answer: z.string().optional().describe('Answer to the clarifying question'),
@@ -169,6 +274,14 @@ Use deep_planning to record conclusions and track planning state.`,
       completeness: optionalScoreSchema.describe('Completeness score 0-10'),
       coherence: optionalScoreSchema.describe('Coherence score 0-10'),
       risk: optionalScoreSchema.describe('Risk score 0-10 (lower is better)'),
+      scores: z
+        .string()
+        .optional()
+        .describe('JSON object mapping criterion names to scores 0-10, e.g. {"cost":3}'),
+      evaluatorId: z
+        .string()
+        .optional()
+        .describe('Reviewer or sub-agent producing this evaluation (one evaluation per evaluator)'),
       rationale: z.string().optional().describe('Reasoning for evaluation scores'),
       recommendation: z.string().optional().describe('pursue, refine, or abandon'),
       // Finalize fields
@@ -176,7 +289,12 @@ Use deep_planning to record conclusions and track planning state.`,
         .string()
         .optional()
         .describe('Branch ID of chosen approach (required for finalize)'),
-      steps: z.string().optional().describe('JSON array of implementation step objects'),
+      steps: z
+        .string()
+        .optional()
+        .describe(
+          'JSON array of step objects: {title, description, files?, dependencies? (1-based step numbers), complexity? (low|medium|high)}'
+        ),
       risks: z
         .string()
         .optional()
@@ -195,39 +313,141 @@ server.registerTool(
   'list_plans',
   {
     title: 'List Plans',
-    description: `List saved deep_planning sessions from the plans index.
+    description: `List saved deep_planning sessions from the plans index, one page at a time.
 Supports optional filters:
-- status: "complete" (finalized plans) or "in-progress" (active sessions)
+- status: "complete" (finalized plans), "in-progress" (active sessions) or "archived"
 - keyword: Search in problem text (case-insensitive)
+- phase: Current phase, e.g. "evaluate" or "done"
+- selectedBranch: Branch ID of the approach selected at finalize
+- tags: Comma-separated tags; a plan must carry all of them
+- owner / project: Set on init or with update_plan_metadata
+- createdAfter / createdBefore / updatedAfter / updatedBefore: ISO 8601 dates or timestamps (inclusive)
+
+Archived plans (see archive_plan) are only listed with status "archived".
 
-Returns a JSON array of plan summaries sorted by creation date (newest first).`,
+Sorted by creation date, newest first. Use sortBy "updated" or "finalized" and order "asc"/"desc" to change it.
+Returns at most limit plans (default ${String(DEFAULT_LIST_LIMIT)}) plus "total" and "nextCursor"; pass nextCursor as cursor
+(with the same filters and sort) to get the next page.
+Set summary to true for compact entries: sessionId, problem, phase, updatedAt, selectedBranch, approachCount, topScore,
+plus tags, owner and project when set.
+Lineage: forked plans carry "forkedFrom" (parent sessionId and event index), and every plan lists its "forks".
+Set allRoots to true to list plans from the plans directories of all workspace roots; each plan then carries its "plansDir".`,
     inputSchema: {
       status: z
-        .enum(['complete', 'in-progress'])
+        .enum(['complete', 'in-progress', 'archived'])
         .optional()
-        .describe('Filter by status: "complete" or "in-progress"'),
+        .describe('Filter by status: "complete", "in-progress" or "archived"'),
       keyword: z.string().optional().describe('Search keyword in problem text'),
+      phase: z.string().optional().describe('Filter by current phase'),
+      selectedBranch: z.string().optional().describe('Filter by selected approach branch ID'),
+      tags: z.string().optional().describe('Comma-separated tags the plans must all carry'),
+      owner: z.string().optional().describe('Filter by owner (case-insensitive)'),
+      project: z.string().optional().describe('Filter by project (case-insensitive)'),
+      createdAfter: z.string().optional().describe('Only plans created at or after this date'),
+      createdBefore: z.string().optional().describe('Only plans created at or before this date'),
+      updatedAfter: z.string().optional().describe('Only plans updated at or after this date'),
+      updatedBefore: z.string().optional().describe('Only plans updated at or before this date'),
+      sortBy: z
+        .enum(['created', 'updated', 'finalized'])
+        .optional()
+        .describe('Sort field (default "created")'),
+      order: z.enum(['asc', 'desc']).optional().describe('Sort order (default "desc")'),
+      limit: optionalNumberSchema.describe(
+        `Maximum plans per page (default ${String(DEFAULT_LIST_LIMIT)})`
+      ),
+      cursor: z.string().optional().describe('nextCursor from the previous page'),
+      summary: optionalBooleanSchema.describe('Return compact plan summaries (default false)'),
+      allRoots: optionalBooleanSchema.describe(
+        'List plans from every workspace root, not just the current project (default false)'
+      ),
+    },
+  },
+  async ({ summary, tags, ...query }) => {
+    try {
+      const page = await planningServer.listPlans({
+        ...query,
+        ...(tags && {
+          tags: tags
+            .split(',')
+            .map((t) => t.trim())
+            .filter(Boolean),
+        }),
+      });
+      const plans = summary ? page.plans.map((p) => toPlanSummary(p)) : page.plans;
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(
+              {
+                count: plans.length,
+                total: page.total,
+                nextCursor: page.nextCursor,
+                plans,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(
+              { error: error instanceof Error ? error.message : String(error), status: 'failed' },
+              null,
+              2
+            ),
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// ─── search_plans tool ──────────────────────────────────────────────────────
+
+server.registerTool(
+  'search_plans',
+  {
+    title: 'Search Plans',
+    description: `Full-text search across saved deep_planning sessions.
+Searches the problem, context, constraints, clarifying questions and answers, approach names,
+descriptions, pros and cons, evaluation rationales and recommendations, implementation steps and risks.
+
+The query is split into words (case-insensitive); plans matching more words rank higher, and text
+containing the whole query as a phrase ranks highest. Problem statements and approach names weigh more.
+Each result lists up to ${String(MAX_MATCHES_PER_RESULT)} matching fields with a snippet, e.g. to find the plan
+where an approach was rejected: query "redis abandon" or "redis".
+Set allRoots to true to search the plans directories of all workspace roots; each result then carries its "plansDir".`,
+    inputSchema: {
+      query: z.string().min(1).describe('Words or phrase to search for'),
+      limit: optionalNumberSchema.describe(
+        `Maximum number of plans to return (default ${String(DEFAULT_SEARCH_LIMIT)})`
+      ),
+      includeArchived: optionalBooleanSchema.describe('Also search archived plans (default false)'),
+      allRoots: optionalBooleanSchema.describe(
+        'Search every workspace root, not just the current project (default false)'
+      ),
     },
   },
   async (args) => {
-    const persistence = planningServer.getPersistence();
-    const plans = await persistence.listPlans({
-      status: args.status,
-      keyword: args.keyword,
+    const results = await planningServer.searchPlans(args.query, {
+      limit: args.limit,
+      includeArchived: args.includeArchived,
+      allRoots: args.allRoots,
     });
 
     return {
       content: [
         {
           type: 'text' as const,
-          text: JSON.stringify(
-            {
-              count: plans.length,
-              plans,
-            },
-            null,
-            2
-          ),
+          text: JSON.stringify({ query: args.query, count: results.length, results }, null, 2),
         },
       ],
     };
@@ -243,7 +463,7 @@ server.registerTool(
     description: `Retrieve a saved deep_planning session by its session ID.
 Returns the plan in the requested format:
 - "markdown": Rendered Markdown plan (default, only available for finalized plans)
-- "jsonl": Raw JSONL event log (full session history for reconstruction)`,
+- "jsonl": Raw JSONL event log: one line per step, each a full snapshot or the changes since the previous line`,
     inputSchema: {
       sessionId: z.string().describe('The session ID to retrieve (e.g., "dp-kR3xT9vW")'),
       format: z
@@ -253,7 +473,7 @@ Returns the plan in the requested format:
     },
   },
   async (args) => {
-    const persistence = planningServer.getPersistence();
+    const persistence = await planningServer.persistenceOf(args.sessionId);
     const result = await persistence.getPlan(args.sessionId, args.format ?? 'markdown');
 
     if (!result.found) {
@@ -269,13 +489,277 @@ Returns the plan in the requested format:
   }
 );
 
+// ─── fork_plan tool ─────────────────────────────────────────────────────────
+
+server.registerTool(
+  'fork_plan',
+  {
+    title: 'Fork Plan',
+    description: `Copy a saved deep_planning session into a new session to explore a different direction.
+The fork keeps the problem, clarifications, approaches and evaluations, gets its own "dp-" session ID,
+and becomes the active deep_planning session. The original session is left unchanged.
+
+By default the latest state is forked. Pass atEvent (0-based index into the session's JSONL log,
+see get_plan with format "jsonl") to fork from an earlier point.
+A fork of a finalized plan opens in the "revise" phase.`,
+    inputSchema: {
+      sessionId: z.string().describe('The session ID to fork (e.g., "dp-kR3xT9vW")'),
+      atEvent: optionalIndexSchema.describe(
+        'Fork the state after this JSONL event (0-based). Defaults to the latest event.'
+      ),
+    },
+  },
+  async (args) => planningServer.forkPlan(args)
+);
+
+// ─── diff_plans tool ────────────────────────────────────────────────────────
+
+server.registerTool(
+  'diff_plans',
+  {
+    title: 'Diff Plans',
+    description: `Compare two saved deep_planning snapshots and report what changed.
+Compares two sessions (sessionId and otherSessionId, e.g. a plan and its fork), or two points in one
+session's history (fromEvent and toEvent, 0-based JSONL event indices). Each side defaults to the
+latest event of its session.
+
+Reports added, removed and changed constraints, approaches, evaluation scores, steps, risks and
+success criteria, plus changes to the problem statement and selected approach.
+Returns the structured diff as JSON followed by a Markdown summary.`,
+    inputSchema: {
+      sessionId: z.string().describe('The "from" session ID (e.g., "dp-kR3xT9vW")'),
+      otherSessionId: z
+        .string()
+        .optional()
+        .describe(
+          'The "to" session ID. Defaults to sessionId to compare two events of one session.'
+        ),
+      fromEvent: optionalIndexSchema.describe(
+        'Event of sessionId to compare from (0-based). Defaults to the latest event.'
+      ),
+      toEvent: optionalIndexSchema.describe(
+        'Event of the "to" session to compare to (0-based). Defaults to the latest event.'
+      ),
+    },
+  },
+  async (args) => planningServer.diffPlans(args)
+);
+
+// ─── plan_history tool ──────────────────────────────────────────────────────
+
+server.registerTool(
+  'plan_history',
+  {
+    title: 'Plan History',
+    description: `Browse and time-travel through a saved deep_planning session's event log.
+Every deep_planning step is saved as one JSONL event; each event's full session state can be viewed or restored.
+
+Actions:
+- "list" (default): Every event with its index, timestamp, phase and what it changed
+  (approaches, evaluation scores, steps, risks, ...) compared to the previous event
+- "restore": Return the session to the state after event atEvent and make it the active session.
+  Use this to undo a bad explore or evaluate step. The restore is appended as a new event, so later
+  events stay in the log and can be restored again.
+- "fork": Copy the state after event atEvent into a new session (same as fork_plan)`,
+    inputSchema: {
+      sessionId: z.string().describe('The session ID (e.g., "dp-kR3xT9vW")'),
+      action: z
+        .enum(['list', 'restore', 'fork'])
+        .optional()
+        .describe('What to do: "list" (default), "restore" or "fork"'),
+      atEvent: optionalIndexSchema.describe(
+        'Event to restore or fork (0-based, as shown by "list"). Required for "restore" and "fork".'
+      ),
+    },
+  },
+  async (args) => planningServer.planHistory(args)
+);
+
+// ─── archive_plan tool ──────────────────────────────────────────────────────
+
+server.registerTool(
+  'archive_plan',
+  {
+    title: 'Archive Plan',
+    description: `Archive a saved deep_planning session so it no longer clutters list_plans.
+The plan's files are kept; list it with list_plans status "archived" and read it with get_plan as usual.
+Pass archived: false to unarchive. Continuing an archived session also brings it back.`,
+    inputSchema: {
+      sessionId: z.string().describe('The session ID to archive (e.g., "dp-kR3xT9vW")'),
+      archived: optionalBooleanSchema.describe('false to unarchive. Defaults to true.'),
+    },
+  },
+  async (args) => planningServer.archivePlan(args)
+);
+
+// ─── delete_plan tool ───────────────────────────────────────────────────────
+
+server.registerTool(
+  'delete_plan',
+  {
+    title: 'Delete Plan',
+    description: `Permanently delete a saved deep_planning session: its JSONL event log, Markdown plan and index entry.
+This cannot be undone. Use archive_plan to hide a plan without deleting it.`,
+    inputSchema: {
+      sessionId: z.string().describe('The session ID to delete (e.g., "dp-kR3xT9vW")'),
+    },
+  },
+  async (args) => planningServer.deletePlan(args)
+);
+
+// ─── update_plan_metadata tool ──────────────────────────────────────────────
+
+server.registerTool(
+  'update_plan_metadata',
+  {
+    title: 'Update Plan Metadata',
+    description: `Edit the tags, owner and project of a saved deep_planning session (or the active one).
+These are stored in the plans index so list_plans can filter by them.
+- tags: JSON array that replaces all tags
+- addTags / removeTags: JSON arrays of tags to add or remove
+- owner / project: New value; pass an empty string to clear it
+Fields that are not given stay as they are. The edit is recorded in plan_history as a "metadata" event.`,
+    inputSchema: {
+      sessionId: z.string().describe('The session ID to update (e.g., "dp-kR3xT9vW")'),
+      tags: z.string().optional().describe('JSON array of tags replacing the current ones'),
+      addTags: z.string().optional().describe('JSON array of tags to add'),
+      removeTags: z.string().optional().describe('JSON array of tags to remove'),
+      owner: z.string().optional().describe('Owner of the plan; empty string clears it'),
+      project: z.string().optional().describe('Project or repository; empty string clears it'),
+    },
+  },
+  async (args) => planningServer.updatePlanMetadata(args)
+);
+
+// ─── verify_plans tool ──────────────────────────────────────────────────────
+
+server.registerTool(
+  'verify_plans',
+  {
+    title: 'Verify Plans',
+    description: `Check the plans index against the files in the plans directory and report each inconsistency:
+- missing-log: an index entry whose JSONL log is gone
+- unindexed-log: a JSONL log with no index entry
+- corrupt-log: a JSONL log with unreadable lines
+- stale-entry: an index entry that disagrees with the last event of its log (e.g. its phase)
+- missing-markdown: an index entry pointing at a Markdown plan that is gone
+- orphaned-markdown: a Markdown plan whose session has no JSONL log
+- temp-file: a leftover tmp file from an interrupted write
+
+Set repair to true to fix them: entries are dropped, added or rebuilt from their logs, a corrupt tail of a log
+is cut, missing Markdown plans are re-rendered and tmp files removed. Orphaned Markdown plans are only reported.
+The same check runs on startup; set "startupCheck" in yggdrasil-config.json to "repair" or "off" to change that.`,
+    inputSchema: {
+      repair: optionalBooleanSchema.describe('Fix the issues found (default false)'),
+    },
+  },
+  async ({ repair }) => {
+    const result = await planningServer.verifyPlans(repair);
+    return {
+      content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+// ─── compact_plans tool ─────────────────────────────────────────────────────
+
+server.registerTool(
+  'compact_plans',
+  {
+    title: 'Compact Plans',
+    description: `Rewrite deep_planning JSONL logs in the compact format, where most lines hold only the changes since the previous step.
+Logs written by older versions store the whole session on every line and grow quickly with many approaches.
+Every event is kept, so plan_history, undo and diff_plans are unaffected; logs that would not shrink are left alone.
+Pass a sessionId to compact one plan; otherwise every plan is compacted.`,
+    inputSchema: {
+      sessionId: z
+        .string()
+        .optional()
+        .describe('The session to compact (e.g., "dp-kR3xT9vW"). Defaults to all plans.'),
+    },
+  },
+  async (args) => planningServer.compactPlans(args)
+);
+
+// ─── export_plan tool ───────────────────────────────────────────────────────
+
+server.registerTool(
+  'export_plan',
+  {
+    title: 'Export Plan',
+    description: `Export a saved deep_planning session as one portable JSON bundle, e.g. to hand it to a colleague.
+The bundle holds the plan's full JSONL history, its rendered Markdown plan (if finalized) and its index entry.
+Without file, the bundle is returned as the response; with file, it is written to that file in the "bundles"
+folder of the plans directory instead. Paths that leave that folder are refused.
+Load it on another machine with import_plan.`,
+    inputSchema: {
+      sessionId: z.string().describe('The session ID to export (e.g., "dp-kR3xT9vW")'),
+      file: z
+        .string()
+        .optional()
+        .describe(
+          'File name to write the bundle to, relative to the plans directory\'s "bundles" folder'
+        ),
+    },
+  },
+  async (args) => planningServer.exportPlan(args)
+);
+
+// ─── import_plan tool ───────────────────────────────────────────────────────
+
+server.registerTool(
+  'import_plan',
+  {
+    title: 'Import Plan',
+    description: `Import a plan bundle written by export_plan into the local plans directory and index it.
+Pass the bundle JSON as bundle, or the name of a bundle file in the "bundles" folder of the plans directory as file.
+If a plan with the same session ID already exists here:
+- "rename" (default): import under a new session ID and keep the local plan
+- "replace": delete the local plan and import the bundle in its place
+The imported plan is not made active; continue it with deep_planning and its sessionId.`,
+    inputSchema: {
+      bundle: z.string().optional().describe('The bundle JSON, as returned by export_plan'),
+      file: z
+        .string()
+        .optional()
+        .describe('Bundle file name, relative to the plans directory\'s "bundles" folder'),
+      onCollision: z
+        .enum(['rename', 'replace'])
+        .optional()
+        .describe('What to do if the session ID is taken: "rename" (default) or "replace"'),
+    },
+  },
+  async (args) => planningServer.importPlan(args)
+);
+
+// ─── Workspace roots ────────────────────────────────────────────────────────
+
+/**
+ * Ask the client for its workspace roots and route new sessions to the first one's plans.
+ * Plans directories seen for the first time get the same maintenance as the startup one.
+ */
+async function refreshRoots(): Promise<void> {
+  if (!server.server.getClientCapabilities()?.roots) return;
+  try {
+    const { roots } = await server.server.listRoots();
+    planningServer.setProjectRoots(rootPaths(roots));
+  } catch (error) {
+    console.error(
+      `[yggdrasil] Failed to read workspace roots: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return;
+  }
+  await planningServer.maintainPlans();
+}
+
+server.server.oninitialized = () => void refreshRoots();
+server.server.setNotificationHandler(RootsListChangedNotificationSchema, () => refreshRoots());
+
 async function runServer() {
+  await planningServer.maintainPlans();
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('Sequential Thinking MCP Server running on stdio');
 }
 
-await runServer().catch((error: unknown) => {
-  console.error('Fatal error running server:', error);
-  process.exit(1);
-});
+await runServer().catch(exitOnFatalError);
@@ -1,5 +1,9 @@
 import chalk from 'chalk';
 
+import { type DiagramFormat, renderDiagram } from './diagram.js';
+import { generateId, PersistenceManager } from './persistence.js';
+import type { StorageBackend } from './storage.js';
+
 export interface ThoughtData {
   thought: string;
   thoughtNumber: number;
@@ -10,16 +14,274 @@ export interface ThoughtData {
   branchId?: string;
   needsMoreThoughts?: boolean;
   nextThoughtNeeded: boolean;
+  sessionId?: string;
+  planSessionId?: string;
+}
+
+export interface ThinkingSession {
+  sessionId: string;
+  thoughtHistory: ThoughtData[];
+  branches: Record<string, ThoughtData[]>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Receives thoughts that should be attached to a deep_planning session.
+ * Implemented by DeepPlanningServer; returns an error message, or null on success.
+ */
+export interface PlanLinker {
+  attachThought(
+    planSessionId: string,
+    thinkingSessionId: string,
+    thought: ThoughtData
+  ): Promise<string | null>;
+}
+
+export interface ThoughtNode extends Omit<ThoughtData, 'sessionId' | 'planSessionId'> {
+  revisedBy: number[];
+  branches: ThoughtBranch[];
+}
+
+export interface ThoughtBranch {
+  branchId: string;
+  branchFromThought: number;
+  thoughts: ThoughtNode[];
+}
+
+export interface ThoughtTree {
+  sessionId: string;
+  createdAt: string;
+  updatedAt: string;
+  thoughtCount: number;
+  thoughts: ThoughtNode[];
+  /** Branches whose branchFromThought matches no recorded thought. */
+  unanchoredBranches: ThoughtBranch[];
+}
+
+/**
+ * Build the nested view of a chain: main-line thoughts in order, each revision linked from the
+ * thought it revises (`revisedBy`), and each branch nested under its `branchFromThought`.
+ */
+export function buildThoughtTree(session: ThinkingSession): ThoughtTree {
+  const mainLine: ThoughtNode[] = [];
+  const branchNodes = new Map<string, ThoughtBranch>();
+
+  for (const data of session.thoughtHistory) {
+    const node: ThoughtNode = { ...data, revisedBy: [], branches: [] };
+    if (data.branchId) {
+      let branch = branchNodes.get(data.branchId);
+      if (!branch) {
+        branch = {
+          branchId: data.branchId,
+          branchFromThought: data.branchFromThought ?? 0,
+          thoughts: [],
+        };
+        branchNodes.set(data.branchId, branch);
+      }
+      branch.thoughts.push(node);
+    } else {
+      mainLine.push(node);
+    }
+  }
+
+  // A revision first targets its own line, then the main line
+  const linkRevisions = (line: ThoughtNode[]): void => {
+    for (const node of line) {
+      if (!node.isRevision || node.revisesThought === undefined) continue;
+      const target =
+        line.find((n) => n !== node && n.thoughtNumber === node.revisesThought) ??
+        mainLine.find((n) => n !== node && n.thoughtNumber === node.revisesThought);
+      target?.revisedBy.push(node.thoughtNumber);
+    }
+  };
+  linkRevisions(mainLine);
+  for (const branch of branchNodes.values()) linkRevisions(branch.thoughts);
+
+  // Anchor branches on the main line first, then on an earlier branch (branch of a branch).
+  // Only earlier branches qualify, so nesting can never form a cycle.
+  const unanchoredBranches: ThoughtBranch[] = [];
+  const branches = [...branchNodes.values()];
+  for (const [position, branch] of branches.entries()) {
+    const anchor =
+      mainLine.find((n) => n.thoughtNumber === branch.branchFromThought) ??
+      branches
+        .slice(0, position)
+        .flatMap((b) => b.thoughts)
+        .find((n) => n.thoughtNumber === branch.branchFromThought);
+    if (anchor) {
+      anchor.branches.push(branch);
+    } else {
+      unanchoredBranches.push(branch);
+    }
+  }
+
+  return {
+    sessionId: session.sessionId,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    thoughtCount: session.thoughtHistory.length,
+    thoughts: mainLine,
+    unanchoredBranches,
+  };
 }
 
 export class SequentialThinkingServer {
-  private thoughtHistory: ThoughtData[] = [];
-  private branches: Record<string, ThoughtData[]> = {};
+  private sessions = new Map<string, ThinkingSession>();
+  private activeSessionId: string | null = null;
   private disableThoughtLogging: boolean;
+  private persistence: PersistenceManager;
+  private planLinker?: PlanLinker;
 
-  constructor() {
+  constructor(projectRoot?: string, planLinker?: PlanLinker, storage?: StorageBackend) {
     this.disableThoughtLogging =
       (process.env.DISABLE_THOUGHT_LOGGING ?? '').toLowerCase() === 'true';
+    this.persistence = new PersistenceManager(projectRoot, storage);
+    this.planLinker = planLinker;
+  }
+
+  /** Expose persistence manager so callers can flush pending writes. */
+  public getPersistence(): PersistenceManager {
+    return this.persistence;
+  }
+
+  /**
+   * A plain thought 1 (not a revision or branch) begins a new reasoning chain;
+   * every other thought continues the current one.
+   */
+  private startsNewChain(input: ThoughtData): boolean {
+    return input.thoughtNumber === 1 && !input.isRevision && !input.branchFromThought;
+  }
+
+  private createSession(): ThinkingSession {
+    const now = new Date().toISOString();
+    return {
+      sessionId: `st-${generateId(8)}`,
+      thoughtHistory: [],
+      branches: {},
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Pick the chain a thought belongs to.
+   * An explicit sessionId resumes that chain (from memory, else from disk); without one the
+   * active chain continues unless the thought starts a new one.
+   * New chains are registered by the caller once the thought passes validation.
+   * Returns null when the requested sessionId does not exist.
+   */
+  private async resolveSession(input: ThoughtData): Promise<ThinkingSession | null> {
+    if (input.sessionId) {
+      const cached = this.sessions.get(input.sessionId);
+      if (cached) return cached;
+
+      const loaded = await this.persistence.loadThinkingSession(input.sessionId);
+      if (!loaded) return null;
+      this.sessions.set(loaded.sessionId, loaded);
+      return loaded;
+    }
+
+    const active = this.activeSessionId ? this.sessions.get(this.activeSessionId) : undefined;
+    if (!active || this.startsNewChain(input)) {
+      return this.createSession();
+    }
+    return active;
+  }
+
+  /**
+   * Return the full recorded chain as a nested tree (json) or a diagram (mermaid, dot).
+   * Defaults to the active chain when no sessionId is given.
+   */
+  public async getThoughts(
+    sessionId?: string,
+    format: 'json' | DiagramFormat = 'json'
+  ): Promise<{
+    content: { type: 'text'; text: string }[];
+    isError?: boolean;
+  }> {
+    const targetId = sessionId ?? this.activeSessionId;
+    if (!targetId) {
+      return this.errorResponse('No active thinking session. Pass a sessionId to read a chain.');
+    }
+
+    let session = this.sessions.get(targetId);
+    if (!session) {
+      const loaded = await this.persistence.loadThinkingSession(targetId);
+      if (!loaded) {
+        return this.errorResponse(`Thinking session "${targetId}" not found.`);
+      }
+      this.sessions.set(loaded.sessionId, loaded);
+      session = loaded;
+    }
+
+    const tree = buildThoughtTree(session);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: format === 'json' ? JSON.stringify(tree, null, 2) : renderDiagram(tree, format),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Check that revision and branch references point at thoughts recorded in this chain.
+   * Returns an error message listing the valid thought numbers, or null when valid.
+   */
+  private validateReferences(session: ThinkingSession, thought: ThoughtData): string | null {
+    const recorded = [...new Set(session.thoughtHistory.map((t) => t.thoughtNumber))].toSorted(
+      (a, b) => a - b
+    );
+    const available = recorded.length > 0 ? recorded.join(', ') : '(none)';
+
+    if (thought.isRevision && thought.revisesThought === undefined) {
+      return 'A revision (isRevision: true) requires "revisesThought".';
+    }
+
+    if (thought.branchId && thought.branchFromThought === undefined) {
+      return `A branch (branchId: "${thought.branchId}") requires "branchFromThought".`;
+    }
+
+    if (thought.revisesThought !== undefined) {
+      if (thought.revisesThought === thought.thoughtNumber) {
+        return `Thought ${thought.thoughtNumber} cannot revise itself. Available: ${available}`;
+      }
+      if (thought.revisesThought > thought.thoughtNumber) {
+        return `Thought ${thought.thoughtNumber} cannot revise future thought ${thought.revisesThought}. Available: ${available}`;
+      }
+      if (!recorded.includes(thought.revisesThought)) {
+        return `No thought found with number ${thought.revisesThought} to revise. Available: ${available}`;
+      }
+    }
+
+    if (thought.branchFromThought !== undefined) {
+      if (!recorded.includes(thought.branchFromThought)) {
+        return `No thought found with number ${thought.branchFromThought} to branch from. Available: ${available}`;
+      }
+      const existing = thought.branchId ? session.branches[thought.branchId]?.at(0) : undefined;
+      if (existing && existing.branchFromThought !== thought.branchFromThought) {
+        return `Branch "${thought.branchId}" already branches from thought ${existing.branchFromThought}, not ${thought.branchFromThought}.`;
+      }
+    }
+
+    return null;
+  }
+
+  private errorResponse(message: string): {
+    content: { type: 'text'; text: string }[];
+    isError: true;
+  } {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify({ error: message, status: 'failed' }, null, 2),
+        },
+      ],
+      isError: true,
+    };
   }
 
   private formatThought(thoughtData: ThoughtData): string {
@@ -58,28 +320,60 @@ export class SequentialThinkingServer {
 └${border}┘`;
   }
 
-  public processThought(input: ThoughtData): {
+  public async processThought(input: ThoughtData): Promise<{
     content: { type: 'text'; text: string }[];
     isError?: boolean;
-  } {
+  }> {
     try {
-      // Validation happens at the tool registration layer via Zod
+      // Field types are validated at the tool registration layer via Zod;
+      // references between thoughts are checked by validateReferences below
+      const { sessionId: requestedSessionId, planSessionId, ...thought } = input;
+
       // Adjust totalThoughts if thoughtNumber exceeds it
-      if (input.thoughtNumber > input.totalThoughts) {
-        input.totalThoughts = input.thoughtNumber;
+      if (thought.thoughtNumber > thought.totalThoughts) {
+        thought.totalThoughts = thought.thoughtNumber;
       }
 
-      this.thoughtHistory.push(input);
+      const session = await this.resolveSession(input);
+      if (!session) {
+        return this.errorResponse(
+          `Thinking session "${requestedSessionId ?? ''}" not found. Omit sessionId with thoughtNumber 1 to start a new chain.`
+        );
+      }
+
+      const referenceError = this.validateReferences(session, thought);
+      if (referenceError) {
+        return this.errorResponse(referenceError);
+      }
 
-      if (input.branchFromThought && input.branchId) {
-        if (!(input.branchId in this.branches)) {
-          this.branches[input.branchId] = [];
+      if (planSessionId) {
+        const linkError = this.planLinker
+          ? await this.planLinker.attachThought(planSessionId, session.sessionId, thought)
+          : 'Linking to a planning session is not available on this server.';
+        if (linkError) {
+          return this.errorResponse(linkError);
         }
-        this.branches[input.branchId].push(input);
       }
 
+      this.sessions.set(session.sessionId, session);
+      this.activeSessionId = session.sessionId;
+
+      session.thoughtHistory.push(thought);
+
+      if (thought.branchFromThought && thought.branchId) {
+        if (!(thought.branchId in session.branches)) {
+          session.branches[thought.branchId] = [];
+        }
+        session.branches[thought.branchId].push(thought);
+      }
+      session.updatedAt = new Date().toISOString();
+
+      // Persist: append JSONL event + refresh index entry (fire-and-forget, tracked for flush)
+      this.persistence.track(this.persistence.appendThoughtEvent(session.sessionId, thought));
+      this.persistence.track(this.persistence.updateThinkingIndex(session));
+
       if (!this.disableThoughtLogging) {
-        const formattedThought = this.formatThought(input);
+        const formattedThought = this.formatThought(thought);
         console.error(formattedThought);
       }
 
@@ -89,11 +383,13 @@ export class SequentialThinkingServer {
             type: 'text' as const,
             text: JSON.stringify(
               {
-                thoughtNumber: input.thoughtNumber,
-                totalThoughts: input.totalThoughts,
-                nextThoughtNeeded: input.nextThoughtNeeded,
-                branches: Object.keys(this.branches),
-                thoughtHistoryLength: this.thoughtHistory.length,
+                sessionId: session.sessionId,
+                thoughtNumber: thought.thoughtNumber,
+                totalThoughts: thought.totalThoughts,
+                nextThoughtNeeded: thought.nextThoughtNeeded,
+                branches: Object.keys(session.branches),
+                thoughtHistoryLength: session.thoughtHistory.length,
+                ...(planSessionId && { planSessionId }),
               },
               null,
               2
@@ -102,22 +398,7 @@ export class SequentialThinkingServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: JSON.stringify(
-              {
-                error: error instanceof Error ? error.message : String(error),
-                status: 'failed',
-              },
-              null,
-              2
-            ),
-          },
-        ],
-        isError: true,
-      };
+      return this.errorResponse(error instanceof Error ? error.message : String(error));
     }
   }
 }
@@ -1,8 +1,12 @@
 /**
- * Persistence layer for deep_planning sessions.
+ * Persistence layer for deep_planning sessions and sequential_thinking chains.
  *
  * Implements hybrid JSONL event log + Markdown export with a lightweight JSON index.
+ * Thinking chains are stored as one JSONL event per thought under a `thinking/` subdirectory,
+ * with their own index file alongside the plans index.
  * Zero external dependencies — uses only Node.js built-ins (node:crypto, node:fs, node:path, node:os).
+ * Files are read and written through a StorageBackend (see storage.ts); the plans directory on
+ * disk is the default.
  *
  * Storage location resolves from Claude Code's plansDirectory setting:
  * 1. YGGDRASIL_PLANS_DIR env var (explicit override)
@@ -12,12 +16,32 @@
  */
 
 import { randomBytes } from 'node:crypto';
-import { readFileSync, readdirSync, existsSync } from 'node:fs';
-import { appendFile, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { readFileSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
 import { homedir } from 'node:os';
 import path from 'node:path';
 
+import { BUNDLE_FORMAT, BUNDLE_VERSION, type ImportCollision, type PlanBundle } from './bundle.js';
+import {
+  encodeLog,
+  type LogTail,
+  parseLog,
+  parseLogLine,
+  type PlanLogRecord,
+  replayRecords,
+  replayTail,
+  toLogRecord,
+} from './event-log.js';
+import { LOCK_STALE_MS } from './file-lock.js';
+import type { ThinkingSession, ThoughtData } from './lib.js';
 import type { PlanningSession } from './planning.js';
+import { DEFAULT_SEARCH_LIMIT, type SearchResult, searchSession } from './search.js';
+import {
+  createStorageBackend,
+  parseStorageKind,
+  type StorageBackend,
+  type StorageKind,
+} from './storage.js';
 
 // ─── Base62 ID Generation ────────────────────────────────────────────────────
 
@@ -32,14 +56,40 @@ export function generateId(size = 8): string {
   return Array.from(randomBytes(size), (b) => BASE62[b % 62]).join('');
 }
 
+// ─── Plan Events ─────────────────────────────────────────────────────────────
+
+/** One event of a planning session's log, with the full session state after the step. */
+export interface PlanEvent {
+  timestamp: string;
+  /** The step that produced this event: usually the session's phase, or "undo". */
+  phase: string;
+  session: PlanningSession;
+  /** Set when this event restored the session to the state after an earlier event. */
+  restoredFrom?: number;
+}
+
 // ─── Plans Index ─────────────────────────────────────────────────────────────
 
 export interface PlanIndexEntry {
   problem: string;
   createdAt: string;
+  /** Time of the last recorded step. Absent on older entries. */
+  updatedAt?: string;
   finalizedAt: string | null;
   selectedBranch: string | null;
   phase: string;
+  /** Plan version; bumped each time a finalized plan is revised. Absent on older entries. */
+  version?: number;
+  /** Parent session and event this plan was forked from. */
+  forkedFrom?: { sessionId: string; eventIndex: number };
+  /** When the plan was archived. Archived plans are hidden from list_plans unless requested. */
+  archivedAt?: string;
+  approachCount?: number;
+  /** Best mean weighted score of any evaluated approach, or null before any evaluation. */
+  topScore?: number | null;
+  tags?: string[];
+  owner?: string;
+  project?: string;
   filePaths: {
     jsonl: string;
     markdown: string | null;
@@ -48,6 +98,362 @@ export interface PlanIndexEntry {
 
 export type PlansIndex = Partial<Record<string, PlanIndexEntry>>;
 
+/** Build the index entry for a session's current state. A plan counts as finalized only while done. */
+export function buildIndexEntry(session: PlanningSession, markdown: string | null): PlanIndexEntry {
+  const scoresByBranch = new Map<string, number[]>();
+  for (const e of session.evaluations) {
+    scoresByBranch.set(e.branchId, [...(scoresByBranch.get(e.branchId) ?? []), e.weightedScore]);
+  }
+  const means = [...scoresByBranch.values()].map(
+    (scores) => scores.reduce((sum, score) => sum + score, 0) / scores.length
+  );
+
+  return {
+    problem: session.problem,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    finalizedAt: session.phase === 'done' ? session.updatedAt : null,
+    selectedBranch: session.selectedApproach ?? null,
+    phase: session.phase,
+    version: session.version ?? 1,
+    ...(session.forkedFrom && {
+      forkedFrom: {
+        sessionId: session.forkedFrom.sessionId,
+        eventIndex: session.forkedFrom.eventIndex,
+      },
+    }),
+    approachCount: session.approaches.length,
+    topScore: means.length > 0 ? Math.round(Math.max(...means) * 100) / 100 : null,
+    ...(session.tags && session.tags.length > 0 && { tags: session.tags }),
+    ...(session.owner && { owner: session.owner }),
+    ...(session.project && { project: session.project }),
+    filePaths: {
+      jsonl: `${session.sessionId}.jsonl`,
+      markdown,
+    },
+  };
+}
+
+// ─── Plan Listing ────────────────────────────────────────────────────────────
+
+export type PlanSortField = 'created' | 'updated' | 'finalized';
+
+/** Filters and ordering for listPlans. Dates are ISO 8601 dates or timestamps; bounds are inclusive. */
+export interface PlanListQuery {
+  status?: 'complete' | 'in-progress' | 'archived';
+  keyword?: string;
+  phase?: string;
+  selectedBranch?: string;
+  /** Plans carrying every one of these tags. Tag, owner and project match ignoring case. */
+  tags?: string[];
+  owner?: string;
+  project?: string;
+  createdAfter?: string;
+  createdBefore?: string;
+  updatedAfter?: string;
+  updatedBefore?: string;
+  /** Defaults to "created". */
+  sortBy?: PlanSortField;
+  /** Defaults to "desc" (newest first). */
+  order?: 'asc' | 'desc';
+}
+
+export type PlanListEntry = {
+  sessionId: string;
+  forks: string[];
+  /** The plans directory holding the plan; set when listing across several project roots. */
+  plansDir?: string;
+} & PlanIndexEntry;
+
+/** Compact form of a plan for list_plans summary mode. */
+export interface PlanSummary {
+  sessionId: string;
+  problem: string;
+  phase: string;
+  updatedAt: string;
+  selectedBranch: string | null;
+  approachCount: number;
+  topScore: number | null;
+  tags?: string[];
+  owner?: string;
+  project?: string;
+  plansDir?: string;
+}
+
+export interface PlanListPage<T> {
+  /** Plans matching the filters across all pages. */
+  total: number;
+  plans: T[];
+  /** Pass as `cursor` to get the next page; null on the last page. */
+  nextCursor: string | null;
+}
+
+/** Plans per list_plans page when no limit is given. */
+export const DEFAULT_LIST_LIMIT = 50;
+
+/** Entries written before updatedAt was indexed fall back to their last known time. */
+function updatedAtOf(entry: PlanIndexEntry): string {
+  return entry.updatedAt ?? entry.finalizedAt ?? entry.createdAt;
+}
+
+function sortValue(entry: PlanIndexEntry, sortBy: PlanSortField): string {
+  if (sortBy === 'updated') return updatedAtOf(entry);
+  if (sortBy === 'finalized') return entry.finalizedAt ?? '';
+  return entry.createdAt;
+}
+
+function parseDateFilter(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new TypeError(`${name} must be an ISO 8601 date or timestamp, got "${value}"`);
+  }
+  return time;
+}
+
+export function toPlanSummary(entry: PlanListEntry): PlanSummary {
+  return {
+    sessionId: entry.sessionId,
+    problem: entry.problem,
+    phase: entry.phase,
+    updatedAt: updatedAtOf(entry),
+    selectedBranch: entry.selectedBranch,
+    approachCount: entry.approachCount ?? 0,
+    topScore: entry.topScore ?? null,
+    ...(entry.tags && { tags: entry.tags }),
+    ...(entry.owner && { owner: entry.owner }),
+    ...(entry.project && { project: entry.project }),
+    ...(entry.plansDir && { plansDir: entry.plansDir }),
+  };
+}
+
+/** Sort plans in place by `sortBy` and `order`, ties broken by session ID. */
+export function sortPlans(entries: PlanListEntry[], query: PlanListQuery): PlanListEntry[] {
+  const sortBy = query.sortBy ?? 'created';
+  const sign = query.order === 'asc' ? 1 : -1;
+  return entries.sort(
+    (a, b) =>
+      sign *
+      (sortValue(a, sortBy).localeCompare(sortValue(b, sortBy)) ||
+        a.sessionId.localeCompare(b.sessionId))
+  );
+}
+
+/** Throws TypeError unless a list or search limit is a positive whole number. */
+function assertLimit(limit: number | undefined): void {
+  if (limit !== undefined && !(Number.isInteger(limit) && limit >= 1)) {
+    throw new TypeError(`Invalid limit ${String(limit)}. Pass a whole number of at least 1.`);
+  }
+}
+
+/**
+ * One page of plans sorted by sortPlans. The cursor marks the last plan of the previous page by
+ * its sort value and session ID, so plans created between calls do not shift later pages.
+ * Throws TypeError for a malformed cursor or a limit below 1.
+ */
+export function paginatePlans(
+  entries: PlanListEntry[],
+  query: PlanListQuery & { limit?: number; cursor?: string }
+): PlanListPage<PlanListEntry> {
+  const sortBy = query.sortBy ?? 'created';
+  const sign = query.order === 'asc' ? 1 : -1;
+  assertLimit(query.limit);
+  const limit = query.limit ?? DEFAULT_LIST_LIMIT;
+
+  let start = 0;
+  if (query.cursor) {
+    let after: unknown;
+    try {
+      after = JSON.parse(Buffer.from(query.cursor, 'base64url').toString('utf8'));
+    } catch {
+      after = null;
+    }
+    if (
+      !Array.isArray(after) ||
+      after.length !== 2 ||
+      typeof after[0] !== 'string' ||
+      typeof after[1] !== 'string'
+    ) {
+      throw new TypeError('Invalid cursor. Pass the nextCursor from a previous list_plans call.');
+    }
+    const [value, id] = after as [string, string];
+    start = entries.findIndex(
+      (e) => sign * (sortValue(e, sortBy).localeCompare(value) || e.sessionId.localeCompare(id)) > 0
+    );
+    if (start === -1) start = entries.length;
+  }
+
+  const plans = entries.slice(start, start + limit);
+  const last = plans.at(-1);
+  const nextCursor =
+    last && start + limit < entries.length
+      ? Buffer.from(JSON.stringify([sortValue(last, sortBy), last.sessionId])).toString('base64url')
+      : null;
+
+  return { total: entries.length, plans, nextCursor };
+}
+
+// ─── Thinking Index ──────────────────────────────────────────────────────────
+
+export interface ThinkingIndexEntry {
+  firstThought: string;
+  createdAt: string;
+  updatedAt: string;
+  thoughtCount: number;
+  branches: string[];
+  filePath: string;
+}
+
+export type ThinkingIndex = Partial<Record<string, ThinkingIndexEntry>>;
+
+// ─── Integrity Check ─────────────────────────────────────────────────────────
+
+/**
+ * Kinds of drift between the plans index and the files in the plans directory:
+ * - missing-log: an index entry whose JSONL log is gone
+ * - unindexed-log: a JSONL log with no index entry
+ * - corrupt-log: a JSONL log with lines that are not valid events or cannot be replayed
+ * - stale-entry: an index entry that disagrees with the last event of its log
+ * - missing-markdown: an index entry pointing at a Markdown plan that is gone
+ * - orphaned-markdown: a Markdown plan whose session has no JSONL log
+ * - temp-file: a leftover `.tmp` file from an interrupted index write
+ */
+export type PlanIssueKind =
+  | 'missing-log'
+  | 'unindexed-log'
+  | 'corrupt-log'
+  | 'stale-entry'
+  | 'missing-markdown'
+  | 'orphaned-markdown'
+  | 'temp-file';
+
+export interface PlanIssue {
+  kind: PlanIssueKind;
+  sessionId?: string;
+  file: string;
+  message: string;
+  /** Whether this run fixed the issue. Always false when not repairing. */
+  repaired: boolean;
+}
+
+export interface PlanVerification {
+  /** Plans looked at: every session with an index entry or a JSONL log. */
+  checked: number;
+  issues: PlanIssue[];
+  repaired: number;
+}
+
+export interface VerifyOptions {
+  repair?: boolean;
+  /** Renders a finalized session's Markdown plan, to restore a missing one on repair. */
+  renderMarkdown?: (session: PlanningSession) => string;
+}
+
+/** Index fields compared against the last event. Fields absent from older entries are skipped. */
+const ALWAYS_CHECKED = [
+  'problem',
+  'phase',
+  'selectedBranch',
+  'forkedFrom',
+  'tags',
+  'owner',
+  'project',
+] as const;
+const CHECKED_WHEN_PRESENT = ['updatedAt', 'version', 'approachCount', 'topScore'] as const;
+
+/** Names of the index fields that disagree with the entry rebuilt from the log. */
+function staleFields(entry: PlanIndexEntry, expected: PlanIndexEntry): string[] {
+  const differs = (key: keyof PlanIndexEntry): boolean =>
+    JSON.stringify(entry[key]) !== JSON.stringify(expected[key]);
+  return [
+    ...ALWAYS_CHECKED.filter((key) => differs(key)),
+    ...CHECKED_WHEN_PRESENT.filter((key) => entry[key] !== undefined && differs(key)),
+  ];
+}
+
+// ─── Compaction ──────────────────────────────────────────────────────────────
+
+export interface CompactionResult {
+  sessionId: string;
+  events: number;
+  bytesBefore: number;
+  bytesAfter: number;
+  /** False when rewriting would not have made the log smaller, so it was left alone. */
+  compacted: boolean;
+}
+
+// ─── Bundles ─────────────────────────────────────────────────────────────────
+
+export interface ImportOptions {
+  onCollision?: ImportCollision;
+  /** Renders a finalized session's Markdown plan; without it the bundle's copy is kept. */
+  renderMarkdown?: (session: PlanningSession) => string;
+}
+
+export interface ImportResult {
+  /** The ID the plan was saved under; differs from originalSessionId when it was renamed. */
+  sessionId: string;
+  originalSessionId: string;
+  events: number;
+  /** True when a local plan with the same ID was deleted to make room. */
+  replaced: boolean;
+}
+
+// ─── Config ──────────────────────────────────────────────────────────────────
+
+/**
+ * Optional user configuration read from `yggdrasil-config.json` in the plans directory.
+ * Values are raw JSON; consumers validate the fields they use.
+ */
+export interface YggdrasilConfig {
+  /** Default evaluation criteria for new deep_planning sessions. */
+  criteria?: unknown;
+  /** Retention policy applied on startup; see RetentionPolicy. */
+  retention?: unknown;
+  /** Startup integrity check; see StartupCheckMode. */
+  startupCheck?: unknown;
+  /** Storage backend: "fs", "sqlite" or "memory"; see resolveStorageKind. */
+  storage?: unknown;
+}
+
+/** Automatic clean-up of saved plans, applied once on startup. Both rules are opt-in. */
+export interface RetentionPolicy {
+  /** Archive in-progress plans whose event log has not changed for this many days. */
+  archiveAfterDays?: number;
+  /** Delete archived plans this many days after they were archived. */
+  deleteArchivedAfterDays?: number;
+}
+
+/** Validate the `retention` config value. Throws TypeError on invalid values. */
+export function parseRetention(value: unknown): RetentionPolicy {
+  if (value === undefined) return {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new TypeError('retention must be an object');
+  }
+  const policy: RetentionPolicy = {};
+  for (const key of ['archiveAfterDays', 'deleteArchivedAfterDays'] as const) {
+    const days = (value as Record<string, unknown>)[key];
+    if (days === undefined) continue;
+    if (typeof days !== 'number' || !Number.isFinite(days) || days <= 0) {
+      throw new TypeError(`retention.${key} must be a positive number of days`);
+    }
+    policy[key] = days;
+  }
+  return policy;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** What the integrity check run on startup does: "report" (the default) only logs issues. */
+export type StartupCheckMode = 'report' | 'repair' | 'off';
+
+/** Validate the `startupCheck` config value. Throws TypeError on invalid values. */
+export function parseStartupCheck(value: unknown): StartupCheckMode {
+  if (value === undefined) return 'report';
+  if (value === 'report' || value === 'repair' || value === 'off') return value;
+  throw new TypeError('startupCheck must be "report", "repair" or "off"');
+}
+
 // ─── Directory Resolution ────────────────────────────────────────────────────
 
 function readJsonSafe(filePath: string): Record<string, unknown> | null {
@@ -91,24 +497,87 @@ export function resolvePlansDirectory(projectRoot?: string): string {
   return path.join(homedir(), '.claude', 'plans');
 }
 
+/**
+ * Choose the storage backend for a plans directory.
+ *
+ * Resolution order:
+ * 1. YGGDRASIL_STORAGE env var
+ * 2. `storage` in yggdrasil-config.json (always read from the plans directory on disk)
+ * 3. "fs"
+ *
+ * Throws TypeError on an unknown backend name.
+ */
+export function resolveStorageKind(plansDir: string): StorageKind {
+  const envKind = process.env.YGGDRASIL_STORAGE;
+  if (envKind) return parseStorageKind(envKind, 'YGGDRASIL_STORAGE');
+
+  const configured = readJsonSafe(path.join(plansDir, CONFIG_FILENAME))?.storage;
+  if (configured !== undefined) return parseStorageKind(configured, `${CONFIG_FILENAME} storage`);
+
+  return 'fs';
+}
+
 // ─── Persistence Manager ─────────────────────────────────────────────────────
 
 const INDEX_FILENAME = 'yggdrasil-plans-index.json';
+const THINKING_INDEX_FILENAME = 'yggdrasil-thinking-index.json';
+const THINKING_DIRNAME = 'thinking';
+const CONFIG_FILENAME = 'yggdrasil-config.json';
 
 export class PersistenceManager {
   private plansDir: string;
-  private dirCreated = false;
+  private storage: StorageBackend;
   private pendingWrites: Promise<void>[] = [];
+  private writeQueues = new Map<string, Promise<void>>();
+  /**
+   * Each plan's JSONL log as this process last wrote or resumed it: its size and final state.
+   * A different size on disk means another server process appended to the log in the meantime.
+   */
+  private logTails = new Map<string, LogTail & { size: number }>();
 
-  constructor(projectRoot?: string) {
+  /**
+   * Without `storage`, the backend is chosen by resolveStorageKind. Servers sharing one process
+   * pass the same backend so they see each other's data.
+   */
+  constructor(projectRoot?: string, storage?: StorageBackend) {
     this.plansDir = resolvePlansDirectory(projectRoot);
+    this.storage =
+      storage ?? createStorageBackend(resolveStorageKind(this.plansDir), this.plansDir);
   }
 
-  /** Ensure the plans directory exists. Called lazily on first write. */
-  private async ensureDir(): Promise<void> {
-    if (this.dirCreated) return;
-    await mkdir(this.plansDir, { recursive: true });
-    this.dirCreated = true;
+  /**
+   * Run writes to the same file one after another.
+   * Fire-and-forget writes can otherwise overlap: two index read-modify-writes
+   * would drop an entry, and two appends could land out of order.
+   */
+  private serialize(key: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.writeQueues.get(key) ?? Promise.resolve();
+    // A failed write must not block the ones queued behind it
+    const next = previous.then(task, task);
+    this.writeQueues.set(key, next);
+    const cleanup = (): undefined => {
+      if (this.writeQueues.get(key) === next) this.writeQueues.delete(key);
+      return undefined;
+    };
+    void next.then(cleanup, cleanup);
+    return next;
+  }
+
+  /**
+   * Read-modify-write a shared JSON file in the plans directory: queued behind this process's
+   * other writes to it and holding its cross-process lock, so another server cannot interleave.
+   * Errors are logged to stderr, never thrown.
+   */
+  private lockedUpdate(name: string, label: string, task: () => Promise<void>): Promise<void> {
+    return this.serialize(name, async () => {
+      try {
+        await this.storage.withLock(name, task);
+      } catch (error) {
+        console.error(
+          `[yggdrasil] Failed to update ${label}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    });
   }
 
   /** Get the resolved plans directory path. */
@@ -116,6 +585,11 @@ export class PersistenceManager {
     return this.plansDir;
   }
 
+  /** The backend this manager reads and writes through. */
+  public getStorage(): StorageBackend {
+    return this.storage;
+  }
+
   /**
    * Track a fire-and-forget write promise.
    * Tracked writes are awaited by flush() before session loads.
@@ -138,22 +612,93 @@ export class PersistenceManager {
   // ─── JSONL Event Writer ──────────────────────────────────────────────────
 
   /**
-   * Append a JSONL event line for the current session state.
+   * Append a JSONL event line for the current session state: the changes since the previous
+   * line, or a full snapshot (see event-log.ts).
+   * The event's phase defaults to the session's; pass `restoredFrom` when the state was restored
+   * from an earlier event of the same log.
+   * If another process appended to the log since this one last wrote or resumed it, the event is
+   * not written (see hasLogConflict). Restores are rebuilt from the log itself and always land.
    * Fire-and-forget: errors are logged to stderr, never thrown.
    */
-  public async appendEvent(session: PlanningSession): Promise<void> {
+  public async appendEvent(
+    session: PlanningSession,
+    { phase = session.phase, restoredFrom }: { phase?: string; restoredFrom?: number } = {}
+  ): Promise<void> {
+    try {
+      // Copy now: the caller keeps changing the session while the write is queued
+      const event: PlanEvent = {
+        timestamp: new Date().toISOString(),
+        phase,
+        session: structuredClone(session),
+        ...(restoredFrom !== undefined && { restoredFrom }),
+      };
+      const { sessionId } = session;
+      const name = `${sessionId}.jsonl`;
+      // Queue before any await so lines land in call order
+      await this.serialize(name, async () => {
+        await this.storage.withLock(name, async () => {
+          const size = await this.logSize(sessionId);
+          const tail = this.logTails.get(sessionId);
+          if (restoredFrom === undefined && tail !== undefined && size !== tail.size) {
+            throw new Error(
+              `${sessionId}.jsonl was changed by another process; "${phase}" event not written`
+            );
+          }
+          // Only a log that ends where this process left it can take a delta
+          const base = tail?.size === size ? tail : undefined;
+          const record = toLogRecord(event, base);
+          const line = JSON.stringify(record) + '\n';
+          await this.storage.append(name, line);
+          this.logTails.set(sessionId, {
+            session: event.session,
+            sinceSnapshot: record.session ? 1 : (base?.sinceSnapshot ?? 0) + 1,
+            size: size + Buffer.byteLength(line),
+          });
+        });
+      });
+    } catch (error) {
+      console.error(
+        `[yggdrasil] Failed to write JSONL event: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /** Current size of a plan's JSONL log in bytes; 0 when it does not exist. */
+  private async logSize(sessionId: string): Promise<number> {
+    try {
+      return (await this.storage.stat(`${sessionId}.jsonl`))?.size ?? 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Whether another process has written to a plan's JSONL log since this one last appended to
+   * or resumed it. Waits for this process's own pending writes first.
+   */
+  public async hasLogConflict(sessionId: string): Promise<boolean> {
+    await this.flush();
+    const tail = this.logTails.get(sessionId);
+    return tail !== undefined && (await this.logSize(sessionId)) !== tail.size;
+  }
+
+  /**
+   * Append a JSONL event line for one sequential_thinking thought.
+   * Unlike plan events, each line holds only the new thought; the chain is rebuilt by replay.
+   * Fire-and-forget: errors are logged to stderr, never thrown.
+   */
+  public async appendThoughtEvent(sessionId: string, thought: ThoughtData): Promise<void> {
     try {
-      await this.ensureDir();
       const event = {
         timestamp: new Date().toISOString(),
-        phase: session.phase,
-        session,
+        thought,
       };
       const line = JSON.stringify(event) + '\n';
-      await appendFile(path.join(this.plansDir, `${session.sessionId}.jsonl`), line, 'utf8');
+      const name = `${THINKING_DIRNAME}/${sessionId}.jsonl`;
+      await this.serialize(name, () => this.storage.append(name, line));
     } catch (error) {
       console.error(
-        `[yggdrasil] Failed to write JSONL event: ${error instanceof Error ? error.message : String(error)}`
+        `[yggdrasil] Failed to write thought event: ${error instanceof Error ? error.message : String(error)}`
       );
     }
   }
@@ -167,10 +712,8 @@ export class PersistenceManager {
    */
   public async writeMarkdownPlan(session: PlanningSession, markdownContent: string): Promise<void> {
     try {
-      await this.ensureDir();
       const datePrefix = session.createdAt.slice(0, 10).replaceAll('-', '');
-      const filename = `${datePrefix}-${session.sessionId}.md`;
-      await writeFile(path.join(this.plansDir, filename), markdownContent, 'utf8');
+      await this.storage.write(`${datePrefix}-${session.sessionId}.md`, markdownContent);
     } catch (error) {
       console.error(
         `[yggdrasil] Failed to write Markdown plan: ${error instanceof Error ? error.message : String(error)}`
@@ -180,17 +723,18 @@ export class PersistenceManager {
 
   // ─── Plans Index ──────────────────────────────────────────────────────────
 
-  private get indexPath(): string {
-    return path.join(this.plansDir, INDEX_FILENAME);
+  /** Read the plans index from storage. Returns empty object on failure. */
+  public async readIndex(): Promise<PlansIndex> {
+    return this.readJson<PlansIndex>(INDEX_FILENAME);
   }
 
-  /** Read the plans index from disk. Returns empty object on failure. */
-  public async readIndex(): Promise<PlansIndex> {
+  /** Parse a JSON file from storage. Returns empty object if absent or invalid. */
+  private async readJson<T>(name: string): Promise<T> {
     try {
-      const content = await readFile(this.indexPath, 'utf8');
-      return JSON.parse(content) as PlansIndex;
+      const content = await this.storage.read(name);
+      return (content === null ? {} : JSON.parse(content)) as T;
     } catch {
-      return {};
+      return {} as T;
     }
   }
 
@@ -199,14 +743,15 @@ export class PersistenceManager {
    * Fire-and-forget: errors are logged to stderr, never thrown.
    */
   private async writeIndex(index: PlansIndex): Promise<void> {
+    await this.writeJson(INDEX_FILENAME, index, 'plans index');
+  }
+
+  private async writeJson(name: string, data: unknown, label: string): Promise<void> {
     try {
-      await this.ensureDir();
-      const tmpPath = `${this.indexPath}.tmp`;
-      await writeFile(tmpPath, JSON.stringify(index, null, 2) + '\n', 'utf8');
-      await rename(tmpPath, this.indexPath);
+      await this.storage.write(name, JSON.stringify(data, null, 2) + '\n');
     } catch (error) {
       console.error(
-        `[yggdrasil] Failed to write plans index: ${error instanceof Error ? error.message : String(error)}`
+        `[yggdrasil] Failed to write ${label}: ${error instanceof Error ? error.message : String(error)}`
       );
     }
   }
@@ -216,69 +761,385 @@ export class PersistenceManager {
    * Called on init (create entry) and finalize (mark complete).
    */
   public async updateIndex(sessionId: string, entry: PlanIndexEntry): Promise<void> {
-    const index = await this.readIndex();
-    index[sessionId] = entry;
-    await this.writeIndex(index);
+    await this.lockedUpdate(INDEX_FILENAME, 'plans index', async () => {
+      const index = await this.readIndex();
+      index[sessionId] = entry;
+      await this.writeIndex(index);
+    });
+  }
+
+  // ─── Config ───────────────────────────────────────────────────────────────
+
+  /**
+   * Read yggdrasil-config.json from the plans directory. Returns empty object if absent or invalid.
+   * The config chooses the storage backend, so it is always read from disk.
+   */
+  public async readConfig(): Promise<YggdrasilConfig> {
+    try {
+      const content = await readFile(path.join(this.plansDir, CONFIG_FILENAME), 'utf8');
+      const parsed: unknown = JSON.parse(content);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+        ? (parsed as YggdrasilConfig)
+        : {};
+    } catch {
+      return {};
+    }
+  }
+
+  // ─── Thinking Index ───────────────────────────────────────────────────────
+
+  /** Read the thinking chains index from storage. Returns empty object on failure. */
+  public async readThinkingIndex(): Promise<ThinkingIndex> {
+    return this.readJson<ThinkingIndex>(THINKING_INDEX_FILENAME);
+  }
+
+  /**
+   * Add or update the index entry for a thinking chain from its current state.
+   * Called after every recorded thought so counts and branches stay current.
+   */
+  public async updateThinkingIndex(session: ThinkingSession): Promise<void> {
+    const first = session.thoughtHistory.at(0);
+    const entry: ThinkingIndexEntry = {
+      firstThought: first?.thought.slice(0, 200) ?? '',
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      thoughtCount: session.thoughtHistory.length,
+      branches: Object.keys(session.branches),
+      filePath: `${THINKING_DIRNAME}/${session.sessionId}.jsonl`,
+    };
+    await this.lockedUpdate(THINKING_INDEX_FILENAME, 'thinking index', async () => {
+      const index = await this.readThinkingIndex();
+      index[session.sessionId] = entry;
+      await this.writeJson(THINKING_INDEX_FILENAME, index, 'thinking index');
+    });
   }
 
   // ─── Session Loading ────────────────────────────────────────────────────
 
+  /**
+   * Load every event of a planning session's JSONL log, oldest first, upgraded to the current
+   * schema. Returns null if the session file doesn't exist, is empty or can't be read; throws
+   * TypeError naming the reason if it has a corrupted line or fails validation.
+   */
+  public async loadEvents(sessionId: string): Promise<PlanEvent[] | null> {
+    await this.flush();
+    return this.readLog(sessionId, (content) => replayRecords(parseLog(content)));
+  }
+
   /**
    * Load a planning session from its JSONL event log.
-   * Reads the last event line and returns the full session object.
-   * Returns null if the session file doesn't exist or is corrupted.
+   * Replays the log from its last snapshot and returns the full session object.
+   * Returns null or throws like loadEvents. Read-only: later appends are still checked against
+   * the log as this process last wrote or resumed it.
    */
   public async loadSession(sessionId: string): Promise<PlanningSession | null> {
+    // Ensure any fire-and-forget writes are flushed before reading
+    await this.flush();
+    return this.readLog(sessionId, (content) => replayTail(content).session);
+  }
+
+  /**
+   * Load a planning session to continue working on it, like loadSession. Later appends are
+   * checked against the loaded log, so only call this when the result becomes the active state.
+   */
+  public async resumeSession(sessionId: string): Promise<PlanningSession | null> {
+    await this.flush();
+    return this.readLog(sessionId, (content) => {
+      const tail = replayTail(content);
+      this.logTails.set(sessionId, {
+        ...tail,
+        session: structuredClone(tail.session),
+        size: Buffer.byteLength(content),
+      });
+      return tail.session;
+    });
+  }
+
+  /** Whether this plans directory holds a session: an index entry or a JSONL log. */
+  public async hasPlan(sessionId: string): Promise<boolean> {
+    await this.flush();
+    return (await this.readIndex())[sessionId] !== undefined || (await this.logSize(sessionId)) > 0;
+  }
+
+  /** Read a session's log through `replay`, or null if there is none or storage can't be read. */
+  private async readLog<T>(sessionId: string, replay: (content: string) => T): Promise<T | null> {
+    const content = await this.storage.read(`${sessionId}.jsonl`).catch(() => null);
+    if (content === null || content.trim() === '') return null;
+    try {
+      return replay(content);
+    } catch (error) {
+      throw new TypeError(`Session "${sessionId}" cannot be loaded: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Load a thinking chain by replaying its JSONL thought events.
+   * Returns null if the chain file doesn't exist or is corrupted.
+   */
+  public async loadThinkingSession(sessionId: string): Promise<ThinkingSession | null> {
     try {
-      // Ensure any fire-and-forget writes are flushed before reading
       await this.flush();
-      const filePath = path.join(this.plansDir, `${sessionId}.jsonl`);
-      const content = await readFile(filePath, 'utf8');
-      const lines = content.trim().split('\n');
-      const lastLine = lines.at(-1);
-      if (!lastLine) return null;
-
-      const event = JSON.parse(lastLine) as { session: PlanningSession };
-      return event.session;
+      const content = await this.storage.read(`${THINKING_DIRNAME}/${sessionId}.jsonl`);
+      if (content === null) return null;
+      const events = content
+        .trim()
+        .split('\n')
+        .filter((line) => line.length > 0)
+        .map((line) => JSON.parse(line) as { timestamp: string; thought: ThoughtData });
+      const first = events.at(0);
+      const last = events.at(-1);
+      if (!first || !last) return null;
+
+      const session: ThinkingSession = {
+        sessionId,
+        thoughtHistory: [],
+        branches: {},
+        createdAt: first.timestamp,
+        updatedAt: last.timestamp,
+      };
+      for (const { thought } of events) {
+        session.thoughtHistory.push(thought);
+        if (thought.branchFromThought && thought.branchId) {
+          (session.branches[thought.branchId] ??= []).push(thought);
+        }
+      }
+      return session;
     } catch {
       return null;
     }
   }
 
+  // ─── Archive & Delete ─────────────────────────────────────────────────────
+
+  /**
+   * Archive a plan, or restore it with `archived` false. Only the index entry changes.
+   * Returns false if the plan is not in the index.
+   */
+  public async archivePlan(sessionId: string, archived = true, now = new Date()): Promise<boolean> {
+    let found = false;
+    await this.lockedUpdate(INDEX_FILENAME, 'plans index', async () => {
+      const index = await this.readIndex();
+      const entry = index[sessionId];
+      if (!entry) return;
+      found = true;
+      if (archived) {
+        entry.archivedAt = now.toISOString();
+      } else {
+        delete entry.archivedAt;
+      }
+      await this.writeIndex(index);
+    });
+    return found;
+  }
+
+  /**
+   * Delete a plan's JSONL log, Markdown plan and index entry.
+   * Returns false if there was nothing to delete.
+   */
+  public async deletePlan(sessionId: string): Promise<boolean> {
+    // Session IDs name files in the plans directory; never follow a path out of it
+    if (sessionId !== path.basename(sessionId)) return false;
+    // Let pending appends land first so they cannot recreate the log afterwards
+    await this.flush();
+
+    let entry: PlanIndexEntry | undefined;
+    await this.lockedUpdate(INDEX_FILENAME, 'plans index', async () => {
+      const index = await this.readIndex();
+      entry = index[sessionId];
+      if (!entry) return;
+      delete index[sessionId];
+      await this.writeIndex(index);
+    });
+
+    this.logTails.delete(sessionId);
+    const files = new Set([`${sessionId}.jsonl`]);
+    if (entry) {
+      files.add(entry.filePaths.jsonl);
+      // A revised plan may have a Markdown file the index no longer points at
+      files.add(`${entry.createdAt.slice(0, 10).replaceAll('-', '')}-${sessionId}.md`);
+      if (entry.filePaths.markdown) files.add(entry.filePaths.markdown);
+    }
+
+    let removedFile = false;
+    for (const file of files) {
+      try {
+        if (await this.storage.remove(file)) removedFile = true;
+      } catch {
+        // Left for verify_plans to report
+      }
+    }
+    return entry !== undefined || removedFile;
+  }
+
+  /**
+   * Apply the retention policy from yggdrasil-config.json: archive stale in-progress plans and
+   * delete long-archived ones. An invalid policy is reported on stderr and skipped.
+   */
+  public async applyRetention(
+    now = new Date()
+  ): Promise<{ archived: string[]; deleted: string[] }> {
+    const result = { archived: [] as string[], deleted: [] as string[] };
+    let policy: RetentionPolicy;
+    try {
+      policy = parseRetention((await this.readConfig()).retention);
+    } catch (error) {
+      console.error(
+        `[yggdrasil] Ignoring retention in ${CONFIG_FILENAME}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return result;
+    }
+    const { archiveAfterDays, deleteArchivedAfterDays } = policy;
+    if (archiveAfterDays === undefined && deleteArchivedAfterDays === undefined) return result;
+
+    const ageInDays = (time: number): number => (now.getTime() - time) / DAY_MS;
+    const index = await this.readIndex();
+    for (const [sessionId, entry] of Object.entries(index)) {
+      if (!entry) continue;
+      if (entry.archivedAt) {
+        if (
+          deleteArchivedAfterDays !== undefined &&
+          ageInDays(Date.parse(entry.archivedAt)) >= deleteArchivedAfterDays &&
+          (await this.deletePlan(sessionId))
+        ) {
+          result.deleted.push(sessionId);
+        }
+      } else if (archiveAfterDays !== undefined && entry.phase !== 'done') {
+        // "Untouched" means the event log has not been written to
+        let lastTouched: number;
+        try {
+          lastTouched =
+            (await this.storage.stat(entry.filePaths.jsonl))?.mtimeMs ??
+            Date.parse(entry.createdAt);
+        } catch {
+          lastTouched = Date.parse(entry.createdAt);
+        }
+        if (
+          ageInDays(lastTouched) >= archiveAfterDays &&
+          (await this.archivePlan(sessionId, true, now))
+        ) {
+          result.archived.push(sessionId);
+        }
+      }
+    }
+
+    if (result.archived.length > 0 || result.deleted.length > 0) {
+      console.error(
+        `[yggdrasil] Retention: archived ${String(result.archived.length)}, deleted ${String(result.deleted.length)} plan(s)`
+      );
+    }
+    return result;
+  }
+
   // ─── Query Tools ──────────────────────────────────────────────────────────
 
   /**
    * List saved plans from the index.
-   * Supports optional filters: status, keyword in problem text.
+   * Supports optional filters: status, keyword in problem text, phase, selected branch and
+   * created/updated date ranges. Archived plans are left out unless status is "archived".
+   * Sorted by createdAt descending (newest first) unless `sortBy`/`order` say otherwise.
+   * Throws TypeError for unparseable date filters.
    */
-  public async listPlans(filters?: {
-    status?: 'complete' | 'in-progress';
-    keyword?: string;
-  }): Promise<({ sessionId: string } & PlanIndexEntry)[]> {
+  public async listPlans(filters: PlanListQuery = {}): Promise<PlanListEntry[]> {
     const index = await this.readIndex();
-    let entries = Object.entries(index)
-      .filter((pair): pair is [string, PlanIndexEntry] => pair[1] !== undefined)
-      .map(([sessionId, entry]) => ({
-        sessionId,
-        ...entry,
-      }));
+    const present = Object.entries(index).filter(
+      (pair): pair is [string, PlanIndexEntry] => pair[1] !== undefined
+    );
 
-    if (filters?.status) {
-      entries =
-        filters.status === 'complete'
-          ? entries.filter((e) => e.phase === 'done')
-          : entries.filter((e) => e.phase !== 'done');
+    // Lineage: each plan lists the sessions forked from it
+    const forksOf = new Map<string, string[]>();
+    for (const [sessionId, entry] of present) {
+      if (!entry.forkedFrom) continue;
+      const siblings = forksOf.get(entry.forkedFrom.sessionId) ?? [];
+      siblings.push(sessionId);
+      forksOf.set(entry.forkedFrom.sessionId, siblings);
     }
 
-    if (filters?.keyword) {
+    let entries = present.map(([sessionId, entry]) => ({
+      sessionId,
+      ...entry,
+      forks: forksOf.get(sessionId) ?? [],
+    }));
+
+    // Archived plans only show up when asked for
+    entries =
+      filters.status === 'archived'
+        ? entries.filter((e) => e.archivedAt)
+        : entries.filter((e) => !e.archivedAt);
+    if (filters.status === 'complete') {
+      entries = entries.filter((e) => e.phase === 'done');
+    } else if (filters.status === 'in-progress') {
+      entries = entries.filter((e) => e.phase !== 'done');
+    }
+
+    if (filters.keyword) {
       const lower = filters.keyword.toLowerCase();
       entries = entries.filter((e) => e.problem.toLowerCase().includes(lower));
     }
+    if (filters.phase) {
+      entries = entries.filter((e) => e.phase === filters.phase);
+    }
+    if (filters.selectedBranch) {
+      entries = entries.filter((e) => e.selectedBranch === filters.selectedBranch);
+    }
+    if (filters.tags && filters.tags.length > 0) {
+      const wanted = filters.tags.map((t) => t.toLowerCase());
+      entries = entries.filter((e) => {
+        const tags = new Set(e.tags?.map((t) => t.toLowerCase()));
+        return wanted.every((t) => tags.has(t));
+      });
+    }
+    for (const field of ['owner', 'project'] as const) {
+      const wanted = filters[field]?.toLowerCase();
+      if (wanted) entries = entries.filter((e) => e[field]?.toLowerCase() === wanted);
+    }
+
+    const ranges = [
+      ['createdAfter', (e: PlanIndexEntry) => e.createdAt, 1],
+      ['createdBefore', (e: PlanIndexEntry) => e.createdAt, -1],
+      ['updatedAfter', updatedAtOf, 1],
+      ['updatedBefore', updatedAtOf, -1],
+    ] as const;
+    for (const [name, field, direction] of ranges) {
+      const bound = parseDateFilter(filters[name], name);
+      if (bound === undefined) continue;
+      entries = entries.filter((e) => (Date.parse(field(e)) - bound) * direction >= 0);
+    }
+
+    return sortPlans(entries, filters);
+  }
 
-    // Sort by createdAt descending (newest first)
-    entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  /** One page of listPlans results; see paginatePlans. Throws TypeError for a malformed cursor. */
+  public async listPlansPage(
+    query: PlanListQuery & { limit?: number; cursor?: string } = {}
+  ): Promise<PlanListPage<PlanListEntry>> {
+    return paginatePlans(await this.listPlans(query), query);
+  }
+
+  /**
+   * Full-text search across saved plans (see search.ts), best match first.
+   * Archived plans are skipped unless `includeArchived` is set. Throws TypeError for a limit below 1.
+   */
+  public async searchPlans(
+    query: string,
+    options: { limit?: number; includeArchived?: boolean } = {}
+  ): Promise<SearchResult[]> {
+    assertLimit(options.limit);
+    const index = await this.readIndex();
+    const results: (SearchResult & { createdAt: string })[] = [];
 
-    return entries;
+    for (const [sessionId, entry] of Object.entries(index)) {
+      if (!entry || (entry.archivedAt && !options.includeArchived)) continue;
+      // A session that can't be loaded has nothing to match; verify_plans reports it
+      const session = await this.loadSession(sessionId).catch(() => null);
+      const result = session && searchSession(session, query);
+      if (result) results.push({ ...result, createdAt: entry.createdAt });
+    }
+
+    // Best score first; newer plans win ties
+    results.sort((a, b) => b.score - a.score || b.createdAt.localeCompare(a.createdAt));
+    return results
+      .slice(0, options.limit ?? DEFAULT_SEARCH_LIMIT)
+      .map(({ createdAt: _createdAt, ...result }) => result);
   }
 
   /**
@@ -298,17 +1159,17 @@ export class PersistenceManager {
 
     try {
       if (format === 'jsonl') {
-        const content = await readFile(path.join(this.plansDir, entry.filePaths.jsonl), 'utf8');
+        const content = await this.readRequired(entry.filePaths.jsonl);
         return { found: true, content, format: 'jsonl' };
       }
 
       if (entry.filePaths.markdown) {
-        const content = await readFile(path.join(this.plansDir, entry.filePaths.markdown), 'utf8');
+        const content = await this.readRequired(entry.filePaths.markdown);
         return { found: true, content, format: 'markdown' };
       }
 
       // Markdown not available (session not finalized), fall back to JSONL
-      const content = await readFile(path.join(this.plansDir, entry.filePaths.jsonl), 'utf8');
+      const content = await this.readRequired(entry.filePaths.jsonl);
       return { found: true, content, format: 'jsonl' };
     } catch (error) {
       return {
@@ -319,47 +1180,41 @@ export class PersistenceManager {
     }
   }
 
+  /** Read a file the index points at. Throws if it is missing. */
+  private async readRequired(name: string): Promise<string> {
+    const content = await this.storage.read(name);
+    if (content === null) throw new Error(`${name} does not exist`);
+    return content;
+  }
+
   /**
    * Rebuild the plans index by scanning JSONL files in the plans directory.
    * Used as a fallback when the index is corrupted or missing.
    */
   public async rebuildIndex(): Promise<PlansIndex> {
     try {
-      const files = readdirSync(this.plansDir).filter((f) => f.endsWith('.jsonl'));
+      const present = new Set(await this.storage.list());
+      const files = [...present].filter((f) => f.endsWith('.jsonl'));
       const index: PlansIndex = {};
+      // Archiving lives only in the index; keep it if the old index is still readable
+      const previous = await this.readIndex();
 
       for (const file of files) {
         try {
-          const content = readFileSync(path.join(this.plansDir, file), 'utf8');
-          const lines = content.trim().split('\n');
-          if (lines.length === 0) continue;
-
-          // Parse first line for init data
-          const firstEvent = JSON.parse(lines[0]) as {
-            session: PlanningSession;
-          };
-          // Parse last line for current state
-          const lastLine = lines.at(-1);
-          if (!lastLine) continue;
-          const lastEvent = JSON.parse(lastLine) as {
-            session: PlanningSession;
-          };
+          const content = await this.storage.read(file);
+          if (content === null) continue;
+          // Current state, replayed from the last snapshot
+          const { session } = replayTail(content);
 
-          const sessionId = firstEvent.session.sessionId;
-          const datePrefix = firstEvent.session.createdAt.slice(0, 10).replaceAll('-', '');
+          const sessionId = session.sessionId;
+          const datePrefix = session.createdAt.slice(0, 10).replaceAll('-', '');
           const mdFilename = `${datePrefix}-${sessionId}.md`;
-          const mdExists = existsSync(path.join(this.plansDir, mdFilename));
-
+          const entry = buildIndexEntry(session, present.has(mdFilename) ? mdFilename : null);
+          const archivedAt = previous[sessionId]?.archivedAt;
           index[sessionId] = {
-            problem: firstEvent.session.problem,
-            createdAt: firstEvent.session.createdAt,
-            finalizedAt: lastEvent.session.phase === 'done' ? lastEvent.session.updatedAt : null,
-            selectedBranch: lastEvent.session.selectedApproach ?? null,
-            phase: lastEvent.session.phase,
-            filePaths: {
-              jsonl: file,
-              markdown: mdExists ? mdFilename : null,
-            },
+            ...entry,
+            ...(archivedAt && { archivedAt }),
+            filePaths: { ...entry.filePaths, jsonl: file },
           };
         } catch {
           // Skip corrupted files
@@ -367,7 +1222,7 @@ export class PersistenceManager {
         }
       }
 
-      await this.writeIndex(index);
+      await this.lockedUpdate(INDEX_FILENAME, 'plans index', () => this.writeIndex(index));
       return index;
     } catch (error) {
       console.error(
@@ -376,4 +1231,354 @@ export class PersistenceManager {
       return {};
     }
   }
+
+  /** Whether a file is old enough that no live write can still be using it. */
+  private async isLeftover(file: string): Promise<boolean> {
+    try {
+      const fileStat = await this.storage.stat(file);
+      return fileStat !== null && Date.now() - fileStat.mtimeMs >= LOCK_STALE_MS;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check the plans index against the files in the plans directory and, with `repair`, fix
+   * what can be fixed: index entries are dropped, added or rebuilt from their logs, trailing
+   * corrupt lines (an interrupted append) are cut, missing Markdown plans are re-rendered and
+   * leftover tmp files are removed. Orphaned Markdown plans are only reported, as they may be
+   * the last copy of a plan.
+   */
+  public async verifyPlans({
+    repair = false,
+    renderMarkdown,
+  }: VerifyOptions = {}): Promise<PlanVerification> {
+    await this.flush();
+    let files: string[];
+    try {
+      files = await this.storage.list();
+    } catch {
+      return { checked: 0, issues: [], repaired: 0 };
+    }
+    const present = new Set(files);
+    const issues: PlanIssue[] = [];
+    const report = (issue: Omit<PlanIssue, 'repaired'>, fixed: boolean): void => {
+      issues.push({ ...issue, repaired: repair && fixed });
+    };
+
+    // Last event of every readable log
+    const sessions = new Map<string, PlanningSession>();
+    for (const file of files.filter((f) => f.endsWith('.jsonl'))) {
+      const sessionId = file.slice(0, -'.jsonl'.length);
+      const content = await this.storage.read(file).catch(() => null);
+      // Deleted while we were looking
+      if (content === null) continue;
+      const lines = content.split('\n').filter((l) => l.trim() !== '');
+      const records = lines.map((line) => parseLogLine(line));
+      const firstBad = records.indexOf(null);
+      const intact = firstBad === -1 ? records.length : firstBad;
+      let last: PlanEvent | undefined;
+      try {
+        last = replayRecords(records.slice(0, intact) as PlanLogRecord[]).at(-1);
+      } catch (error) {
+        report(
+          {
+            kind: 'corrupt-log',
+            sessionId,
+            file,
+            message: `${error instanceof Error ? error.message : String(error)}; fix or remove the log by hand`,
+          },
+          false
+        );
+        continue;
+      }
+      if (intact < records.length) {
+        // Only a corrupt tail can be cut without losing later events
+        const fixable = intact > 0 && records.slice(intact).every((r) => r === null);
+        const bad = records.length - records.filter(Boolean).length;
+        report(
+          {
+            kind: 'corrupt-log',
+            sessionId,
+            file,
+            message: `${String(bad)} unreadable line(s)${fixable ? ' at the end of the log; cut on repair' : '; fix or remove the log by hand'}`,
+          },
+          fixable
+        );
+        if (!fixable) continue;
+        if (repair) {
+          await this.serialize(file, () =>
+            this.storage.withLock(file, () =>
+              this.storage.write(file, lines.slice(0, intact).join('\n') + '\n')
+            )
+          );
+          this.logTails.delete(sessionId);
+        }
+      }
+      if (last) sessions.set(sessionId, last.session);
+    }
+
+    // Index entries against their logs; fixes are applied to a fresh read under the lock
+    const fixes = new Map<string, PlanIndexEntry | undefined>();
+    const index = await this.readIndex();
+    for (const [sessionId, entry] of Object.entries(index)) {
+      if (!entry) continue;
+      if (!present.has(entry.filePaths.jsonl)) {
+        report(
+          {
+            kind: 'missing-log',
+            sessionId,
+            file: entry.filePaths.jsonl,
+            message: 'Index entry has no JSONL log; the entry is dropped on repair',
+          },
+          true
+        );
+        fixes.set(sessionId, undefined);
+        continue;
+      }
+      const session = sessions.get(sessionId);
+      if (!session) continue;
+
+      let markdown = entry.filePaths.markdown;
+      if (markdown && !present.has(markdown)) {
+        const rerender = session.phase === 'done' && renderMarkdown !== undefined;
+        report(
+          {
+            kind: 'missing-markdown',
+            sessionId,
+            file: markdown,
+            message: rerender
+              ? 'Markdown plan is missing; it is re-rendered on repair'
+              : 'Markdown plan is missing; the index stops pointing at it on repair',
+          },
+          true
+        );
+        if (rerender) {
+          if (repair) await this.writeMarkdownPlan(session, renderMarkdown(session));
+        } else {
+          markdown = null;
+        }
+      }
+
+      const expected: PlanIndexEntry = {
+        ...buildIndexEntry(session, markdown),
+        ...(entry.archivedAt && { archivedAt: entry.archivedAt }),
+        filePaths: { jsonl: entry.filePaths.jsonl, markdown },
+      };
+      const fields = staleFields(entry, expected);
+      if (fields.length > 0) {
+        report(
+          {
+            kind: 'stale-entry',
+            sessionId,
+            file: INDEX_FILENAME,
+            message: `Index entry disagrees with the last event on ${fields.join(', ')}`,
+          },
+          true
+        );
+      }
+      if (fields.length > 0 || markdown !== entry.filePaths.markdown) {
+        fixes.set(sessionId, expected);
+      }
+    }
+
+    for (const [sessionId, session] of sessions) {
+      if (index[sessionId]) continue;
+      const markdown = `${session.createdAt.slice(0, 10).replaceAll('-', '')}-${sessionId}.md`;
+      report(
+        {
+          kind: 'unindexed-log',
+          sessionId,
+          file: `${sessionId}.jsonl`,
+          message: 'JSONL log has no index entry; it is indexed on repair',
+        },
+        true
+      );
+      fixes.set(sessionId, buildIndexEntry(session, present.has(markdown) ? markdown : null));
+    }
+
+    for (const file of files) {
+      // Only files named like ours; Claude Code keeps its own plans in the same directory
+      const match = /^\d{8}-(dp-[A-Za-z0-9]+)\.md$/.exec(file);
+      if (match && !present.has(`${match[1]}.jsonl`)) {
+        report(
+          {
+            kind: 'orphaned-markdown',
+            sessionId: match[1],
+            file,
+            message: 'Markdown plan has no JSONL log; left in place',
+          },
+          false
+        );
+      } else if (file.endsWith('.tmp') && (await this.isLeftover(file))) {
+        report(
+          { kind: 'temp-file', file, message: 'Leftover file from an interrupted write' },
+          true
+        );
+        if (repair) await this.storage.remove(file).catch(() => false);
+      }
+    }
+
+    if (repair && fixes.size > 0) {
+      await this.lockedUpdate(INDEX_FILENAME, 'plans index', async () => {
+        const current = await this.readIndex();
+        for (const [sessionId, entry] of fixes) {
+          if (entry) {
+            current[sessionId] = entry;
+          } else {
+            delete current[sessionId];
+          }
+        }
+        await this.writeIndex(current);
+      });
+    }
+
+    const sessionIds = new Set([...Object.keys(index), ...sessions.keys()]);
+    return {
+      checked: sessionIds.size,
+      issues,
+      repaired: issues.filter((i) => i.repaired).length,
+    };
+  }
+
+  // ─── Compaction ───────────────────────────────────────────────────────────
+
+  /**
+   * Rewrite a plan's JSONL log in the current format: snapshot lines written by older versions
+   * become deltas and snapshots are spaced out again. Every event is kept, so plan_history,
+   * undo and diffs see the same events. Returns null if the log is missing or unreadable.
+   */
+  public async compactLog(sessionId: string): Promise<CompactionResult | null> {
+    if (sessionId !== path.basename(sessionId)) return null;
+    await this.flush();
+    const name = `${sessionId}.jsonl`;
+    let result: CompactionResult | null = null;
+    await this.serialize(name, async () => {
+      await this.storage.withLock(name, async () => {
+        const content = await this.storage.read(name);
+        if (content === null) return;
+        let events: PlanEvent[];
+        try {
+          events = replayRecords(parseLog(content));
+        } catch {
+          return;
+        }
+        const compactedContent = encodeLog(events);
+        const bytesBefore = Buffer.byteLength(content);
+        const bytesAfter = Buffer.byteLength(compactedContent);
+        const compacted = events.length > 0 && bytesAfter < bytesBefore;
+        result = { sessionId, events: events.length, bytesBefore, bytesAfter, compacted };
+        if (!compacted) return;
+
+        await this.storage.write(name, compactedContent);
+        // The log now ends in the same state; keep appending from it without a conflict
+        const tail = this.logTails.get(sessionId);
+        if (tail?.size === bytesBefore) {
+          this.logTails.set(sessionId, { ...replayTail(compactedContent), size: bytesAfter });
+        }
+      });
+    });
+    return result;
+  }
+
+  /** Compact every plan's JSONL log; see compactLog. Unreadable logs are skipped. */
+  public async compactPlans(): Promise<CompactionResult[]> {
+    let files: string[];
+    try {
+      files = await this.storage.list();
+    } catch {
+      return [];
+    }
+    const results: CompactionResult[] = [];
+    for (const file of files.filter((f) => f.endsWith('.jsonl')).toSorted()) {
+      const result = await this.compactLog(file.slice(0, -'.jsonl'.length));
+      if (result) results.push(result);
+    }
+    return results;
+  }
+
+  // ─── Bundles ──────────────────────────────────────────────────────────────
+
+  /**
+   * Collect a saved plan into a portable bundle: its log in the current format, its Markdown
+   * plan and its index entry. Returns null if the plan has no log; throws like loadEvents if the
+   * log can't be loaded.
+   */
+  public async exportPlan(sessionId: string, now = new Date()): Promise<PlanBundle | null> {
+    if (sessionId !== path.basename(sessionId)) return null;
+    const events = await this.loadEvents(sessionId);
+    if (!events) return null;
+    const entry = (await this.readIndex())[sessionId] ?? null;
+    const markdown = entry?.filePaths.markdown
+      ? await this.storage.read(entry.filePaths.markdown).catch(() => null)
+      : null;
+    return {
+      format: BUNDLE_FORMAT,
+      bundleVersion: BUNDLE_VERSION,
+      exportedAt: now.toISOString(),
+      sessionId,
+      index: entry,
+      log: encodeLog(events),
+      markdown,
+    };
+  }
+
+  /**
+   * Save a bundle from exportPlan as a plan in this directory and index it from its log. If
+   * the session ID is taken, the plan is imported under a new ID, or with `replace` the local
+   * plan is deleted first. A finalized plan's Markdown is rendered from the imported log.
+   * Throws TypeError if the bundle's log can't be loaded.
+   */
+  public async importPlan(
+    bundle: PlanBundle,
+    { onCollision = 'rename', renderMarkdown }: ImportOptions = {}
+  ): Promise<ImportResult> {
+    let events: PlanEvent[];
+    try {
+      events = replayRecords(parseLog(bundle.log));
+    } catch (error) {
+      throw new TypeError(
+        `The bundle's log cannot be loaded: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    if (events.length === 0) throw new TypeError("The bundle's log has no events");
+    const stray = events.findIndex((e) => e.session.sessionId !== bundle.sessionId);
+    if (stray !== -1) {
+      throw new TypeError(
+        `Event ${String(stray)} of the bundle's log belongs to session "${events[stray].session.sessionId}", not "${bundle.sessionId}"`
+      );
+    }
+
+    const taken = await this.hasPlan(bundle.sessionId);
+    let sessionId = bundle.sessionId;
+    if (taken && onCollision === 'replace') {
+      await this.deletePlan(sessionId);
+    } else if (taken) {
+      sessionId = `dp-${generateId(8)}`;
+    }
+
+    const imported = events.map((e) => ({ ...e, session: { ...e.session, sessionId } }));
+    const name = `${sessionId}.jsonl`;
+    await this.serialize(name, () =>
+      this.storage.withLock(name, () => this.storage.write(name, encodeLog(imported)))
+    );
+
+    const session = imported[imported.length - 1].session;
+    // The bundle's copy was rendered under the original ID and by another server version
+    const content =
+      session.phase === 'done' ? (renderMarkdown?.(session) ?? bundle.markdown) : null;
+    let markdown: string | null = null;
+    if (content !== null) {
+      markdown = `${session.createdAt.slice(0, 10).replaceAll('-', '')}-${sessionId}.md`;
+      await this.storage.write(markdown, content);
+    }
+    await this.updateIndex(sessionId, buildIndexEntry(session, markdown));
+
+    return {
+      sessionId,
+      originalSessionId: bundle.sessionId,
+      events: imported.length,
+      replaced: taken && onCollision === 'replace',
+    };
+  }
 }
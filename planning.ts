@@ -6,9 +6,43 @@
  * while the LLM uses sequential_thinking for deep reasoning between phases.
  */
 
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
 import chalk from 'chalk';
 
-import { generateId, PersistenceManager } from './persistence.js';
+import { type ImportCollision, type PlanBundle, parseBundle, resolveBundlePath } from './bundle.js';
+import {
+  analyzeDependencies,
+  type DependencyAnalysis,
+  validateDependencies,
+} from './dependency-graph.js';
+import {
+  type DiffSide,
+  diffSessions,
+  renderDiffMarkdown,
+  summarizeChanges,
+  summarizeMetadataChanges,
+} from './diff.js';
+import {
+  buildIndexEntry,
+  type CompactionResult,
+  generateId,
+  type ImportResult,
+  type PlanEvent,
+  type PlanListEntry,
+  type PlanListPage,
+  type PlanListQuery,
+  type PlanVerification,
+  PersistenceManager,
+  paginatePlans,
+  parseStartupCheck,
+  resolvePlansDirectory,
+  sortPlans,
+  type StartupCheckMode,
+} from './persistence.js';
+import { DEFAULT_SEARCH_LIMIT, type SearchResult } from './search.js';
+import type { StorageBackend } from './storage.js';
 
 // ─── Interfaces ──────────────────────────────────────────────────────────────
 
@@ -25,21 +59,42 @@ export interface Approach {
   cons: string[];
 }
 
-export interface EvaluationScores {
-  feasibility: number;
-  completeness: number;
-  coherence: number;
-  risk: number;
+export interface EvaluationCriterion {
+  name: string;
+  weight: number;
+  /** Lower scores are better (e.g. risk); the score is inverted before weighting. */
+  lowerIsBetter?: boolean;
 }
 
+/** Scores keyed by criterion name, each 0-10. */
+export type EvaluationScores = Record<string, number>;
+
 export interface Evaluation {
   branchId: string;
+  /** Reviewer or sub-agent that produced this evaluation; several may score one branch. */
+  evaluatorId?: string;
+  /** Plan version the evaluation was made in; absent means version 1. */
+  version?: number;
   scores: EvaluationScores;
   weightedScore: number;
   rationale: string;
   recommendation: 'pursue' | 'refine' | 'abandon';
 }
 
+/** Aggregate of all evaluations recorded for one branch. */
+export interface EvaluationSummary {
+  branchId: string;
+  evaluatorCount: number;
+  mean: number;
+  median: number;
+  /** Highest minus lowest weighted score. */
+  spread: number;
+  /** Most common recommendation; ties go to the more cautious one. */
+  recommendation: 'pursue' | 'refine' | 'abandon';
+  /** Evaluators' scores are DISAGREEMENT_THRESHOLD or more apart, or their recommendations differ. */
+  disagreement: boolean;
+}
+
 export interface PlanStep {
   title: string;
   description: string;
@@ -53,7 +108,43 @@ export interface PlanRisk {
   mitigation: string;
 }
 
-export type PlanPhase = 'init' | 'clarify' | 'explore' | 'evaluate' | 'finalize' | 'done';
+export type PlanPhase =
+  | 'init'
+  | 'clarify'
+  | 'explore'
+  | 'evaluate'
+  | 'finalize'
+  | 'revise'
+  | 'done';
+
+/** What a deep_planning call can ask for: a phase, or "undo" to step back through the log. */
+type RequestedPhase = PlanPhase | 'undo';
+
+/** Where a forked session was copied from. */
+export interface ForkOrigin {
+  sessionId: string;
+  /** 0-based index of the parent's JSONL event the fork was taken from. */
+  eventIndex: number;
+  /** Phase the parent was in at that event. */
+  phase: PlanPhase;
+}
+
+/** A reopening of a finalized plan; the plan's version is bumped on each one. */
+export interface PlanRevision {
+  version: number;
+  reopenedAt: string;
+  reason?: string;
+}
+
+export interface ReasoningEntry {
+  phase: PlanPhase;
+  thinkingSessionId: string;
+  thoughtNumber: number;
+  thought: string;
+  isRevision?: boolean;
+  branchId?: string;
+  recordedAt: string;
+}
 
 export interface PlanningSession {
   sessionId: string;
@@ -69,6 +160,17 @@ export interface PlanningSession {
   risks: PlanRisk[];
   assumptions: string[];
   successCriteria: string[];
+  criteria?: EvaluationCriterion[];
+  reasoningTrail?: ReasoningEntry[];
+  /** Starts at 1 (absent on older sessions) and increases each time the plan is revised. */
+  version?: number;
+  revisions?: PlanRevision[];
+  forkedFrom?: ForkOrigin;
+  /** Free-form labels for finding the plan in a shared plans directory. */
+  tags?: string[];
+  owner?: string;
+  /** Project or repository the plan belongs to. */
+  project?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -81,6 +183,12 @@ export interface DeepPlanningInput {
   problem?: string;
   context?: string;
   constraints?: string;
+  criteria?: string;
+  tags?: string;
+  owner?: string;
+  project?: string;
+  // Revise fields
+  reason?: string;
   // Clarify fields
   question?: string;
   answer?: string;
@@ -95,6 +203,8 @@ export interface DeepPlanningInput {
   completeness?: number;
   coherence?: number;
   risk?: number;
+  scores?: string;
+  evaluatorId?: string;
   rationale?: string;
   recommendation?: string;
   // Finalize fields
@@ -117,9 +227,50 @@ export interface DeepPlanningOutput {
   plan?: string;
 }
 
+/** One event of a saved session's JSONL log, as listed by plan_history. */
+export interface PlanHistoryEntry {
+  /** 0-based event index; pass it as `atEvent` to restore or fork. */
+  event: number;
+  timestamp: string;
+  phase: string;
+  version?: number;
+  restoredFrom?: number;
+  /** What this event changed compared to the previous one. */
+  changes: string[];
+}
+
+export type PlanHistoryAction = 'list' | 'restore' | 'fork';
+
+/**
+ * Edit of a plan's metadata. Tag lists are JSON string arrays: `tags` replaces the tags,
+ * `addTags` and `removeTags` adjust them. An empty owner or project clears it.
+ */
+export interface PlanMetadataInput {
+  sessionId: string;
+  tags?: string;
+  addTags?: string;
+  removeTags?: string;
+  owner?: string;
+  project?: string;
+}
+
+/** MCP tool result returned by the planning tools. */
+type ToolResponse = {
+  content: { type: 'text'; text: string }[];
+  isError?: boolean;
+};
+
 // ─── Constants ───────────────────────────────────────────────────────────────
 
-const VALID_PHASES: PlanPhase[] = ['init', 'clarify', 'explore', 'evaluate', 'finalize'];
+const VALID_PHASES: RequestedPhase[] = [
+  'init',
+  'clarify',
+  'explore',
+  'evaluate',
+  'finalize',
+  'revise',
+  'undo',
+];
 
 const VALID_TRANSITIONS: Record<string, PlanPhase[]> = {
   '': ['init'],
@@ -128,18 +279,25 @@ const VALID_TRANSITIONS: Record<string, PlanPhase[]> = {
   explore: ['explore', 'evaluate', 'clarify'],
   evaluate: ['evaluate', 'explore', 'finalize'],
   finalize: [],
-  done: ['init'],
+  revise: ['clarify', 'explore', 'evaluate', 'finalize'],
+  done: ['init', 'revise'],
 };
 
-const SCORE_WEIGHTS = {
-  feasibility: 0.3,
-  completeness: 0.25,
-  coherence: 0.25,
-  risk: 0.2,
-} as const;
+export const DEFAULT_CRITERIA: EvaluationCriterion[] = [
+  { name: 'feasibility', weight: 0.3 },
+  { name: 'completeness', weight: 0.25 },
+  { name: 'coherence', weight: 0.25 },
+  { name: 'risk', weight: 0.2, lowerIsBetter: true },
+];
+
+/** Score used for a criterion the evaluator left out. */
+const DEFAULT_SCORE = 5;
 
 const VALID_RECOMMENDATIONS = ['pursue', 'refine', 'abandon'] as const;
 
+/** Weighted-score spread at which evaluators are considered to disagree. */
+export const DISAGREEMENT_THRESHOLD = 2;
+
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
 function parseJsonStringArray(value: string | undefined, fieldName: string): string[] {
@@ -158,6 +316,14 @@ function parseJsonStringArray(value: string | undefined, fieldName: string): str
   }
 }
 
+/** Parse a JSON array of tags, trimming each and dropping blanks and duplicates. */
+function parseTags(value: string | undefined, fieldName: string): string[] {
+  const tags = parseJsonStringArray(value, fieldName)
+    .map((t) => t.trim())
+    .filter(Boolean);
+  return [...new Set(tags)];
+}
+
 function parseJsonArray<T>(value: string | undefined, fieldName: string): T[] {
   if (!value) return [];
   try {
@@ -174,12 +340,27 @@ function parseJsonArray<T>(value: string | undefined, fieldName: string): T[] {
   }
 }
 
+/**
+ * Map a raw step from the client onto PlanStep, accepting common aliases for its title and
+ * description. Throws TypeError naming the step if its dependencies are not step numbers.
+ */
 export function normalizePlanStep(raw: Record<string, unknown>, index: number): PlanStep {
   const rawTitle = raw.title ?? raw.action ?? raw.name ?? raw.step;
   const rawDescription = raw.description ?? raw.detail ?? raw.details ?? raw.info;
+  const title = typeof rawTitle === 'string' ? rawTitle : `Step ${String(index + 1)}`;
+
+  const { dependencies } = raw;
+  if (
+    dependencies != null &&
+    (!Array.isArray(dependencies) || !dependencies.every((d) => Number.isInteger(d)))
+  ) {
+    throw new TypeError(
+      `Step ${String(index + 1)} ("${title}"): dependencies must be an array of step numbers, e.g. [1, 2]`
+    );
+  }
 
   return {
-    title: typeof rawTitle === 'string' ? rawTitle : `Step ${String(index + 1)}`,
+    title,
     description: typeof rawDescription === 'string' ? rawDescription : '',
     ...(raw.files ? { files: raw.files as string[] } : {}),
     ...(raw.dependencies ? { dependencies: raw.dependencies as number[] } : {}),
@@ -187,19 +368,230 @@ export function normalizePlanStep(raw: Record<string, unknown>, index: number):
   };
 }
 
-export function calculateWeightedScore(scores: EvaluationScores): number {
-  const raw =
-    scores.feasibility * SCORE_WEIGHTS.feasibility +
-    scores.completeness * SCORE_WEIGHTS.completeness +
-    scores.coherence * SCORE_WEIGHTS.coherence +
-    (10 - scores.risk) * SCORE_WEIGHTS.risk;
+/**
+ * Check a raw risk from the client: an object with a string "description" and an optional
+ * string "mitigation". Throws TypeError naming the risk otherwise.
+ */
+export function normalizePlanRisk(raw: unknown, index: number): PlanRisk {
+  const risk = raw as Record<string, unknown> | null;
+  if (
+    !risk ||
+    typeof risk !== 'object' ||
+    Array.isArray(risk) ||
+    typeof risk.description !== 'string' ||
+    (risk.mitigation != null && typeof risk.mitigation !== 'string')
+  ) {
+    throw new TypeError(
+      `Risk ${String(index + 1)} must be an object with a "description" and a "mitigation", e.g. {"description": "Data loss", "mitigation": "Nightly backups"}`
+    );
+  }
+  return { description: risk.description, mitigation: risk.mitigation ?? '' };
+}
+
+/**
+ * Parse and validate a JSON array of evaluation criteria.
+ * Each criterion needs a unique non-empty name and a positive weight.
+ */
+export function parseCriteria(value: unknown, fieldName: string): EvaluationCriterion[] {
+  const parsed: unknown = typeof value === 'string' ? parseJsonArray(value, fieldName) : value;
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new TypeError(`${fieldName} must be a non-empty array of criteria`);
+  }
+
+  const criteria = parsed.map((raw: unknown) => {
+    const item = (raw ?? {}) as Record<string, unknown>;
+    if (typeof item.name !== 'string' || item.name.trim() === '') {
+      throw new TypeError(`Each entry in ${fieldName} needs a "name"`);
+    }
+    if (typeof item.weight !== 'number' || !(item.weight > 0)) {
+      throw new TypeError(`Criterion "${item.name}" needs a positive numeric "weight"`);
+    }
+    return {
+      name: item.name.trim(),
+      weight: item.weight,
+      ...(item.lowerIsBetter === true && { lowerIsBetter: true }),
+    };
+  });
+
+  const names = criteria.map((c) => c.name);
+  const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+  if (duplicate) {
+    throw new TypeError(`Duplicate criterion "${duplicate}" in ${fieldName}`);
+  }
+
+  return criteria;
+}
+
+/**
+ * Weighted average of criterion scores on a 0-10 scale.
+ * Weights are normalised, so they need not sum to 1. Missing scores count as 5.
+ */
+export function calculateWeightedScore(
+  scores: EvaluationScores,
+  criteria: EvaluationCriterion[] = DEFAULT_CRITERIA
+): number {
+  let total = 0;
+  let weightSum = 0;
+  for (const criterion of criteria) {
+    const score = scores[criterion.name] ?? DEFAULT_SCORE;
+    total += (criterion.lowerIsBetter ? 10 - score : score) * criterion.weight;
+    weightSum += criterion.weight;
+  }
+  const raw = weightSum > 0 ? total / weightSum : 0;
   return Math.round(raw * 100) / 100;
 }
 
+/**
+ * Collect evaluation scores for the given criteria.
+ * Named fields (feasibility, completeness, coherence, risk) and the "scores" JSON object are merged,
+ * with "scores" taking precedence. Throws on malformed JSON; returns an error message
+ * for unknown criteria or out-of-range values.
+ */
+function parseScores(
+  input: DeepPlanningInput,
+  criteria: EvaluationCriterion[]
+): EvaluationScores | string {
+  const provided: Record<string, unknown> = {};
+  for (const name of ['feasibility', 'completeness', 'coherence', 'risk'] as const) {
+    if (input[name] !== undefined) provided[name] = input[name];
+  }
+
+  if (input.scores) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(input.scores);
+    } catch {
+      throw new TypeError('Invalid JSON for scores');
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new TypeError('scores must be a JSON object mapping criterion names to 0-10 scores');
+    }
+    Object.assign(provided, parsed);
+  }
+
+  const names = criteria.map((c) => c.name);
+  const scores: EvaluationScores = {};
+  for (const [name, value] of Object.entries(provided)) {
+    if (!names.includes(name)) {
+      return `Unknown criterion "${name}". This session's criteria: ${names.join(', ')}`;
+    }
+    if (typeof value !== 'number' || value < 0 || value > 10) {
+      return `Score for "${name}" must be a number between 0 and 10.`;
+    }
+    scores[name] = value;
+  }
+
+  for (const name of names) {
+    scores[name] ??= DEFAULT_SCORE;
+  }
+  return scores;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Aggregate the evaluations of one branch across evaluators.
+ * Returns undefined when the branch has not been evaluated.
+ */
+export function summarizeEvaluations(
+  evaluations: Evaluation[],
+  branchId: string
+): EvaluationSummary | undefined {
+  const forBranch = evaluations.filter((e) => e.branchId === branchId);
+  if (forBranch.length === 0) return undefined;
+
+  const sorted = forBranch.map((e) => e.weightedScore).sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median =
+    sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  const mean = sorted.reduce((sum, score) => sum + score, 0) / sorted.length;
+  const spread = sorted[sorted.length - 1] - sorted[0];
+
+  // Count votes from the most cautious recommendation down so ties resolve cautiously
+  const counts = new Map<Evaluation['recommendation'], number>();
+  for (const rec of [...VALID_RECOMMENDATIONS].reverse()) {
+    const votes = forBranch.filter((e) => e.recommendation === rec).length;
+    if (votes > 0) counts.set(rec, votes);
+  }
+  let recommendation: Evaluation['recommendation'] = 'refine';
+  let best = 0;
+  for (const [rec, votes] of counts) {
+    if (votes > best) {
+      recommendation = rec;
+      best = votes;
+    }
+  }
+
+  return {
+    branchId,
+    evaluatorCount: forBranch.length,
+    mean: round2(mean),
+    median: round2(median),
+    spread: round2(spread),
+    recommendation,
+    disagreement: spread >= DISAGREEMENT_THRESHOLD || counts.size > 1,
+  };
+}
+
+function describeSummary(summary: EvaluationSummary): string {
+  return `mean of ${summary.evaluatorCount} evaluators, median ${summary.median.toFixed(2)}, spread ${summary.spread.toFixed(2)}`;
+}
+
+function criterionTitle(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/**
+ * Index of the event whose state event `index` holds: restore and undo events point back to
+ * the event they restored, followed until a regular step.
+ */
+function stateEventIndex(events: PlanEvent[], index: number): number {
+  let i = index;
+  let from = events[i].restoredFrom;
+  while (from !== undefined) {
+    i = from;
+    from = events[i].restoredFrom;
+  }
+  return i;
+}
+
 // ─── Markdown Section Builders ───────────────────────────────────────────────
 
 function buildHeaderSection(session: PlanningSession, selectedName: string): string[] {
-  const lines = [`# Plan: ${selectedName}`, '', '## Problem', session.problem, ''];
+  const lines = [`# Plan: ${selectedName}`, ''];
+
+  if (session.revisions && session.revisions.length > 0) {
+    lines.push(
+      `**Version:** ${String(session.version ?? 1)}`,
+      '',
+      '## Revision History',
+      ...session.revisions.map(
+        (r) =>
+          `- **v${String(r.version)}** (${r.reopenedAt.slice(0, 10)})${r.reason ? `: ${r.reason}` : ''}`
+      ),
+      ''
+    );
+  }
+
+  if (session.forkedFrom) {
+    lines.push(
+      `**Forked from:** ${session.forkedFrom.sessionId} (event ${String(session.forkedFrom.eventIndex)}, ${session.forkedFrom.phase} phase)`,
+      ''
+    );
+  }
+
+  const metadata = [
+    ...(session.owner ? [`**Owner:** ${session.owner}`] : []),
+    ...(session.project ? [`**Project:** ${session.project}`] : []),
+    ...(session.tags && session.tags.length > 0 ? [`**Tags:** ${session.tags.join(', ')}`] : []),
+  ];
+  if (metadata.length > 0) {
+    lines.push(metadata.join(' · '), '');
+  }
+
+  lines.push('## Problem', session.problem, '');
 
   if (session.context) {
     lines.push('## Context', session.context, '');
@@ -209,6 +601,18 @@ function buildHeaderSection(session: PlanningSession, selectedName: string): str
     lines.push('## Constraints', ...session.constraints.map((c) => `- ${c}`), '');
   }
 
+  lines.push(
+    '## Evaluation Criteria',
+    '',
+    '| Criterion | Weight | Direction |',
+    '|-----------|--------|-----------|',
+    ...(session.criteria ?? DEFAULT_CRITERIA).map(
+      (c) =>
+        `| ${criterionTitle(c.name)} | ${c.weight} | ${c.lowerIsBetter ? 'lower is better' : 'higher is better'} |`
+    ),
+    ''
+  );
+
   if (session.clarifications.length > 0) {
     lines.push(
       '## Clarifications',
@@ -223,13 +627,27 @@ function buildHeaderSection(session: PlanningSession, selectedName: string): str
   return lines;
 }
 
+function buildEvaluatorTable(branchEvals: Evaluation[]): string[] {
+  return [
+    '| Evaluator | Score | Recommendation | Rationale |',
+    '|-----------|-------|----------------|-----------|',
+    ...branchEvals.map(
+      (e, i) =>
+        `| ${e.evaluatorId ?? `#${String(i + 1)}`} | ${e.weightedScore.toFixed(2)}/10 | ${e.recommendation} | ${e.rationale} |`
+    ),
+  ];
+}
+
 function buildSelectedApproachSection(
   selected: Approach | undefined,
-  selectedEval: Evaluation | undefined
+  branchEvals: Evaluation[],
+  criteria: EvaluationCriterion[]
 ): string[] {
   const lines = [`## Selected Approach: ${selected?.name ?? 'N/A'}`, ''];
+  const summary = selected && summarizeEvaluations(branchEvals, selected.branchId);
 
-  if (selectedEval) {
+  if (summary && branchEvals.length === 1) {
+    const [selectedEval] = branchEvals;
     lines.push(
       `**Score:** ${selectedEval.weightedScore.toFixed(2)}/10`,
       `**Rationale:** ${selectedEval.rationale}`,
@@ -237,10 +655,31 @@ function buildSelectedApproachSection(
       '',
       '| Criterion | Score |',
       '|-----------|-------|',
-      `| Feasibility | ${selectedEval.scores.feasibility}/10 |`,
-      `| Completeness | ${selectedEval.scores.completeness}/10 |`,
-      `| Coherence | ${selectedEval.scores.coherence}/10 |`,
-      `| Risk | ${selectedEval.scores.risk}/10 |`,
+      ...criteria.map(
+        (c) => `| ${criterionTitle(c.name)} | ${selectedEval.scores[c.name] ?? DEFAULT_SCORE}/10 |`
+      ),
+      ''
+    );
+  } else if (summary) {
+    const meanScore = (name: string): number =>
+      round2(
+        branchEvals.reduce((sum, e) => sum + (e.scores[name] ?? DEFAULT_SCORE), 0) /
+          branchEvals.length
+      );
+    lines.push(
+      `**Score:** ${summary.mean.toFixed(2)}/10 (${describeSummary(summary)})`,
+      `**Recommendation:** ${summary.recommendation}`
+    );
+    if (summary.disagreement) {
+      lines.push('**Disagreement:** evaluators diverge on this approach; review their rationales.');
+    }
+    lines.push(
+      '',
+      ...buildEvaluatorTable(branchEvals),
+      '',
+      '| Criterion | Mean Score |',
+      '|-----------|------------|',
+      ...criteria.map((c) => `| ${criterionTitle(c.name)} | ${meanScore(c.name)}/10 |`),
       ''
     );
   }
@@ -261,13 +700,22 @@ function buildRejectedSection(rejected: Approach[], evaluations: Evaluation[]):
 
   const lines = ['## Rejected Approaches', ''];
   for (const r of rejected) {
-    const rEval = evaluations.find((e) => e.branchId === r.branchId);
+    const rEvals = evaluations.filter((e) => e.branchId === r.branchId);
+    const summary = summarizeEvaluations(rEvals, r.branchId);
     lines.push(`### ${r.name}`);
-    if (rEval) {
+    if (summary && rEvals.length === 1) {
+      lines.push(
+        `**Score:** ${rEvals[0].weightedScore.toFixed(2)}/10 | **Recommendation:** ${rEvals[0].recommendation}`,
+        `**Rationale:** ${rEvals[0].rationale}`
+      );
+    } else if (summary) {
       lines.push(
-        `**Score:** ${rEval.weightedScore.toFixed(2)}/10 | **Recommendation:** ${rEval.recommendation}`,
-        `**Rationale:** ${rEval.rationale}`
+        `**Score:** ${summary.mean.toFixed(2)}/10 (${describeSummary(summary)}) | **Recommendation:** ${summary.recommendation}`
       );
+      if (summary.disagreement) {
+        lines.push('**Disagreement:** evaluators diverge on this approach.');
+      }
+      lines.push('', ...buildEvaluatorTable(rEvals));
     }
     lines.push('');
   }
@@ -275,6 +723,20 @@ function buildRejectedSection(rejected: Approach[], evaluations: Evaluation[]):
   return lines;
 }
 
+function buildExecutionSection(analysis: DependencyAnalysis): string[] {
+  const step = (n: number): string => `Step ${String(n)}`;
+  return [
+    '### Execution Order',
+    `**Order:** ${analysis.order.map(step).join(' → ')}`,
+    '',
+    '**Parallel groups:**',
+    ...analysis.parallelGroups.map((group, i) => `${String(i + 1)}. ${group.map(step).join(', ')}`),
+    '',
+    `**Critical path:** ${analysis.criticalPath.map(step).join(' → ')} (weight ${String(analysis.criticalPathWeight)})`,
+    '',
+  ];
+}
+
 function buildStepsSection(steps: PlanStep[]): string[] {
   if (steps.length === 0) return [];
 
@@ -293,6 +755,11 @@ function buildStepsSection(steps: PlanStep[]): string[] {
     lines.push('');
   }
 
+  // Order and grouping only add information when some step has dependencies
+  if (steps.some((s) => s.dependencies && s.dependencies.length > 0)) {
+    lines.push(...buildExecutionSection(analyzeDependencies(steps)));
+  }
+
   return lines;
 }
 
@@ -321,16 +788,67 @@ function buildFooterSection(session: PlanningSession): string[] {
   return lines;
 }
 
+const PHASE_TITLES: Record<PlanPhase, string> = {
+  init: 'Init',
+  clarify: 'Clarify',
+  explore: 'Explore',
+  evaluate: 'Evaluate',
+  finalize: 'Finalize',
+  revise: 'Revise',
+  done: 'Done',
+};
+
+function buildReasoningSection(trail: ReasoningEntry[] | undefined): string[] {
+  if (!trail || trail.length === 0) return [];
+
+  const lines = ['## Reasoning Trail', ''];
+  // Group by phase in workflow order; thoughts keep their recorded order within a phase
+  for (const phase of Object.keys(PHASE_TITLES) as PlanPhase[]) {
+    const entries = trail.filter((e) => e.phase === phase);
+    if (entries.length === 0) continue;
+    lines.push(`### ${PHASE_TITLES[phase]}`);
+    for (const entry of entries) {
+      const marker = entry.isRevision
+        ? ' (revision)'
+        : entry.branchId
+          ? ` (${entry.branchId})`
+          : '';
+      lines.push(
+        `- **${entry.thinkingSessionId} #${entry.thoughtNumber}${marker}:** ${entry.thought}`
+      );
+    }
+    lines.push('');
+  }
+
+  return lines;
+}
+
 // ─── Server ──────────────────────────────────────────────────────────────────
 
 export class DeepPlanningServer {
   private session: PlanningSession | null = null;
   private disableLogging: boolean;
+  /** Plans directory of the active session; the current project's when none is active. */
   private persistence: PersistenceManager;
-
-  constructor(projectRoot?: string) {
+  /** Plans directory of the current project root, where new sessions are saved. */
+  private projectPersistence: PersistenceManager;
+  private startupRoot: string | undefined;
+  private projectRoots: string[];
+  /** A backend given to the constructor; it then holds the plans of every project root. */
+  private storage: StorageBackend | undefined;
+  /** One manager per plans directory; roots without their own plansDirectory share one. */
+  private managers = new Map<string, PersistenceManager>();
+  /** Managers whose plans directory has had its retention policy and startup check applied. */
+  private maintained = new Set<PersistenceManager>();
+
+  constructor(projectRoot?: string, storage?: StorageBackend) {
     this.disableLogging = (process.env.DISABLE_THOUGHT_LOGGING ?? '').toLowerCase() === 'true';
-    this.persistence = new PersistenceManager(projectRoot);
+    this.storage = storage;
+    this.persistence = new PersistenceManager(projectRoot, storage);
+    this.projectPersistence = this.persistence;
+    this.managers.set(this.managerKey(projectRoot), this.persistence);
+    this.startupRoot = projectRoot;
+    this.projectRoots = projectRoot ? [projectRoot] : [];
   }
 
   private log(message: string): void {
@@ -362,7 +880,7 @@ export class DeepPlanningServer {
   }
 
   private validateTransition(requestedPhase: string): string | null {
-    if (!VALID_PHASES.includes(requestedPhase as PlanPhase)) {
+    if (!VALID_PHASES.includes(requestedPhase as RequestedPhase)) {
       return `Invalid phase: "${requestedPhase}". Valid phases: ${VALID_PHASES.join(', ')}`;
     }
 
@@ -370,8 +888,9 @@ export class DeepPlanningServer {
       return 'No active planning session. Call with phase "init" first.';
     }
 
-    // init is always valid — it creates a fresh session regardless of current state
-    if (requestedPhase === 'init') {
+    // init is always valid — it creates a fresh session regardless of current state.
+    // undo is valid from any phase — it steps back through the session's own log.
+    if (requestedPhase === 'init' || requestedPhase === 'undo') {
       return null;
     }
 
@@ -386,14 +905,41 @@ export class DeepPlanningServer {
 
   // ─── Phase Handlers ──────────────────────────────────────────────────────
 
-  private handleInit(input: DeepPlanningInput): DeepPlanningOutput {
+  /**
+   * Resolve evaluation criteria for a new session.
+   * Precedence: init "criteria" argument → yggdrasil-config.json → DEFAULT_CRITERIA.
+   * An invalid config file is reported on stderr and ignored; an invalid argument throws.
+   */
+  private async resolveCriteria(
+    input: DeepPlanningInput
+  ): Promise<EvaluationCriterion[] | undefined> {
+    if (input.criteria) return parseCriteria(input.criteria, 'criteria');
+
+    const config = await this.projectPersistence.readConfig();
+    if (config.criteria === undefined) return undefined;
+    try {
+      return parseCriteria(config.criteria, 'yggdrasil-config.json criteria');
+    } catch (error) {
+      console.error(
+        `[yggdrasil] Ignoring config criteria: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return undefined;
+    }
+  }
+
+  private async handleInit(input: DeepPlanningInput): Promise<DeepPlanningOutput> {
     if (!input.problem) {
       return this.makeOutput('error', 'Phase "init" requires a "problem" field.');
     }
 
+    const criteria = await this.resolveCriteria(input);
+    const tags = parseTags(input.tags, 'tags');
+
     const sessionId = `dp-${generateId(8)}`;
     const now = new Date().toISOString();
 
+    // A new session lives in the current project, wherever the previous one was saved
+    this.persistence = this.projectPersistence;
     this.session = {
       sessionId,
       problem: input.problem,
@@ -407,28 +953,24 @@ export class DeepPlanningServer {
       risks: [],
       assumptions: [],
       successCriteria: [],
+      ...(criteria && { criteria }),
+      ...(tags.length > 0 && { tags }),
+      ...(input.owner && { owner: input.owner }),
+      ...(input.project && { project: input.project }),
       createdAt: now,
       updatedAt: now,
     };
 
     this.log(chalk.blue(`\n📋 Planning session started: ${sessionId}`));
     this.log(chalk.blue(`   Problem: ${input.problem}`));
+    if (criteria) {
+      this.log(
+        chalk.blue(`   Criteria: ${criteria.map((c) => `${c.name} (${c.weight})`).join(', ')}`)
+      );
+    }
 
     // Persist: append JSONL event + create index entry (fire-and-forget, tracked for flush)
-    this.persistence.track(this.persistence.appendEvent(this.session));
-    this.persistence.track(
-      this.persistence.updateIndex(sessionId, {
-        problem: input.problem,
-        createdAt: now,
-        finalizedAt: null,
-        selectedBranch: null,
-        phase: 'init',
-        filePaths: {
-          jsonl: `${sessionId}.jsonl`,
-          markdown: null,
-        },
-      })
-    );
+    this.persistStep(this.session);
 
     return this.makeOutput(
       'ok',
@@ -453,8 +995,8 @@ export class DeepPlanningServer {
       this.log(chalk.yellow(`   💬 Answer: ${input.answer}`));
     }
 
-    // Persist: append JSONL event (fire-and-forget)
-    this.persistence.track(this.persistence.appendEvent(session));
+    // Persist: append JSONL event + refresh index entry (fire-and-forget)
+    this.persistStep(session);
 
     return this.makeOutput(
       'ok',
@@ -484,8 +1026,8 @@ export class DeepPlanningServer {
 
     this.log(chalk.green(`   🌿 Approach: ${input.name} (${input.branchId})`));
 
-    // Persist: append JSONL event (fire-and-forget)
-    this.persistence.track(this.persistence.appendEvent(session));
+    // Persist: append JSONL event + refresh index entry (fire-and-forget)
+    this.persistStep(session);
 
     return this.makeOutput(
       'ok',
@@ -507,20 +1049,25 @@ export class DeepPlanningServer {
       );
     }
 
-    const existing = session.evaluations.find((e) => e.branchId === input.branchId);
+    const version = session.version ?? 1;
+    const sameEvaluator = (e: Evaluation): boolean =>
+      e.branchId === input.branchId && e.evaluatorId === input.evaluatorId;
+    const existing = session.evaluations.find(
+      (e) => sameEvaluator(e) && (e.version ?? 1) === version
+    );
     if (existing) {
+      const by = input.evaluatorId ? ` by evaluator "${input.evaluatorId}"` : '';
       return this.makeOutput(
         'error',
-        `Evaluation for branchId "${input.branchId}" already exists.`
+        `Evaluation for branchId "${input.branchId}"${by} already exists. Use a different evaluatorId to add another evaluation.`
       );
     }
 
-    const scores: EvaluationScores = {
-      feasibility: input.feasibility ?? 5,
-      completeness: input.completeness ?? 5,
-      coherence: input.coherence ?? 5,
-      risk: input.risk ?? 5,
-    };
+    const criteria = session.criteria ?? DEFAULT_CRITERIA;
+    const scores = parseScores(input, criteria);
+    if (typeof scores === 'string') {
+      return this.makeOutput('error', scores);
+    }
 
     const recommendation = input.recommendation ?? 'refine';
     if (!VALID_RECOMMENDATIONS.includes(recommendation as (typeof VALID_RECOMMENDATIONS)[number])) {
@@ -530,10 +1077,14 @@ export class DeepPlanningServer {
       );
     }
 
-    const weightedScore = calculateWeightedScore(scores);
+    const weightedScore = calculateWeightedScore(scores, criteria);
 
+    // Re-evaluating during a revision supersedes the evaluator's score from an earlier version
+    session.evaluations = session.evaluations.filter((e) => !sameEvaluator(e));
     session.evaluations.push({
       branchId: input.branchId,
+      ...(input.evaluatorId && { evaluatorId: input.evaluatorId }),
+      ...(version > 1 && { version }),
       scores,
       weightedScore,
       rationale: input.rationale ?? '',
@@ -542,18 +1093,25 @@ export class DeepPlanningServer {
     session.phase = 'evaluate';
     session.updatedAt = new Date().toISOString();
 
+    const evaluator = input.evaluatorId ? ` by ${input.evaluatorId}` : '';
     this.log(
       chalk.cyan(
-        `   📊 Evaluated: ${approach.name} → ${weightedScore.toFixed(2)}/10 (${recommendation})`
+        `   📊 Evaluated${evaluator}: ${approach.name} → ${weightedScore.toFixed(2)}/10 (${recommendation})`
       )
     );
 
-    // Persist: append JSONL event (fire-and-forget)
-    this.persistence.track(this.persistence.appendEvent(session));
+    // Persist: append JSONL event + refresh index entry (fire-and-forget)
+    this.persistStep(session);
+
+    let aggregate = '';
+    const summary = summarizeEvaluations(session.evaluations, input.branchId);
+    if (summary && summary.evaluatorCount > 1) {
+      aggregate = ` Aggregate: ${summary.mean.toFixed(2)}/10 (${describeSummary(summary)})${summary.disagreement ? ', evaluators disagree' : ''}.`;
+    }
 
     return this.makeOutput(
       'ok',
-      `Evaluation for "${approach.name}" recorded (score: ${weightedScore.toFixed(2)}/10, ${session.evaluations.length} total). Evaluate more or finalize.`
+      `Evaluation for "${approach.name}" recorded (score: ${weightedScore.toFixed(2)}/10, ${session.evaluations.length} total).${aggregate} Evaluate more or finalize.`
     );
   }
 
@@ -571,12 +1129,24 @@ export class DeepPlanningServer {
       );
     }
 
-    session.selectedApproach = input.selectedBranch;
     const rawSteps = parseJsonArray<Record<string, unknown>>(input.steps, 'steps');
-    session.steps = rawSteps.map((raw, i) => normalizePlanStep(raw, i));
-    session.risks = parseJsonArray<PlanRisk>(input.risks, 'risks');
-    session.assumptions = parseJsonStringArray(input.assumptions, 'assumptions');
-    session.successCriteria = parseJsonStringArray(input.successCriteria, 'successCriteria');
+    const steps = rawSteps.map((raw, i) => normalizePlanStep(raw, i));
+    const dependencyError = validateDependencies(steps);
+    if (dependencyError) {
+      return this.makeOutput('error', dependencyError);
+    }
+    // Parse everything before touching the session, so a bad field leaves it as it was
+    const risks = parseJsonArray<unknown>(input.risks, 'risks').map((raw, i) =>
+      normalizePlanRisk(raw, i)
+    );
+    const assumptions = parseJsonStringArray(input.assumptions, 'assumptions');
+    const successCriteria = parseJsonStringArray(input.successCriteria, 'successCriteria');
+
+    session.selectedApproach = input.selectedBranch;
+    session.steps = steps;
+    session.risks = risks;
+    session.assumptions = assumptions;
+    session.successCriteria = successCriteria;
     session.phase = 'done';
     session.updatedAt = new Date().toISOString();
 
@@ -584,7 +1154,12 @@ export class DeepPlanningServer {
     const plan =
       format === 'json' ? this.generateJsonPlan(session) : this.generateMarkdownPlan(session);
 
-    this.log(chalk.magenta(`\n✅ Plan finalized: ${approach.name}`));
+    const version = session.version ?? 1;
+    this.log(
+      chalk.magenta(
+        `\n✅ Plan finalized: ${approach.name}${version > 1 ? ` (v${String(version)})` : ''}`
+      )
+    );
 
     // Persist: append JSONL event + write Markdown + update index (fire-and-forget)
     this.persistence.track(this.persistence.appendEvent(session));
@@ -593,51 +1168,124 @@ export class DeepPlanningServer {
     }
     const datePrefix = session.createdAt.slice(0, 10).replaceAll('-', '');
     this.persistence.track(
-      this.persistence.updateIndex(session.sessionId, {
-        problem: session.problem,
-        createdAt: session.createdAt,
-        finalizedAt: session.updatedAt,
-        selectedBranch: session.selectedApproach ?? null,
-        phase: 'done',
-        filePaths: {
-          jsonl: `${session.sessionId}.jsonl`,
-          markdown: format === 'json' ? null : `${datePrefix}-${session.sessionId}.md`,
-        },
-      })
+      this.persistence.updateIndex(
+        session.sessionId,
+        buildIndexEntry(session, format === 'json' ? null : `${datePrefix}-${session.sessionId}.md`)
+      )
     );
 
-    return this.makeOutput('complete', `Plan finalized with approach "${approach.name}".`, plan);
+    const versionNote = version > 1 ? ` as version ${String(version)}` : '';
+    return this.makeOutput(
+      'complete',
+      `Plan finalized${versionNote} with approach "${approach.name}".`,
+      plan
+    );
+  }
+
+  private handleRevise(session: PlanningSession, input: DeepPlanningInput): DeepPlanningOutput {
+    const now = new Date().toISOString();
+    const version = (session.version ?? 1) + 1;
+
+    session.version = version;
+    session.revisions = [
+      ...(session.revisions ?? []),
+      { version, reopenedAt: now, ...(input.reason && { reason: input.reason }) },
+    ];
+    session.phase = 'revise';
+    session.updatedAt = now;
+
+    this.log(chalk.blue(`\n✏️  Revising plan ${session.sessionId} → v${String(version)}`));
+    if (input.reason) {
+      this.log(chalk.blue(`   Reason: ${input.reason}`));
+    }
+
+    // Persist: append JSONL event + reopen the index entry (fire-and-forget)
+    this.persistStep(session);
+
+    return this.makeOutput(
+      'ok',
+      `Plan reopened as version ${String(version)}. Clarify, explore or re-evaluate approaches, then finalize again.`
+    );
+  }
+
+  /**
+   * Roll the active session back to the state before its last step, using the JSONL log.
+   * Appends an "undo" event instead of truncating, so repeated undos keep stepping back.
+   */
+  private async handleUndo(session: PlanningSession): Promise<DeepPlanningOutput> {
+    const events = await this.tryLoad(this.persistence.loadEvents(session.sessionId));
+    if (typeof events === 'string') return this.makeOutput('error', events);
+    if (!events) {
+      return this.makeOutput(
+        'error',
+        `No saved history for session "${session.sessionId}". Nothing to undo.`
+      );
+    }
+
+    const current = stateEventIndex(events, events.length - 1);
+    if (current === 0) {
+      return this.makeOutput('error', 'Nothing to undo: the session is at its first step.');
+    }
+    const target = stateEventIndex(events, current - 1);
+    const undone = events[current].phase;
+
+    const restored = this.restoreSnapshot(events[target].session, target, 'undo');
+    this.log(chalk.yellow(`\n↩️  Undid ${undone} step → back to event ${String(target)}`));
+
+    return this.makeOutput(
+      'ok',
+      `Undid the last "${undone}" step. The session is back in the "${restored.phase}" phase (event ${String(target)}).`
+    );
+  }
+
+  /** Persist a recorded step: append its JSONL event and refresh the index entry (fire-and-forget). */
+  private persistStep(session: PlanningSession, persistence = this.persistence): void {
+    persistence.track(persistence.appendEvent(session));
+    persistence.track(persistence.updateIndex(session.sessionId, buildIndexEntry(session, null)));
   }
 
   // ─── Plan Generation ─────────────────────────────────────────────────────
 
   private generateMarkdownPlan(session: PlanningSession): string {
     const selected = session.approaches.find((a) => a.branchId === session.selectedApproach);
-    const selectedEval = session.evaluations.find((e) => e.branchId === session.selectedApproach);
+    const selectedEvals = session.evaluations.filter(
+      (e) => e.branchId === session.selectedApproach
+    );
     const rejected = session.approaches.filter((a) => a.branchId !== session.selectedApproach);
 
     return [
       ...buildHeaderSection(session, selected?.name ?? 'Untitled'),
-      ...buildSelectedApproachSection(selected, selectedEval),
+      ...buildSelectedApproachSection(
+        selected,
+        selectedEvals,
+        session.criteria ?? DEFAULT_CRITERIA
+      ),
       ...buildRejectedSection(rejected, session.evaluations),
       ...buildStepsSection(session.steps),
       ...buildFooterSection(session),
+      ...buildReasoningSection(session.reasoningTrail),
     ].join('\n');
   }
 
   private generateJsonPlan(session: PlanningSession): string {
     const selected = session.approaches.find((a) => a.branchId === session.selectedApproach);
-    const selectedEval = session.evaluations.find((e) => e.branchId === session.selectedApproach);
+    const selectedEvals = session.evaluations.filter(
+      (e) => e.branchId === session.selectedApproach
+    );
+    const selectedSummary = summarizeEvaluations(selectedEvals, session.selectedApproach ?? '');
     const rejected = session.approaches
       .filter((a) => a.branchId !== session.selectedApproach)
       .map((a) => {
-        const aEval = session.evaluations.find((e) => e.branchId === a.branchId);
+        const aEvals = session.evaluations.filter((e) => e.branchId === a.branchId);
+        const summary = summarizeEvaluations(aEvals, a.branchId);
         return {
           name: a.name,
           branchId: a.branchId,
-          score: aEval?.weightedScore,
-          recommendation: aEval?.recommendation,
-          rationale: aEval?.rationale,
+          score: summary?.mean,
+          recommendation: summary?.recommendation,
+          rationale: aEvals.length === 1 ? aEvals[0].rationale : undefined,
+          aggregate: summary,
+          evaluations: aEvals,
         };
       });
 
@@ -647,34 +1295,807 @@ export class DeepPlanningServer {
         problem: session.problem,
         context: session.context,
         constraints: session.constraints,
+        ...(session.forkedFrom && { forkedFrom: session.forkedFrom }),
+        ...(session.owner && { owner: session.owner }),
+        ...(session.project && { project: session.project }),
+        ...(session.tags && { tags: session.tags }),
         clarifications: session.clarifications,
+        criteria: session.criteria ?? DEFAULT_CRITERIA,
         selectedApproach: {
           name: selected?.name,
           branchId: session.selectedApproach,
-          score: selectedEval?.weightedScore,
-          rationale: selectedEval?.rationale,
+          score: selectedSummary?.mean,
+          scores: selectedEvals.length === 1 ? selectedEvals[0].scores : undefined,
+          rationale: selectedEvals.length === 1 ? selectedEvals[0].rationale : undefined,
+          aggregate: selectedSummary,
+          evaluations: selectedEvals,
         },
         rejectedApproaches: rejected,
         steps: session.steps,
+        dependencyGraph: session.steps.length > 0 ? analyzeDependencies(session.steps) : null,
         risks: session.risks,
         assumptions: session.assumptions,
         successCriteria: session.successCriteria,
+        reasoningTrail: session.reasoningTrail ?? [],
       },
       null,
       2
     );
   }
 
-  /** Expose persistence manager for list_plans/get_plan MCP tools. */
+  /**
+   * Attach a sequential_thinking thought to a planning session's reasoning trail,
+   * tagged with the phase the session is currently in.
+   * Works on the active session or one loaded from disk (without switching to it).
+   * Returns an error message, or null on success.
+   */
+  public async attachThought(
+    planSessionId: string,
+    thinkingSessionId: string,
+    thought: { thoughtNumber: number; thought: string; isRevision?: boolean; branchId?: string }
+  ): Promise<string | null> {
+    const persistence = await this.persistenceOf(planSessionId);
+    const session =
+      this.session?.sessionId === planSessionId
+        ? this.session
+        : await this.tryLoad(persistence.loadSession(planSessionId));
+    if (typeof session === 'string') return session;
+    if (!session) {
+      return `Planning session "${planSessionId}" not found. Use "list_plans" to see available sessions.`;
+    }
+    if (session.phase === 'done') {
+      return `Planning session "${planSessionId}" is already finalized. Reopen it with phase "revise" to attach more reasoning.`;
+    }
+
+    const now = new Date().toISOString();
+    (session.reasoningTrail ??= []).push({
+      phase: session.phase,
+      thinkingSessionId,
+      thoughtNumber: thought.thoughtNumber,
+      thought: thought.thought,
+      ...(thought.isRevision && { isRevision: true }),
+      ...(thought.branchId && { branchId: thought.branchId }),
+      recordedAt: now,
+    });
+    session.updatedAt = now;
+
+    this.log(chalk.gray(`   🧠 Thought ${thought.thoughtNumber} linked to ${planSessionId}`));
+
+    // Persist: append JSONL event + refresh index entry (fire-and-forget)
+    this.persistStep(session, persistence);
+    return null;
+  }
+
+  /**
+   * Expose the persistence manager of the active session's plans directory, or the current
+   * project's when no session is active. See persistenceOf for a saved session's.
+   */
   public getPersistence(): PersistenceManager {
     return this.persistence;
   }
 
+  // ─── Project Roots ───────────────────────────────────────────────────────
+
+  /**
+   * Set the workspace roots reported by the MCP client. New sessions are saved in the plans
+   * directory of the project root given at startup or, without one, of the first root. An
+   * active session keeps its plans directory until the next "init".
+   * Throws TypeError if a root's yggdrasil-config.json names an unknown storage backend.
+   */
+  public setProjectRoots(roots: string[]): void {
+    const projectRoots = [...new Set([...(this.startupRoot ? [this.startupRoot] : []), ...roots])];
+    this.projectPersistence = this.persistenceFor(projectRoots[0]);
+    this.projectRoots = projectRoots;
+    if (!this.session) this.persistence = this.projectPersistence;
+    this.log(chalk.blue(`\n📁 Plans directory: ${this.projectPersistence.getPlansDir()}`));
+  }
+
+  /** The project roots the server knows of, the current project first. */
+  public getProjectRoots(): string[] {
+    return [...this.projectRoots];
+  }
+
+  /** Roots share a manager when they share a store: an injected backend, or a plans directory. */
+  private managerKey(projectRoot: string | undefined): string {
+    return this.storage?.location ?? resolvePlansDirectory(projectRoot);
+  }
+
+  /** The manager for a project root's plans directory, created on first use. */
+  private persistenceFor(projectRoot: string | undefined): PersistenceManager {
+    const key = this.managerKey(projectRoot);
+    let persistence = this.managers.get(key);
+    if (!persistence) {
+      persistence = new PersistenceManager(projectRoot, this.storage);
+      this.managers.set(key, persistence);
+    }
+    return persistence;
+  }
+
+  /** The active plans directory and every project root's, each once. */
+  private allPersistences(): PersistenceManager[] {
+    return [
+      ...new Set([this.persistence, ...this.projectRoots.map((r) => this.persistenceFor(r))]),
+    ];
+  }
+
+  /**
+   * The manager whose plans directory holds a saved session: the active session's directory
+   * first, then each project root's. Falls back to the active directory when none has it.
+   */
+  public async persistenceOf(sessionId: string): Promise<PersistenceManager> {
+    if (this.session?.sessionId === sessionId) return this.persistence;
+    for (const persistence of this.allPersistences()) {
+      if (await persistence.hasPlan(sessionId)) return persistence;
+    }
+    return this.persistence;
+  }
+
+  /**
+   * One page of saved plans, as list_plans returns them. With `allRoots`, plans from the
+   * plans directories of all project roots are merged and each is tagged with its plansDir.
+   * Throws TypeError for invalid filters, a malformed cursor or a limit below 1.
+   */
+  public async listPlans(
+    query: PlanListQuery & { limit?: number; cursor?: string; allRoots?: boolean }
+  ): Promise<PlanListPage<PlanListEntry>> {
+    const { allRoots, ...rest } = query;
+    // Steps index their sessions in the background; list what they wrote
+    await this.persistence.flush();
+    if (!allRoots) return this.persistence.listPlansPage(rest);
+
+    const entries: PlanListEntry[] = [];
+    for (const persistence of this.allPersistences()) {
+      await persistence.flush();
+      const plansDir = persistence.getPlansDir();
+      entries.push(...(await persistence.listPlans(rest)).map((e) => ({ ...e, plansDir })));
+    }
+    return paginatePlans(sortPlans(entries, rest), rest);
+  }
+
+  /**
+   * Full-text search of saved plans, as search_plans returns it. With `allRoots`, the plans
+   * directories of all project roots are searched and each result is tagged with its plansDir.
+   * Throws TypeError for a limit below 1.
+   */
+  public async searchPlans(
+    query: string,
+    options: { limit?: number; includeArchived?: boolean; allRoots?: boolean } = {}
+  ): Promise<(SearchResult & { plansDir?: string })[]> {
+    const { allRoots, ...rest } = options;
+    await this.persistence.flush();
+    if (!allRoots) return this.persistence.searchPlans(query, rest);
+
+    const results: (SearchResult & { plansDir: string })[] = [];
+    for (const persistence of this.allPersistences()) {
+      const plansDir = persistence.getPlansDir();
+      results.push(
+        ...(await persistence.searchPlans(query, rest)).map((r) => ({ ...r, plansDir }))
+      );
+    }
+    // Each directory's results are already best first, newer plans winning ties
+    results.sort((a, b) => b.score - a.score);
+    return results.slice(0, rest.limit ?? DEFAULT_SEARCH_LIMIT);
+  }
+
+  // ─── Saved Sessions ──────────────────────────────────────────────────────
+
+  /** Error response for tools that address a saved session rather than the active one. */
+  private sessionError(sessionId: string, message: string): ToolResponse {
+    const output: DeepPlanningOutput = {
+      sessionId,
+      phase: '',
+      status: 'error',
+      approachCount: 0,
+      evaluationCount: 0,
+      validNextPhases: [],
+      message,
+    };
+    return {
+      content: [{ type: 'text' as const, text: JSON.stringify(output, null, 2) }],
+      isError: true,
+    };
+  }
+
+  /** Success response for tools that manage a saved session without loading it. */
+  private statusResponse(sessionId: string, message: string): ToolResponse {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify({ sessionId, status: 'ok', message }, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Await a load from persistence, returning the error message if the session's log can't be
+   * read or fails validation, so tools can report it instead of failing outright.
+   */
+  private async tryLoad<T>(load: Promise<T>): Promise<T | string> {
+    try {
+      return await load;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * Load a session snapshot from its JSONL log: the state after event `eventIndex` (0-based),
+   * or the latest state when omitted, with the manager of the plans directory that holds it.
+   * Returns an error message if the session or event is missing.
+   */
+  private async loadSnapshot(
+    sessionId: string,
+    eventIndex?: number
+  ): Promise<
+    | {
+        session: PlanningSession;
+        eventIndex: number;
+        eventCount: number;
+        persistence: PersistenceManager;
+      }
+    | string
+  > {
+    const persistence = await this.persistenceOf(sessionId);
+    const events = await this.tryLoad(persistence.loadEvents(sessionId));
+    if (typeof events === 'string') return events;
+    if (!events) {
+      return `Session "${sessionId}" not found. Use "list_plans" to see available sessions.`;
+    }
+    const index = eventIndex ?? events.length - 1;
+    if (index < 0 || index >= events.length) {
+      return `Event ${String(index)} is out of range for session "${sessionId}". Valid events: 0-${String(events.length - 1)}`;
+    }
+    return {
+      session: events[index].session,
+      eventIndex: index,
+      eventCount: events.length,
+      persistence,
+    };
+  }
+
+  /**
+   * Copy a saved session into a new session with its own ID and make it the active session.
+   * Forks the latest state by default, or the state after JSONL event `atEvent` (0-based).
+   * The parent's log is left untouched. A fork of a finalized plan opens in the "revise" phase.
+   */
+  public async forkPlan(input: { sessionId: string; atEvent?: number }): Promise<ToolResponse> {
+    const snapshot = await this.loadSnapshot(input.sessionId, input.atEvent);
+    if (typeof snapshot === 'string') {
+      return this.sessionError(input.sessionId, snapshot);
+    }
+    const { session: source, eventIndex, persistence } = snapshot;
+
+    const now = new Date().toISOString();
+    const fork: PlanningSession = {
+      ...structuredClone(source),
+      sessionId: `dp-${generateId(8)}`,
+      phase: source.phase === 'done' ? 'revise' : source.phase,
+      forkedFrom: { sessionId: source.sessionId, eventIndex, phase: source.phase },
+      createdAt: now,
+      updatedAt: now,
+    };
+    // A fork starts its own version history
+    delete fork.version;
+    delete fork.revisions;
+    this.session = fork;
+    // Save the fork next to its parent
+    this.persistence = persistence;
+
+    this.log(
+      chalk.blue(
+        `\n🍴 Forked ${source.sessionId} (event ${String(eventIndex)}) → ${fork.sessionId}`
+      )
+    );
+
+    // Persist: first JSONL event of the fork + its index entry (fire-and-forget)
+    this.persistStep(fork);
+
+    const output = this.makeOutput(
+      'ok',
+      `Forked "${source.sessionId}" at event ${String(eventIndex)} into "${fork.sessionId}". The fork is now the active session; the original is unchanged.`
+    );
+    return { content: [{ type: 'text' as const, text: JSON.stringify(output, null, 2) }] };
+  }
+
+  /**
+   * Compare two saved snapshots: two sessions, or two events of one session.
+   * Each side defaults to its session's latest event; `otherSessionId` defaults to `sessionId`.
+   * Returns the structured diff as JSON followed by a Markdown summary.
+   */
+  public async diffPlans(input: {
+    sessionId: string;
+    otherSessionId?: string;
+    fromEvent?: number;
+    toEvent?: number;
+  }): Promise<ToolResponse> {
+    const otherSessionId = input.otherSessionId ?? input.sessionId;
+    if (
+      otherSessionId === input.sessionId &&
+      input.fromEvent === undefined &&
+      input.toEvent === undefined
+    ) {
+      return this.sessionError(
+        input.sessionId,
+        'Nothing to compare. Pass "otherSessionId" to compare two sessions, or "fromEvent"/"toEvent" to compare two events of one session.'
+      );
+    }
+
+    const before = await this.loadSnapshot(input.sessionId, input.fromEvent);
+    if (typeof before === 'string') return this.sessionError(input.sessionId, before);
+    const after = await this.loadSnapshot(otherSessionId, input.toEvent);
+    if (typeof after === 'string') return this.sessionError(otherSessionId, after);
+
+    const diff = diffSessions(
+      before.session,
+      after.session,
+      { sessionId: input.sessionId, eventIndex: before.eventIndex, phase: before.session.phase },
+      { sessionId: otherSessionId, eventIndex: after.eventIndex, phase: after.session.phase }
+    );
+
+    return {
+      content: [
+        { type: 'text' as const, text: JSON.stringify(diff, null, 2) },
+        { type: 'text' as const, text: renderDiffMarkdown(diff) },
+      ],
+    };
+  }
+
+  /**
+   * Session history from the JSONL log. "list" describes every event and what it changed;
+   * "restore" and "fork" return to the state after event `atEvent`.
+   */
+  public async planHistory(input: {
+    sessionId: string;
+    action?: PlanHistoryAction;
+    atEvent?: number;
+  }): Promise<ToolResponse> {
+    const action = input.action ?? 'list';
+    if (action !== 'list') {
+      if (input.atEvent === undefined) {
+        return this.sessionError(
+          input.sessionId,
+          `Action "${action}" requires "atEvent". Use action "list" to see the session's events.`
+        );
+      }
+      return action === 'fork'
+        ? this.forkPlan({ sessionId: input.sessionId, atEvent: input.atEvent })
+        : this.restorePlan({ sessionId: input.sessionId, atEvent: input.atEvent });
+    }
+
+    const persistence = await this.persistenceOf(input.sessionId);
+    const events = await this.tryLoad(persistence.loadEvents(input.sessionId));
+    if (typeof events === 'string') return this.sessionError(input.sessionId, events);
+    if (!events) {
+      return this.sessionError(
+        input.sessionId,
+        `Session "${input.sessionId}" not found. Use "list_plans" to see available sessions.`
+      );
+    }
+
+    const side = (index: number): DiffSide => ({
+      sessionId: input.sessionId,
+      eventIndex: index,
+      phase: events[index].phase,
+    });
+    const history = events.map((event, index): PlanHistoryEntry => {
+      const changes: string[] = [];
+      if (index === 0) {
+        changes.push(`Started session: ${event.session.problem}`);
+      } else {
+        const previous = events[index - 1].session;
+        if (event.phase === 'undo') {
+          changes.push(`Undid last step: back to event ${String(event.restoredFrom)}`);
+        } else if (event.restoredFrom !== undefined) {
+          changes.push(`Restored to event ${String(event.restoredFrom)}`);
+        } else if (event.session.version !== previous.version) {
+          changes.push(`Reopened as version ${String(event.session.version)}`);
+        }
+        changes.push(
+          ...summarizeChanges(diffSessions(previous, event.session, side(index - 1), side(index))),
+          ...summarizeMetadataChanges(previous, event.session)
+        );
+      }
+      return {
+        event: index,
+        timestamp: event.timestamp,
+        phase: event.phase,
+        ...(event.session.version !== undefined && { version: event.session.version }),
+        ...(event.restoredFrom !== undefined && { restoredFrom: event.restoredFrom }),
+        changes,
+      };
+    });
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(
+            { sessionId: input.sessionId, eventCount: history.length, events: history },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Make a copy of a logged snapshot the active session and append it as a new event that
+   * records `restoredFrom`. A finalized state gets its Markdown plan re-rendered.
+   */
+  private restoreSnapshot(
+    snapshot: PlanningSession,
+    eventIndex: number,
+    eventPhase: 'restore' | 'undo'
+  ): PlanningSession {
+    const session: PlanningSession = {
+      ...structuredClone(snapshot),
+      updatedAt: new Date().toISOString(),
+    };
+    this.session = session;
+
+    // Persist: restore event + Markdown for a finalized state + index (fire-and-forget)
+    this.persistence.track(
+      this.persistence.appendEvent(session, {
+        ...(eventPhase === 'undo' && { phase: 'undo' }),
+        restoredFrom: eventIndex,
+      })
+    );
+    let markdownPath: string | null = null;
+    if (session.phase === 'done') {
+      this.persistence.track(
+        this.persistence.writeMarkdownPlan(session, this.generateMarkdownPlan(session))
+      );
+      markdownPath = `${session.createdAt.slice(0, 10).replaceAll('-', '')}-${session.sessionId}.md`;
+    }
+    this.persistence.track(
+      this.persistence.updateIndex(session.sessionId, buildIndexEntry(session, markdownPath))
+    );
+
+    return session;
+  }
+
+  /**
+   * Return a saved session to the state after event `atEvent` and make it the active session.
+   * The restore is appended as a new event, so the later events stay in the log and can be
+   * restored in turn.
+   */
+  public async restorePlan(input: { sessionId: string; atEvent: number }): Promise<ToolResponse> {
+    const snapshot = await this.loadSnapshot(input.sessionId, input.atEvent);
+    if (typeof snapshot === 'string') {
+      return this.sessionError(input.sessionId, snapshot);
+    }
+    if (snapshot.eventIndex === snapshot.eventCount - 1) {
+      return this.sessionError(
+        input.sessionId,
+        `Event ${String(snapshot.eventIndex)} is already the latest state of "${input.sessionId}". Nothing to restore.`
+      );
+    }
+
+    this.persistence = snapshot.persistence;
+    const session = this.restoreSnapshot(snapshot.session, snapshot.eventIndex, 'restore');
+    this.log(
+      chalk.blue(`\n⏪ Restored ${session.sessionId} to event ${String(snapshot.eventIndex)}`)
+    );
+
+    const output = this.makeOutput(
+      'ok',
+      `Restored "${session.sessionId}" to event ${String(snapshot.eventIndex)} (${session.phase} phase). Later events remain in the log; use "plan_history" to see them.`
+    );
+    return { content: [{ type: 'text' as const, text: JSON.stringify(output, null, 2) }] };
+  }
+
+  /** Delete a saved plan. Deleting the active session ends it. */
+  public async deletePlan(input: { sessionId: string }): Promise<ToolResponse> {
+    const persistence = await this.persistenceOf(input.sessionId);
+    if (!(await persistence.deletePlan(input.sessionId))) {
+      return this.sessionError(
+        input.sessionId,
+        `Session "${input.sessionId}" not found. Use "list_plans" to see available sessions.`
+      );
+    }
+    if (this.session?.sessionId === input.sessionId) {
+      this.session = null;
+    }
+    this.log(chalk.red(`\n🗑️  Deleted plan ${input.sessionId}`));
+
+    return this.statusResponse(input.sessionId, `Deleted plan "${input.sessionId}".`);
+  }
+
+  /**
+   * Archive a saved plan so list_plans hides it, or bring it back with `archived` false.
+   * Any later step on an archived session reindexes it as active.
+   */
+  public async archivePlan(input: {
+    sessionId: string;
+    archived?: boolean;
+  }): Promise<ToolResponse> {
+    const archived = input.archived ?? true;
+    const persistence = await this.persistenceOf(input.sessionId);
+    if (!(await persistence.archivePlan(input.sessionId, archived))) {
+      return this.sessionError(
+        input.sessionId,
+        `Session "${input.sessionId}" not found. Use "list_plans" to see available sessions.`
+      );
+    }
+
+    return this.statusResponse(
+      input.sessionId,
+      archived
+        ? `Archived plan "${input.sessionId}". Use list_plans with status "archived" to see it.`
+        : `Unarchived plan "${input.sessionId}".`
+    );
+  }
+
+  /**
+   * Edit the tags, owner and project of a saved plan or the active session. The edit is
+   * appended as a "metadata" event, so it shows up in plan_history and can be undone.
+   */
+  public async updatePlanMetadata(input: PlanMetadataInput): Promise<ToolResponse> {
+    if (this.session?.sessionId === input.sessionId) {
+      const conflict = await this.reloadIfChangedElsewhere();
+      if (conflict) return this.sessionError(input.sessionId, conflict);
+    }
+    const persistence = await this.persistenceOf(input.sessionId);
+    const current =
+      this.session?.sessionId === input.sessionId
+        ? this.session
+        : await this.tryLoad(persistence.loadSession(input.sessionId));
+    if (typeof current === 'string') return this.sessionError(input.sessionId, current);
+    if (!current) {
+      return this.sessionError(
+        input.sessionId,
+        `Session "${input.sessionId}" not found. Use "list_plans" to see available sessions.`
+      );
+    }
+
+    let tags: string[];
+    try {
+      const removed = new Set(parseTags(input.removeTags, 'removeTags'));
+      const base = input.tags === undefined ? (current.tags ?? []) : parseTags(input.tags, 'tags');
+      tags = [...new Set([...base, ...parseTags(input.addTags, 'addTags')])].filter(
+        (t) => !removed.has(t)
+      );
+    } catch (error) {
+      return this.sessionError(
+        input.sessionId,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+    const owner = input.owner === undefined ? current.owner : input.owner.trim();
+    const project = input.project === undefined ? current.project : input.project.trim();
+
+    // Cleared fields are left undefined and drop out when the session is serialized
+    const session: PlanningSession = {
+      ...current,
+      tags: tags.length > 0 ? tags : undefined,
+      owner: owner || undefined,
+      project: project || undefined,
+      updatedAt: new Date().toISOString(),
+    };
+    const changes = summarizeMetadataChanges(current, session);
+    if (changes.length === 0) {
+      return this.statusResponse(input.sessionId, 'Metadata unchanged.');
+    }
+    if (this.session?.sessionId === input.sessionId) {
+      this.session = session;
+    }
+
+    // Keep the Markdown plan and archive state; a metadata edit is not a planning step
+    await persistence.flush();
+    const previous = (await persistence.readIndex())[input.sessionId];
+    const markdown = session.phase === 'done' ? (previous?.filePaths.markdown ?? null) : null;
+    persistence.track(persistence.appendEvent(session, { phase: 'metadata' }));
+    if (markdown) {
+      persistence.track(persistence.writeMarkdownPlan(session, this.generateMarkdownPlan(session)));
+    }
+    persistence.track(
+      persistence.updateIndex(session.sessionId, {
+        ...buildIndexEntry(session, markdown),
+        ...(previous?.archivedAt && { archivedAt: previous.archivedAt }),
+      })
+    );
+    this.log(chalk.blue(`\n🏷️  Updated metadata of ${session.sessionId}: ${changes.join('; ')}`));
+
+    return this.statusResponse(input.sessionId, `Updated metadata: ${changes.join('; ')}.`);
+  }
+
+  /**
+   * Check the plans index against the plans directory; with `repair`, fix what can be fixed.
+   * Missing Markdown plans of finalized sessions are re-rendered.
+   */
+  public async verifyPlans(
+    repair = false,
+    persistence = this.persistence
+  ): Promise<PlanVerification> {
+    return persistence.verifyPlans({
+      repair,
+      renderMarkdown: (session) => this.generateMarkdownPlan(session),
+    });
+  }
+
+  /**
+   * Rewrite JSONL logs in the compact delta format: one plan's with `sessionId`, otherwise all.
+   * Events are kept; only how they are stored changes.
+   */
+  public async compactPlans(input: { sessionId?: string }): Promise<ToolResponse> {
+    let results: CompactionResult[];
+    if (input.sessionId === undefined) {
+      results = await this.persistence.compactPlans();
+    } else {
+      const persistence = await this.persistenceOf(input.sessionId);
+      const result = await persistence.compactLog(input.sessionId);
+      if (!result) {
+        return this.sessionError(
+          input.sessionId,
+          `No readable log for session "${input.sessionId}". Use "verify_plans" to check it.`
+        );
+      }
+      results = [result];
+    }
+
+    const compacted = results.filter((r) => r.compacted);
+    const output = {
+      compacted: compacted.length,
+      bytesSaved: compacted.reduce((sum, r) => sum + r.bytesBefore - r.bytesAfter, 0),
+      plans: results,
+    };
+    return { content: [{ type: 'text' as const, text: JSON.stringify(output, null, 2) }] };
+  }
+
+  /**
+   * Export a saved plan as a portable bundle (see bundle.ts). Without `file` the bundle is
+   * returned as the response; with it, the bundle is written to that file in the bundles
+   * directory of the plan's plans directory (see resolveBundlePath) and a summary returned.
+   */
+  public async exportPlan(input: { sessionId: string; file?: string }): Promise<ToolResponse> {
+    const persistence = await this.persistenceOf(input.sessionId);
+    const bundle = await this.tryLoad(persistence.exportPlan(input.sessionId));
+    if (typeof bundle === 'string') return this.sessionError(input.sessionId, bundle);
+    if (!bundle) {
+      return this.sessionError(
+        input.sessionId,
+        `Session "${input.sessionId}" not found. Use "list_plans" to see available sessions.`
+      );
+    }
+
+    const content = JSON.stringify(bundle, null, 2);
+    if (!input.file) {
+      return { content: [{ type: 'text' as const, text: content }] };
+    }
+    let file: string;
+    try {
+      file = resolveBundlePath(persistence.getPlansDir(), input.file);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, content + '\n', 'utf8');
+    } catch (error) {
+      return this.sessionError(
+        input.sessionId,
+        `Failed to write bundle: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    this.log(chalk.blue(`\n📦 Exported plan ${input.sessionId} → ${file}`));
+
+    return this.statusResponse(
+      input.sessionId,
+      `Exported plan "${input.sessionId}" to ${file}. Import it elsewhere with "import_plan".`
+    );
+  }
+
+  /**
+   * Import a bundle from export_plan, given as JSON text or a file in the bundles directory,
+   * into the active plans directory. The imported plan is not made active; continue it with its
+   * session ID.
+   */
+  public async importPlan(input: {
+    bundle?: string;
+    file?: string;
+    onCollision?: ImportCollision;
+  }): Promise<ToolResponse> {
+    if ((input.bundle === undefined) === (input.file === undefined)) {
+      return this.sessionError('', 'Pass exactly one of "bundle" and "file".');
+    }
+
+    let bundle: PlanBundle;
+    try {
+      bundle = parseBundle(
+        input.bundle ??
+          (await readFile(
+            resolveBundlePath(this.persistence.getPlansDir(), input.file ?? ''),
+            'utf8'
+          ))
+      );
+    } catch (error) {
+      return this.sessionError(
+        '',
+        `Failed to read bundle: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    let result: ImportResult;
+    try {
+      result = await this.persistence.importPlan(bundle, {
+        onCollision: input.onCollision,
+        renderMarkdown: (session) => this.generateMarkdownPlan(session),
+      });
+    } catch (error) {
+      return this.sessionError(
+        bundle.sessionId,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+    if (result.replaced && this.session?.sessionId === result.sessionId) {
+      // The active state was deleted with the local plan
+      this.session = null;
+    }
+    this.log(chalk.blue(`\n📦 Imported plan ${result.originalSessionId} → ${result.sessionId}`));
+
+    const events = `${String(result.events)} event${result.events === 1 ? '' : 's'}`;
+    let message = `Imported plan "${result.sessionId}" (${events}).`;
+    if (result.replaced) {
+      message = `Imported plan "${result.sessionId}" (${events}), replacing the local plan with that ID.`;
+    } else if (result.sessionId !== result.originalSessionId) {
+      message = `Imported plan "${result.originalSessionId}" as "${result.sessionId}" (${events}): a plan with its ID already exists here.`;
+    }
+    return this.statusResponse(
+      result.sessionId,
+      `${message} Continue it with deep_planning and sessionId "${result.sessionId}".`
+    );
+  }
+
+  /**
+   * Run the integrity check configured by `startupCheck` in yggdrasil-config.json on a plans
+   * directory (the active one by default) and report the result on stderr. Returns null when
+   * the check is off or its setting is invalid.
+   */
+  public async runStartupCheck(persistence = this.persistence): Promise<PlanVerification | null> {
+    let mode: StartupCheckMode;
+    try {
+      mode = parseStartupCheck((await persistence.readConfig()).startupCheck);
+    } catch (error) {
+      console.error(
+        `[yggdrasil] Skipping startup check: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return null;
+    }
+    if (mode === 'off') return null;
+
+    const result = await this.verifyPlans(mode === 'repair', persistence);
+    if (result.issues.length > 0) {
+      console.error(
+        `[yggdrasil] Plans check: ${String(result.issues.length)} issue(s) in ${String(result.checked)} plan(s), ${String(result.repaired)} repaired${mode === 'report' ? ' (run verify_plans with repair to fix)' : ''}`
+      );
+      for (const issue of result.issues) {
+        console.error(
+          `[yggdrasil]   ${issue.kind}: ${issue.file}: ${issue.message}${issue.repaired ? ' (repaired)' : ''}`
+        );
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Apply the retention policy and run the startup check in every plans directory the server
+   * knows of that has not had them yet: the startup project's, then each new project root's.
+   */
+  public async maintainPlans(): Promise<void> {
+    for (const persistence of this.allPersistences()) {
+      if (this.maintained.has(persistence)) continue;
+      this.maintained.add(persistence);
+      await persistence.applyRetention();
+      await this.runStartupCheck(persistence);
+    }
+  }
+
   // ─── Main Entry Point ────────────────────────────────────────────────────
 
   /**
-   * Attempt to resume a specific session from disk persistence.
-   * Returns an error response if the session is not found, or null on success/skip.
+   * Attempt to resume a specific session from disk persistence, looking in the active plans
+   * directory first and then in every project root's.
+   * Returns an error response if the session is not found or can't be loaded, or null on
+   * success/skip.
    */
   private async tryResumeSession(
     input: DeepPlanningInput
@@ -682,8 +2103,15 @@ export class DeepPlanningServer {
     if (!input.sessionId || input.phase === 'init') return null;
     if (this.session?.sessionId === input.sessionId) return null;
 
-    const loaded = await this.persistence.loadSession(input.sessionId);
-    if (!loaded) {
+    let loaded: PlanningSession | string | null = null;
+    for (const persistence of this.allPersistences()) {
+      loaded = await this.tryLoad(persistence.resumeSession(input.sessionId));
+      if (loaded === null) continue;
+      // The session lives in this plans directory; keep saving it there
+      if (typeof loaded !== 'string') this.persistence = persistence;
+      break;
+    }
+    if (typeof loaded === 'string' || !loaded) {
       return {
         content: [
           {
@@ -696,7 +2124,9 @@ export class DeepPlanningServer {
                 approachCount: 0,
                 evaluationCount: 0,
                 validNextPhases: [],
-                message: `Session "${input.sessionId}" not found. Use "list_plans" to see available sessions.`,
+                message:
+                  loaded ??
+                  `Session "${input.sessionId}" not found. Use "list_plans" to see available sessions.`,
               },
               null,
               2
@@ -711,6 +2141,27 @@ export class DeepPlanningServer {
     return null;
   }
 
+  /**
+   * Check whether another server process has written to the active session's log since this
+   * one last did (e.g. two editor windows resumed the same session). If so, reload the session
+   * from disk rather than overwrite that work, and return a message explaining what happened.
+   */
+  private async reloadIfChangedElsewhere(): Promise<string | null> {
+    const sessionId = this.session?.sessionId;
+    if (!sessionId || !(await this.persistence.hasLogConflict(sessionId))) return null;
+
+    const loaded = await this.tryLoad(this.persistence.resumeSession(sessionId));
+    if (typeof loaded === 'string') {
+      // Keep the active state rather than continue from a log this server can't read
+      return `Another process changed the log of session "${sessionId}". ${loaded}`;
+    }
+    this.session = loaded;
+    this.log(chalk.yellow(`\n⚠️  ${sessionId} was changed by another process; reloaded`));
+    return this.session
+      ? `Session "${sessionId}" was changed by another process. Reloaded its latest state (${this.session.phase} phase); check it and repeat this step if it is still needed.`
+      : `Session "${sessionId}" was deleted by another process.`;
+  }
+
   public async processPlanningStep(input: DeepPlanningInput): Promise<{
     content: { type: 'text'; text: string }[];
     isError?: boolean;
@@ -720,8 +2171,10 @@ export class DeepPlanningServer {
       const resumeError = await this.tryResumeSession(input);
       if (resumeError) return resumeError;
 
-      const transitionError = this.validateTransition(input.phase);
-      if (transitionError) {
+      const stepError =
+        (input.phase === 'init' ? null : await this.reloadIfChangedElsewhere()) ??
+        this.validateTransition(input.phase);
+      if (stepError) {
         const errorOutput: DeepPlanningOutput = {
           sessionId: this.session?.sessionId ?? '',
           phase: this.session?.phase ?? '',
@@ -729,7 +2182,7 @@ export class DeepPlanningServer {
           approachCount: this.session?.approaches.length ?? 0,
           evaluationCount: this.session?.evaluations.length ?? 0,
           validNextPhases: this.getValidNextPhases(),
-          message: transitionError,
+          message: stepError,
         };
         return {
           content: [{ type: 'text' as const, text: JSON.stringify(errorOutput, null, 2) }],
@@ -740,11 +2193,11 @@ export class DeepPlanningServer {
       let output: DeepPlanningOutput;
 
       if (input.phase === 'init') {
-        output = this.handleInit(input);
+        output = await this.handleInit(input);
       } else if (this.session) {
         const session = this.session;
 
-        switch (input.phase as PlanPhase) {
+        switch (input.phase as RequestedPhase) {
           case 'clarify': {
             output = this.handleClarify(session, input);
             break;
@@ -761,6 +2214,14 @@ export class DeepPlanningServer {
             output = this.handleFinalize(session, input);
             break;
           }
+          case 'revise': {
+            output = this.handleRevise(session, input);
+            break;
+          }
+          case 'undo': {
+            output = await this.handleUndo(session);
+            break;
+          }
           default: {
             output = this.makeOutput('error', `Unhandled phase: ${input.phase}`);
             break;
@@ -771,6 +2232,10 @@ export class DeepPlanningServer {
         output = this.makeOutput('error', 'No active planning session.');
       }
 
+      // Wait for the step's event, which is not saved if another process wrote to the log first
+      const conflict = output.status === 'error' ? null : await this.reloadIfChangedElsewhere();
+      if (conflict) output = this.makeOutput('error', conflict);
+
       if (output.status === 'error') {
         return {
           content: [{ type: 'text' as const, text: JSON.stringify(output, null, 2) }],
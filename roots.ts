@@ -0,0 +1,52 @@
+/**
+ * Project roots: the workspaces whose plans directories the server reads and writes.
+ *
+ * A root comes from the `--project-root` command-line argument or from the MCP client's
+ * workspace roots (`roots/list`). Each root resolves to a plans directory through
+ * resolvePlansDirectory, so a project's `.claude/settings.json` plansDirectory applies.
+ */
+
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+/** Command-line flag naming the project root: `--project-root <dir>` or `--project-root=<dir>`. */
+export const PROJECT_ROOT_FLAG = '--project-root';
+
+/**
+ * The project root given on the command line, resolved against the working directory, or
+ * undefined if none was given. Throws TypeError if the flag has no value.
+ */
+export function parseProjectRootArg(argv: readonly string[]): string | undefined {
+  for (const [i, arg] of argv.entries()) {
+    let value: string | undefined;
+    if (arg === PROJECT_ROOT_FLAG) {
+      value = argv[i + 1];
+    } else if (arg.startsWith(`${PROJECT_ROOT_FLAG}=`)) {
+      value = arg.slice(PROJECT_ROOT_FLAG.length + 1);
+    } else {
+      continue;
+    }
+    if (!value || value.startsWith('--')) {
+      throw new TypeError(`${PROJECT_ROOT_FLAG} needs a directory`);
+    }
+    return path.resolve(value);
+  }
+  return undefined;
+}
+
+/**
+ * Directories of the roots an MCP client reported, in order and without duplicates.
+ * Only file: URIs name directories; other roots are skipped.
+ */
+export function rootPaths(roots: readonly { uri: string }[]): string[] {
+  const paths = new Set<string>();
+  for (const { uri } of roots) {
+    if (!uri.startsWith('file:')) continue;
+    try {
+      paths.add(fileURLToPath(uri));
+    } catch {
+      // Not a local file URI (e.g. file://host/share on POSIX)
+    }
+  }
+  return [...paths];
+}
@@ -0,0 +1,189 @@
+/**
+ * Schema versions of persisted deep_planning sessions.
+ *
+ * Every JSONL log line records the schema version it was written with (`schemaVersion`); lines
+ * without one predate versioning and are version 1. When a log is loaded, each session state is
+ * upgraded through MIGRATIONS to SCHEMA_VERSION and then validated, so the rest of the code can
+ * rely on the PlanningSession shape. To change that shape: bump SCHEMA_VERSION, add the
+ * migration from the previous version and update validateSession.
+ */
+
+import type { PlanningSession, PlanPhase } from './planning.js';
+
+// ─── Versions ────────────────────────────────────────────────────────────────
+
+/** Schema version written with every new log line. */
+export const SCHEMA_VERSION = 2;
+
+/** A session as parsed from JSON, before it is known to be valid. */
+export type SessionData = Record<string, unknown>;
+
+/** A migration upgrades a session from version n to n + 1. */
+export type Migration = (session: SessionData) => SessionData;
+
+const MIGRATIONS: Record<number, Migration> = {
+  // Version 2 changed how log lines are stored (deltas, see event-log.ts), not the session
+  1: (session) => session,
+};
+
+/**
+ * Upgrade a session from schema version `from` to `to`, one migration at a time.
+ * Throws TypeError for versions this server does not know.
+ */
+export function migrateSession(
+  session: SessionData,
+  from: number,
+  to = SCHEMA_VERSION,
+  migrations: Record<number, Migration> = MIGRATIONS
+): SessionData {
+  if (!Number.isInteger(from) || from < 1) {
+    throw new TypeError(`Unknown schema version ${JSON.stringify(from)}`);
+  }
+  if (from > to) {
+    throw new TypeError(
+      `Written with schema version ${String(from)}, but this server reads up to version ${String(to)}; update yggdrasil`
+    );
+  }
+  let upgraded = session;
+  for (let version = from; version < to; version++) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new TypeError(`No migration from schema version ${String(version)}`);
+    }
+    upgraded = migrate(upgraded);
+  }
+  return upgraded;
+}
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+// A Record over the union, so adding a phase without listing it here fails to compile
+const PHASES: Record<PlanPhase, true> = {
+  init: true,
+  clarify: true,
+  explore: true,
+  evaluate: true,
+  finalize: true,
+  revise: true,
+  done: true,
+};
+
+type Check = (value: unknown, at: string) => void;
+
+function fail(at: string, expected: string, value: unknown): never {
+  const actual = Array.isArray(value) ? 'a list' : value === null ? 'null' : typeof value;
+  throw new TypeError(`${at} must be ${expected}, got ${actual}`);
+}
+
+const isString: Check = (value, at) => {
+  if (typeof value !== 'string') fail(at, 'a string', value);
+};
+
+const isNumber: Check = (value, at) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) fail(at, 'a number', value);
+};
+
+const isBoolean: Check = (value, at) => {
+  if (typeof value !== 'boolean') fail(at, 'true or false', value);
+};
+
+function isOneOf(values: readonly string[]): Check {
+  return (value, at) => {
+    if (typeof value !== 'string' || !values.includes(value)) {
+      fail(at, `one of ${values.map((v) => `"${v}"`).join(', ')}`, value);
+    }
+  };
+}
+
+function listOf(item: Check): Check {
+  return (value, at) => {
+    if (!Array.isArray(value)) fail(at, 'a list', value);
+    for (const [i, element] of value.entries()) item(element, `${at}[${String(i)}]`);
+  };
+}
+
+/** An object with the given fields; fields whose name ends in "?" may be absent. */
+function objectOf(fields: Record<string, Check>): Check {
+  return (value, at) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) fail(at, 'an object', value);
+    const record = value as Record<string, unknown>;
+    for (const [key, check] of Object.entries(fields)) {
+      const name = key.replace(/\?$/, '');
+      if (key.endsWith('?') && record[name] === undefined) continue;
+      check(record[name], `${at}.${name}`);
+    }
+  };
+}
+
+const isPhase = isOneOf(Object.keys(PHASES));
+
+const isScores: Check = (value, at) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) fail(at, 'an object', value);
+  for (const [name, score] of Object.entries(value)) isNumber(score, `${at}.${name}`);
+};
+
+const isSession = objectOf({
+  sessionId: isString,
+  problem: isString,
+  'context?': isString,
+  constraints: listOf(isString),
+  phase: isPhase,
+  clarifications: listOf(objectOf({ question: isString, 'answer?': isString })),
+  approaches: listOf(
+    objectOf({
+      branchId: isString,
+      name: isString,
+      description: isString,
+      pros: listOf(isString),
+      cons: listOf(isString),
+    })
+  ),
+  evaluations: listOf(
+    objectOf({
+      branchId: isString,
+      'evaluatorId?': isString,
+      'version?': isNumber,
+      scores: isScores,
+      weightedScore: isNumber,
+      rationale: isString,
+      recommendation: isOneOf(['pursue', 'refine', 'abandon']),
+    })
+  ),
+  'selectedApproach?': isString,
+  steps: listOf(
+    // Only what the planner itself reads; files, dependencies and complexity are kept as given
+    objectOf({ title: isString, description: isString })
+  ),
+  risks: listOf(objectOf({ description: isString, mitigation: isString })),
+  assumptions: listOf(isString),
+  successCriteria: listOf(isString),
+  'criteria?': listOf(objectOf({ name: isString, weight: isNumber, 'lowerIsBetter?': isBoolean })),
+  'reasoningTrail?': listOf(
+    objectOf({
+      phase: isPhase,
+      thinkingSessionId: isString,
+      thoughtNumber: isNumber,
+      thought: isString,
+      'isRevision?': isBoolean,
+      'branchId?': isString,
+      recordedAt: isString,
+    })
+  ),
+  'version?': isNumber,
+  'revisions?': listOf(objectOf({ version: isNumber, reopenedAt: isString, 'reason?': isString })),
+  'forkedFrom?': objectOf({ sessionId: isString, eventIndex: isNumber, phase: isPhase }),
+  'tags?': listOf(isString),
+  'owner?': isString,
+  'project?': isString,
+  createdAt: isString,
+  updatedAt: isString,
+});
+
+/**
+ * Check that parsed JSON has the PlanningSession shape of the current schema.
+ * Throws TypeError naming the first field that does not, e.g. "approaches[2].name".
+ */
+export function validateSession(value: unknown): PlanningSession {
+  isSession(value, 'session');
+  return value as PlanningSession;
+}
@@ -0,0 +1,140 @@
+/**
+ * Full-text search over saved deep_planning sessions.
+ *
+ * A session is flattened into labelled text fields (problem, context, constraints, clarification
+ * Q&A, approaches, evaluation rationales and recommendations, steps, risks). Each query term
+ * found in a field scores that field's weight; a field containing the whole query as a phrase
+ * scores extra. Results are ranked by total score and carry a snippet for each matching field.
+ */
+
+import type { PlanningSession } from './planning.js';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface SearchMatch {
+  /** Where the text came from, e.g. "approaches.redis.cons" or "steps.2.title". */
+  field: string;
+  snippet: string;
+}
+
+export interface SearchResult {
+  sessionId: string;
+  problem: string;
+  phase: string;
+  score: number;
+  matches: SearchMatch[];
+}
+
+interface SearchField {
+  field: string;
+  text: string;
+  weight: number;
+}
+
+/** Results returned by search_plans when no limit is given. */
+export const DEFAULT_SEARCH_LIMIT = 10;
+
+/** Matches listed per result; the score still counts every matching field. */
+export const MAX_MATCHES_PER_RESULT = 3;
+
+const SNIPPET_RADIUS = 60;
+
+/** Extra weight for a field that contains the whole query, not just its terms. */
+const PHRASE_BONUS = 2;
+
+// ─── Fields ──────────────────────────────────────────────────────────────────
+
+/** Flatten the searchable text of a session into weighted, labelled fields. */
+function searchableFields(session: PlanningSession): SearchField[] {
+  const fields: SearchField[] = [{ field: 'problem', text: session.problem, weight: 3 }];
+  const add = (field: string, text: string | undefined, weight = 1): void => {
+    if (text) fields.push({ field, text, weight });
+  };
+
+  add('context', session.context);
+  for (const [i, constraint] of session.constraints.entries()) {
+    add(`constraints.${String(i + 1)}`, constraint);
+  }
+  for (const [i, c] of session.clarifications.entries()) {
+    add(`clarifications.${String(i + 1)}.question`, c.question);
+    add(`clarifications.${String(i + 1)}.answer`, c.answer);
+  }
+  for (const a of session.approaches) {
+    add(`approaches.${a.branchId}.name`, a.name, 2);
+    add(`approaches.${a.branchId}.description`, a.description);
+    for (const pro of a.pros) add(`approaches.${a.branchId}.pros`, pro);
+    for (const con of a.cons) add(`approaches.${a.branchId}.cons`, con);
+  }
+  for (const e of session.evaluations) {
+    const by = e.evaluatorId ? `.${e.evaluatorId}` : '';
+    add(`evaluations.${e.branchId}${by}.rationale`, e.rationale, 1.5);
+    add(`evaluations.${e.branchId}${by}.recommendation`, e.recommendation);
+  }
+  for (const [i, step] of session.steps.entries()) {
+    add(`steps.${String(i + 1)}.title`, step.title);
+    add(`steps.${String(i + 1)}.description`, step.description);
+  }
+  for (const [i, risk] of session.risks.entries()) {
+    add(`risks.${String(i + 1)}.description`, risk.description);
+    add(`risks.${String(i + 1)}.mitigation`, risk.mitigation);
+  }
+
+  return fields;
+}
+
+// ─── Matching ────────────────────────────────────────────────────────────────
+
+/** Split a query into lowercase terms, dropping duplicates. */
+function tokenize(query: string): string[] {
+  return [...new Set(query.toLowerCase().split(/\s+/).filter(Boolean))];
+}
+
+/** A window of text around a match, whitespace collapsed, with ellipses where it was cut. */
+function makeSnippet(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  const body = text.slice(start, end).replaceAll(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${body}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Score one session against a query. Returns null when no term matches.
+ * Matches are ordered by how much they contributed, best first.
+ */
+export function searchSession(session: PlanningSession, query: string): SearchResult | null {
+  const terms = tokenize(query);
+  if (terms.length === 0) return null;
+  const phrase = terms.join(' ');
+
+  let score = 0;
+  const scored: (SearchMatch & { score: number })[] = [];
+  for (const { field, text, weight } of searchableFields(session)) {
+    const lower = text.toLowerCase();
+    const found = terms.filter((t) => lower.includes(t));
+    if (found.length === 0) continue;
+
+    const phraseAt = terms.length > 1 ? lower.replaceAll(/\s+/g, ' ').indexOf(phrase) : -1;
+    const fieldScore = weight * (found.length + (phraseAt === -1 ? 0 : PHRASE_BONUS));
+    score += fieldScore;
+
+    // Centre the snippet on the phrase when present, otherwise on the first term found
+    const snippet =
+      phraseAt === -1
+        ? makeSnippet(text, lower.indexOf(found[0]), found[0].length)
+        : makeSnippet(text.replaceAll(/\s+/g, ' '), phraseAt, phrase.length);
+    scored.push({ field, snippet, score: fieldScore });
+  }
+
+  if (scored.length === 0) return null;
+  scored.sort((a, b) => b.score - a.score);
+
+  return {
+    sessionId: session.sessionId,
+    problem: session.problem,
+    phase: session.phase,
+    score: Math.round(score * 100) / 100,
+    matches: scored
+      .slice(0, MAX_MATCHES_PER_RESULT)
+      .map(({ field, snippet }) => ({ field, snippet })),
+  };
+}
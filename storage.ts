@@ -0,0 +1,325 @@
+/**
+ * Storage backends for the plans directory.
+ *
+ * PersistenceManager keeps its data as named text files: JSONL event logs, Markdown plans and
+ * JSON indexes, with thinking chains under `thinking/`. A backend stores those files:
+ * - fs: the plans directory itself (the default)
+ * - sqlite: one `files` table in a SQLite database inside the plans directory
+ * - memory: a Map, for tests and throwaway sessions
+ *
+ * Backends report a missing file as null or false and throw on any other failure;
+ * PersistenceManager decides what to log.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { mkdirSync } from 'node:fs';
+import {
+  appendFile,
+  mkdir,
+  readFile,
+  readdir,
+  rename,
+  stat,
+  unlink,
+  writeFile,
+} from 'node:fs/promises';
+import path from 'node:path';
+import type { DatabaseSync } from 'node:sqlite';
+
+import { withFileLock } from './file-lock.js';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type StorageKind = 'fs' | 'sqlite' | 'memory';
+
+export const STORAGE_KINDS: StorageKind[] = ['fs', 'sqlite', 'memory'];
+
+/** Database file of the sqlite backend, inside the plans directory. */
+export const SQLITE_FILENAME = 'yggdrasil-plans.db';
+
+export interface StorageStat {
+  /** Content size in bytes. */
+  size: number;
+  mtimeMs: number;
+}
+
+export interface StorageBackend {
+  readonly kind: StorageKind;
+  /** Where the data lives: the plans directory, the database file or ":memory:". */
+  readonly location: string;
+  /** File content, or null if the file does not exist. */
+  read(name: string): Promise<string | null>;
+  /** Create or replace a file. Readers never see a partly written file. */
+  write(name: string, content: string): Promise<void>;
+  append(name: string, content: string): Promise<void>;
+  /** Returns false if there was nothing to remove. */
+  remove(name: string): Promise<boolean>;
+  /**
+   * Names of the files at the top level (not under `thinking/`).
+   * The fs backend throws if the plans directory does not exist yet.
+   */
+  list(): Promise<string[]>;
+  stat(name: string): Promise<StorageStat | null>;
+  /** Run `task` holding a lock on `name` that other processes sharing the store respect. */
+  withLock<T>(name: string, task: () => Promise<T>): Promise<T>;
+}
+
+/** Validate a storage backend name. Throws TypeError naming `source` on invalid values. */
+export function parseStorageKind(value: unknown, source: string): StorageKind {
+  if (STORAGE_KINDS.includes(value as StorageKind)) return value as StorageKind;
+  throw new TypeError(
+    `${source} must be one of ${STORAGE_KINDS.map((k) => `"${k}"`).join(', ')}, got ${JSON.stringify(value)}`
+  );
+}
+
+export function createStorageBackend(kind: StorageKind, plansDir: string): StorageBackend {
+  switch (kind) {
+    case 'sqlite': {
+      return new SqliteBackend(path.join(plansDir, SQLITE_FILENAME));
+    }
+    case 'memory': {
+      return new MemoryBackend();
+    }
+    default: {
+      return new FileSystemBackend(plansDir);
+    }
+  }
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function isMissing(error: unknown): boolean {
+  return error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+/** Run tasks with the same key one after another within this process. */
+class TaskQueue {
+  private tails = new Map<string, Promise<unknown>>();
+
+  public run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    const next = previous.then(task, task);
+    const tail = next.then(
+      () => undefined,
+      () => undefined
+    );
+    this.tails.set(key, tail);
+    void tail.then(() => {
+      if (this.tails.get(key) === tail) this.tails.delete(key);
+    });
+    return next;
+  }
+}
+
+// ─── Filesystem ──────────────────────────────────────────────────────────────
+
+/** The plans directory as it always was: one file per name, locks as `<file>.lock`. */
+export class FileSystemBackend implements StorageBackend {
+  public readonly kind = 'fs';
+  public readonly location: string;
+  private createdDirs = new Set<string>();
+
+  constructor(root: string) {
+    this.location = root;
+  }
+
+  private resolve(name: string): string {
+    return path.join(this.location, name);
+  }
+
+  /** Create the file's directory on first use. */
+  private async ensureDirFor(filePath: string): Promise<void> {
+    const dir = path.dirname(filePath);
+    if (this.createdDirs.has(dir)) return;
+    await mkdir(dir, { recursive: true });
+    this.createdDirs.add(dir);
+  }
+
+  public async read(name: string): Promise<string | null> {
+    try {
+      return await readFile(this.resolve(name), 'utf8');
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+  }
+
+  public async write(name: string, content: string): Promise<void> {
+    const filePath = this.resolve(name);
+    await this.ensureDirFor(filePath);
+    // Write to a tmp file and rename over the target; unique per write, so two processes
+    // never write through the same tmp file
+    const tmpPath = `${filePath}.${String(process.pid)}-${randomBytes(4).toString('hex')}.tmp`;
+    await writeFile(tmpPath, content, 'utf8');
+    await rename(tmpPath, filePath);
+  }
+
+  public async append(name: string, content: string): Promise<void> {
+    const filePath = this.resolve(name);
+    await this.ensureDirFor(filePath);
+    await appendFile(filePath, content, 'utf8');
+  }
+
+  public async remove(name: string): Promise<boolean> {
+    try {
+      await unlink(this.resolve(name));
+      return true;
+    } catch (error) {
+      if (isMissing(error)) return false;
+      throw error;
+    }
+  }
+
+  public async list(): Promise<string[]> {
+    const entries = await readdir(this.location, { withFileTypes: true });
+    return entries.filter((e) => e.isFile()).map((e) => e.name);
+  }
+
+  public async stat(name: string): Promise<StorageStat | null> {
+    try {
+      const { size, mtimeMs } = await stat(this.resolve(name));
+      return { size, mtimeMs };
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+  }
+
+  public async withLock<T>(name: string, task: () => Promise<T>): Promise<T> {
+    const filePath = this.resolve(name);
+    await this.ensureDirFor(filePath);
+    return withFileLock(`${filePath}.lock`, task);
+  }
+}
+
+// ─── SQLite ──────────────────────────────────────────────────────────────────
+
+/**
+ * All files as rows of one table in a SQLite database. Locks are write transactions, so only
+ * one process (and, through a queue, one task in this process) holds a lock at a time.
+ * Uses the built-in node:sqlite module.
+ */
+export class SqliteBackend implements StorageBackend {
+  public readonly kind = 'sqlite';
+  public readonly location: string;
+  private db: DatabaseSync;
+  private locks = new TaskQueue();
+
+  constructor(file: string) {
+    const sqlite = process.getBuiltinModule('node:sqlite') as
+      | typeof import('node:sqlite')
+      | undefined;
+    if (!sqlite) {
+      throw new Error('The sqlite storage backend needs Node.js 22.13 or later (node:sqlite)');
+    }
+    mkdirSync(path.dirname(file), { recursive: true });
+    this.location = file;
+    this.db = new sqlite.DatabaseSync(file);
+    // WAL lets other processes read while one writes; busy_timeout makes them wait for locks
+    this.db.exec(`
+      PRAGMA journal_mode = WAL;
+      PRAGMA busy_timeout = 10000;
+      CREATE TABLE IF NOT EXISTS files (
+        name TEXT PRIMARY KEY,
+        content TEXT NOT NULL,
+        mtime REAL NOT NULL
+      );
+    `);
+  }
+
+  public async read(name: string): Promise<string | null> {
+    const row = this.db.prepare('SELECT content FROM files WHERE name = ?').get(name) as
+      | { content: string }
+      | undefined;
+    return row?.content ?? null;
+  }
+
+  public async write(name: string, content: string): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO files (name, content, mtime) VALUES (?, ?, ?)
+         ON CONFLICT (name) DO UPDATE SET content = excluded.content, mtime = excluded.mtime`
+      )
+      .run(name, content, Date.now());
+  }
+
+  public async append(name: string, content: string): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO files (name, content, mtime) VALUES (?, ?, ?)
+         ON CONFLICT (name) DO UPDATE SET content = content || excluded.content, mtime = excluded.mtime`
+      )
+      .run(name, content, Date.now());
+  }
+
+  public async remove(name: string): Promise<boolean> {
+    return Number(this.db.prepare('DELETE FROM files WHERE name = ?').run(name).changes) > 0;
+  }
+
+  public async list(): Promise<string[]> {
+    const rows = this.db
+      .prepare("SELECT name FROM files WHERE name NOT LIKE '%/%' ORDER BY name")
+      .all() as { name: string }[];
+    return rows.map((r) => r.name);
+  }
+
+  public async stat(name: string): Promise<StorageStat | null> {
+    const row = this.db
+      .prepare('SELECT length(CAST(content AS BLOB)) AS size, mtime FROM files WHERE name = ?')
+      .get(name) as { size: number; mtime: number } | undefined;
+    return row ? { size: row.size, mtimeMs: row.mtime } : null;
+  }
+
+  public withLock<T>(_name: string, task: () => Promise<T>): Promise<T> {
+    // One connection can hold one transaction, so every lock shares the queue
+    return this.locks.run('', async () => {
+      this.db.exec('BEGIN IMMEDIATE');
+      try {
+        return await task();
+      } finally {
+        // A lock, not a rollback point: keep whatever the task wrote
+        this.db.exec('COMMIT');
+      }
+    });
+  }
+}
+
+// ─── Memory ──────────────────────────────────────────────────────────────────
+
+/** Files in a Map. Nothing survives the process; locks only order tasks within it. */
+export class MemoryBackend implements StorageBackend {
+  public readonly kind = 'memory';
+  public readonly location = ':memory:';
+  private files = new Map<string, { content: string; mtimeMs: number }>();
+  private locks = new TaskQueue();
+
+  public async read(name: string): Promise<string | null> {
+    return this.files.get(name)?.content ?? null;
+  }
+
+  public async write(name: string, content: string): Promise<void> {
+    this.files.set(name, { content, mtimeMs: Date.now() });
+  }
+
+  public async append(name: string, content: string): Promise<void> {
+    const previous = this.files.get(name)?.content ?? '';
+    this.files.set(name, { content: previous + content, mtimeMs: Date.now() });
+  }
+
+  public async remove(name: string): Promise<boolean> {
+    return this.files.delete(name);
+  }
+
+  public async list(): Promise<string[]> {
+    return [...this.files.keys()].filter((name) => !name.includes('/')).toSorted();
+  }
+
+  public async stat(name: string): Promise<StorageStat | null> {
+    const file = this.files.get(name);
+    return file ? { size: Buffer.byteLength(file.content), mtimeMs: file.mtimeMs } : null;
+  }
+
+  public withLock<T>(name: string, task: () => Promise<T>): Promise<T> {
+    return this.locks.run(name, task);
+  }
+}